@@ -1,24 +1,46 @@
-
 import { NextResponse } from 'next/server';
-import { getAvailableLayouts } from '@/lib/planogram-data';
+import { deleteLayout, getLayout, updateLayout } from '@/lib/layout-repository';
+import { validateLayoutData } from '@/lib/layout-templates';
+
+type RouteContext = { params: Promise<{ layoutId: string }> };
 
-export async function GET(
-  request: Request,
-  { params }: { params: Promise<{ layoutId: string }> }
-) {
+export async function GET(request: Request, { params }: RouteContext) {
   const { layoutId } = await params;
-  const layouts = await getAvailableLayouts();
-  const layout = layouts[layoutId];
+  const layout = await getLayout(layoutId);
 
   if (layout) {
-    return NextResponse.json({
-        id: layoutId,
-        name: layout.name,
-        width: layout.width,
-        height: layout.height,
-        layout: layout.layout
-    });
+    return NextResponse.json({ id: layoutId, ...layout });
   } else {
     return new NextResponse('Layout not found', { status: 404 });
   }
 }
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { layoutId } = await params;
+  const body = await request.json().catch(() => null);
+  const validationError = validateLayoutData(body);
+
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const result = await updateLayout(layoutId, body);
+
+  if (result.status !== 'ok') {
+    return new NextResponse('Layout not found', { status: 404 });
+  }
+  return NextResponse.json({ id: result.layoutId, ...result.layout });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { layoutId } = await params;
+  const result = await deleteLayout(layoutId);
+
+  if (result === 'not-found') {
+    return new NextResponse('Layout not found', { status: 404 });
+  }
+  if (result === 'last-layout') {
+    return NextResponse.json({ error: 'Cannot delete the last remaining layout' }, { status: 409 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -1,12 +1,30 @@
-
 import { NextResponse } from 'next/server';
-import { getAvailableLayouts } from '@/lib/planogram-data';
-
-export async function GET() {
-  const layouts = await getAvailableLayouts();
-  const layoutList = Object.keys(layouts).map(key => ({
-    id: key,
-    name: layouts[key].name,
-  }));
+import { createLayout, listLayouts } from '@/lib/layout-repository';
+import { validateLayoutData } from '@/lib/layout-templates';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const expand = searchParams.get('expand') === 'true';
+
+  const layouts = await listLayouts();
+  const layoutList = Object.keys(layouts).map(key => (
+    expand ? { id: key, ...layouts[key] } : { id: key, name: layouts[key].name }
+  ));
   return NextResponse.json({ layouts: layoutList });
 }
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const validationError = validateLayoutData(body);
+
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const result = await createLayout(body, typeof body.id === 'string' ? body.id : undefined);
+
+  if (result.status !== 'ok') {
+    return NextResponse.json({ error: 'A layout with this id already exists' }, { status: 409 });
+  }
+  return NextResponse.json({ id: result.layoutId, ...result.layout }, { status: 201 });
+}
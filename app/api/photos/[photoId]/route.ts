@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getPhoto } from '@/lib/photo-repository';
+
+type RouteContext = { params: Promise<{ photoId: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { photoId } = await params;
+  const photo = await getPhoto(photoId);
+
+  if (!photo) {
+    return NextResponse.json({ error: 'Photo not found' }, { status: 404 });
+  }
+  // Photos never change once uploaded
+  return new NextResponse(new Uint8Array(photo.data), {
+    headers: {
+      'Content-Type': photo.contentType,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { savePhoto, validatePhoto } from '@/lib/photo-repository';
+
+/**
+ * Multipart form fields:
+ *  - image: the shelf photo to keep with an imported planogram
+ */
+export async function POST(request: Request) {
+  const formData = await request.formData().catch(() => null);
+  if (!formData) {
+    return NextResponse.json({ error: 'Send the image as multipart form data' }, { status: 400 });
+  }
+
+  const image = formData.get('image');
+  const file = image && typeof image !== 'string' ? image : null;
+  const validationError = await validatePhoto(file);
+
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const photo = await savePhoto(file!);
+  return NextResponse.json({ photo }, { status: 201 });
+}
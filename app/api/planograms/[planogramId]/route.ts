@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import {
+  deletePlanogram,
+  getPlanogram,
+  updatePlanogram,
+  validatePlanogramInput,
+} from '@/lib/planogram-repository';
+
+type RouteContext = { params: Promise<{ planogramId: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { planogramId } = await params;
+  const planogram = await getPlanogram(planogramId);
+
+  if (!planogram) {
+    return NextResponse.json({ error: 'Planogram not found' }, { status: 404 });
+  }
+  return NextResponse.json({ planogram });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { planogramId } = await params;
+  const body = await request.json().catch(() => null);
+  const validationError = validatePlanogramInput(body);
+
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  if (typeof body.version !== 'number') {
+    return NextResponse.json({ error: '"version" is required for updates' }, { status: 400 });
+  }
+
+  const result = await updatePlanogram(planogramId, body, body.version);
+
+  if (result.status === 'not-found') {
+    return NextResponse.json({ error: 'Planogram not found' }, { status: 404 });
+  }
+  if (result.status === 'conflict') {
+    // Send back the latest server copy so the client can decide what to do
+    return NextResponse.json(
+      { error: `Planogram was modified by ${result.planogram.author} (version ${result.planogram.version})`, planogram: result.planogram },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ planogram: result.planogram });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { planogramId } = await params;
+  const deleted = await deletePlanogram(planogramId);
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Planogram not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { createPlanogram, listPlanograms, validatePlanogramInput } from '@/lib/planogram-repository';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const layoutId = searchParams.get('layoutId') || undefined;
+  const planograms = await listPlanograms(layoutId);
+  return NextResponse.json({ planograms });
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const validationError = validatePlanogramInput(body);
+
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const planogram = await createPlanogram(body);
+  return NextResponse.json({ planogram }, { status: 201 });
+}
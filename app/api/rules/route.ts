@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getRuleSet, saveRuleSet } from '@/lib/rules-repository';
+import { validateRuleSet } from '@/lib/merchandising-rules';
+
+export async function GET() {
+  const ruleSet = await getRuleSet();
+  return NextResponse.json(ruleSet);
+}
+
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+  const validationError = validateRuleSet(body);
+
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const ruleSet = await saveRuleSet(body);
+  return NextResponse.json(ruleSet);
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { DetectionProvider, getDetectionProvider } from '@/lib/detection-provider';
+
+// Which provider this environment uses, so the upload page can show it
+export async function GET() {
+  try {
+    const provider = getDetectionProvider();
+    return NextResponse.json({ provider: provider.name, description: provider.description });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+}
+
+/**
+ * Multipart form fields:
+ *  - image: the shelf photo (required by the cloud provider)
+ *  - planogramId: local provider only; detect from this saved planogram instead of the fixture
+ */
+export async function POST(request: Request) {
+  const formData = await request.formData().catch(() => null);
+  if (!formData) {
+    return NextResponse.json({ error: 'Send the image as multipart form data' }, { status: 400 });
+  }
+
+  const image = formData.get('image');
+  const planogramId = formData.get('planogramId');
+
+  let provider: DetectionProvider;
+  try {
+    provider = getDetectionProvider();
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+
+  try {
+    const detections = await provider.detect({
+      image: image && typeof image !== 'string' ? image : null,
+      planogramId: typeof planogramId === 'string' && planogramId ? planogramId : undefined,
+    });
+    return NextResponse.json(detections);
+  } catch (error) {
+    return NextResponse.json({ error: `Detection failed: ${error instanceof Error ? error.message : String(error)}` }, { status: 502 });
+  }
+}
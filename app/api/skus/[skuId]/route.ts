@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { deleteSku, getSku, updateSku } from '@/lib/sku-repository';
+import { validateSkuInput } from '@/lib/sku-catalog';
+
+type RouteContext = { params: Promise<{ skuId: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { skuId } = await params;
+  const sku = await getSku(skuId);
+
+  if (!sku) {
+    return NextResponse.json({ error: 'SKU not found' }, { status: 404 });
+  }
+  return NextResponse.json({ sku });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { skuId } = await params;
+  const body = await request.json().catch(() => null);
+  const validationError = validateSkuInput(body, false);
+
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const result = await updateSku(skuId, body);
+
+  if (result.status !== 'ok') {
+    return NextResponse.json({ error: 'SKU not found' }, { status: 404 });
+  }
+  return NextResponse.json({ sku: result.sku });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { skuId } = await params;
+  const deleted = await deleteSku(skuId);
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'SKU not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
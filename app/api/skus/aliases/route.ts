@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { addSkuAliases, getSkuAliases } from '@/lib/sku-repository';
+import { validateSkuAliases } from '@/lib/sku-catalog';
+
+export async function GET() {
+  const aliases = await getSkuAliases();
+  return NextResponse.json({ aliases });
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const validationError = validateSkuAliases(body);
+
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const aliases = await addSkuAliases(body.aliases);
+  return NextResponse.json({ aliases });
+}
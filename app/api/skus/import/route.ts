@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { importSkus } from '@/lib/sku-repository';
+
+/**
+ * Multipart form fields:
+ *  - file: CSV or XLSX master data
+ *  - mode: 'preview' (default) or 'commit'
+ *  - removeMissing: 'true' to delete catalog SKUs that are not in the file
+ */
+export async function POST(request: Request) {
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('file');
+
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'Upload a CSV or XLSX file in the "file" field' }, { status: 400 });
+  }
+
+  const commit = formData!.get('mode') === 'commit';
+  const removeMissing = formData!.get('removeMissing') === 'true';
+
+  try {
+    const { preview, committed } = await importSkus(await file.arrayBuffer(), { commit, removeMissing });
+
+    if (commit && !committed) {
+      return NextResponse.json(
+        { error: 'Fix the errors in the file before importing', preview, committed },
+        { status: 422 }
+      );
+    }
+    return NextResponse.json({ preview, committed });
+  } catch (error) {
+    return NextResponse.json({ error: `Could not read the file: ${error instanceof Error ? error.message : String(error)}` }, { status: 400 });
+  }
+}
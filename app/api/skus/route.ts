@@ -1,8 +1,24 @@
-
 import { NextResponse } from 'next/server';
-import { getAvailableSkus } from '@/lib/planogram-data';
+import { createSku, listSkus } from '@/lib/sku-repository';
+import { validateSkuInput } from '@/lib/sku-catalog';
 
 export async function GET() {
-  const skus = await getAvailableSkus();
+  const skus = await listSkus();
   return NextResponse.json({ skus });
 }
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const validationError = validateSkuInput(body);
+
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const result = await createSku(body);
+
+  if (result.status !== 'ok') {
+    return NextResponse.json({ error: `SKU "${body.skuId}" already exists` }, { status: 409 });
+  }
+  return NextResponse.json({ sku: result.sku }, { status: 201 });
+}
@@ -1,11 +1,11 @@
 
 import { NextResponse } from 'next/server';
-import { getAvailableSkus } from '@/lib/planogram-data';
+import { listSkus } from '@/lib/sku-repository';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const query = searchParams.get('q')?.toLowerCase();
-  const allSkus = await getAvailableSkus();
+  const allSkus = await listSkus();
 
   if (!query) {
     return NextResponse.json({ skus: allSkus });
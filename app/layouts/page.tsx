@@ -0,0 +1,324 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Plus, Trash2, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LayoutData } from '@/lib/types';
+import { fetchLayouts, createLayoutTemplate, updateLayoutTemplate, deleteLayoutTemplate } from '@/lib/layout-api';
+import { LayoutTemplate, layoutDataToTemplate, templateToLayoutData } from '@/lib/layout-templates';
+
+// Form state keeps allowed product types as free text ("all" or "CAN, PET")
+interface RowForm {
+  capacityMM: number;
+  maxHeightMM: number;
+  allowedTypesText: string;
+}
+
+interface DoorForm {
+  widthMM: number;
+  heightMM: number;
+  rows: RowForm[];
+}
+
+interface TemplateForm {
+  name: string;
+  doors: DoorForm[];
+}
+
+const createDoorForm = (widthMM = 673, heightMM = 1308, rowCount = 4): DoorForm => ({
+  widthMM,
+  heightMM,
+  rows: Array.from({ length: rowCount }, () => ({
+    capacityMM: widthMM,
+    maxHeightMM: Math.floor(heightMM / rowCount),
+    allowedTypesText: 'all',
+  })),
+});
+
+const toForm = (template: LayoutTemplate): TemplateForm => ({
+  name: template.name,
+  doors: template.doors.map(door => ({
+    widthMM: door.widthMM,
+    heightMM: door.heightMM,
+    rows: door.rows.map(row => ({
+      capacityMM: row.capacityMM,
+      maxHeightMM: row.maxHeightMM,
+      allowedTypesText: row.allowedProductTypes === 'all' ? 'all' : row.allowedProductTypes.join(', '),
+    })),
+  })),
+});
+
+const fromForm = (form: TemplateForm): LayoutTemplate => ({
+  name: form.name,
+  doors: form.doors.map(door => ({
+    widthMM: door.widthMM,
+    heightMM: door.heightMM,
+    rows: door.rows.map(row => {
+      const types = row.allowedTypesText.split(',').map(t => t.trim()).filter(Boolean);
+      return {
+        capacityMM: row.capacityMM,
+        maxHeightMM: row.maxHeightMM,
+        allowedProductTypes: types.length === 0 || types.some(t => t.toLowerCase() === 'all') ? 'all' : types,
+      };
+    }),
+  })),
+});
+
+const emptyForm = (): TemplateForm => ({ name: '', doors: [createDoorForm()] });
+
+// --- Numeric input bound to a millimetre value ---
+function MillimetreInput({ value, onChange, label }: { value: number; onChange: (value: number) => void; label: string }) {
+  return (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-700 mb-1">{label}</span>
+      <Input
+        type="number"
+        min={1}
+        value={Number.isFinite(value) ? value : ''}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+      />
+    </label>
+  );
+}
+
+// --- Editor for one door and its rows ---
+function DoorEditor({
+  door,
+  doorIndex,
+  canRemove,
+  onChange,
+  onRemove,
+}: {
+  door: DoorForm;
+  doorIndex: number;
+  canRemove: boolean;
+  onChange: (door: DoorForm) => void;
+  onRemove: () => void;
+}) {
+  const totalRowHeight = door.rows.reduce((sum, row) => sum + (row.maxHeightMM || 0), 0);
+  const updateRow = (rowIndex: number, patch: Partial<RowForm>) => {
+    onChange({ ...door, rows: door.rows.map((row, i) => (i === rowIndex ? { ...row, ...patch } : row)) });
+  };
+
+  return (
+    <Card className="gap-4 py-4">
+      <CardHeader className="px-4 flex flex-row items-center justify-between">
+        <CardTitle>Door {doorIndex + 1}</CardTitle>
+        {canRemove && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+            <Trash2 className="h-4 w-4" /> Remove door
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="px-4 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <MillimetreInput label="Width (mm)" value={door.widthMM} onChange={(widthMM) => onChange({ ...door, widthMM })} />
+          <MillimetreInput label="Height (mm)" value={door.heightMM} onChange={(heightMM) => onChange({ ...door, heightMM })} />
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="pb-1 font-medium">Row</th>
+              <th className="pb-1 font-medium">Max height (mm)</th>
+              <th className="pb-1 font-medium">Capacity (mm)</th>
+              <th className="pb-1 font-medium">Allowed product types</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {door.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                <td className="pr-2 py-1 text-gray-600">row-{rowIndex + 1}</td>
+                <td className="pr-2 py-1">
+                  <Input type="number" min={1} value={Number.isFinite(row.maxHeightMM) ? row.maxHeightMM : ''}
+                    onChange={(e) => updateRow(rowIndex, { maxHeightMM: parseFloat(e.target.value) })} />
+                </td>
+                <td className="pr-2 py-1">
+                  <Input type="number" min={1} value={Number.isFinite(row.capacityMM) ? row.capacityMM : ''}
+                    onChange={(e) => updateRow(rowIndex, { capacityMM: parseFloat(e.target.value) })} />
+                </td>
+                <td className="pr-2 py-1">
+                  <Input value={row.allowedTypesText} placeholder="all or CAN, PET"
+                    onChange={(e) => updateRow(rowIndex, { allowedTypesText: e.target.value })} />
+                </td>
+                <td className="py-1">
+                  <Button type="button" variant="ghost" size="icon" disabled={door.rows.length === 1}
+                    onClick={() => onChange({ ...door, rows: door.rows.filter((_, i) => i !== rowIndex) })}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex items-center justify-between">
+          <Button type="button" variant="outline" size="sm"
+            onClick={() => onChange({
+              ...door,
+              rows: [...door.rows, { capacityMM: door.widthMM, maxHeightMM: door.rows[door.rows.length - 1]?.maxHeightMM || 250, allowedTypesText: 'all' }],
+            })}>
+            <Plus className="h-4 w-4" /> Add row
+          </Button>
+          <p className={totalRowHeight > door.heightMM ? 'text-xs text-red-600' : 'text-xs text-gray-500'}>
+            Rows use {totalRowHeight} of {door.heightMM} mm
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function LayoutTemplatesPage() {
+  const [layouts, setLayouts] = useState<{ [layoutId: string]: LayoutData }>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedLayoutId, setSelectedLayoutId] = useState<string | null>(null); // null = new template
+  const [newLayoutId, setNewLayoutId] = useState('');
+  const [form, setForm] = useState<TemplateForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchLayouts()
+      .then(setLayouts)
+      .catch((error) => toast.error(`Failed to load cooler models: ${error instanceof Error ? error.message : String(error)}`))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const selectLayout = (layoutId: string | null) => {
+    setSelectedLayoutId(layoutId);
+    setNewLayoutId('');
+    setForm(layoutId ? toForm(layoutDataToTemplate(layouts[layoutId])) : emptyForm());
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const layoutData = templateToLayoutData(fromForm(form));
+      if (selectedLayoutId) {
+        const saved = await updateLayoutTemplate(selectedLayoutId, layoutData);
+        setLayouts(prev => ({ ...prev, [selectedLayoutId]: saved }));
+        toast.success(`Saved "${saved.name}"`);
+      } else {
+        const created = await createLayoutTemplate(layoutData, newLayoutId.trim() || undefined);
+        setLayouts(prev => ({ ...prev, [created.id]: created.layout }));
+        setSelectedLayoutId(created.id);
+        toast.success(`Created "${created.layout.name}" (${created.id})`);
+      }
+    } catch (error) {
+      toast.error(`Save failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedLayoutId || !window.confirm(`Delete cooler model "${layouts[selectedLayoutId]?.name}"?`)) return;
+    try {
+      await deleteLayoutTemplate(selectedLayoutId);
+      setLayouts(prev => {
+        const { [selectedLayoutId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      selectLayout(null);
+      toast.success('Cooler model deleted');
+    } catch (error) {
+      toast.error(`Delete failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        <header className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Cooler Models</h1>
+            <p className="text-sm text-gray-600">Define doors, shelf heights and allowed product types. Dimensions are in millimetres.</p>
+          </div>
+          <Link href="/planogram" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="h-4 w-4" /> Back to editor
+          </Link>
+        </header>
+
+        <div className="grid grid-cols-12 gap-6">
+          {/* Template list */}
+          <div className="col-span-3 space-y-2">
+            <Button type="button" className="w-full" variant={selectedLayoutId === null ? 'default' : 'outline'} onClick={() => selectLayout(null)}>
+              <Plus className="h-4 w-4" /> New model
+            </Button>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : (
+              Object.keys(layouts).map(layoutId => (
+                <button
+                  key={layoutId}
+                  type="button"
+                  onClick={() => selectLayout(layoutId)}
+                  className={`w-full text-left px-3 py-2 rounded-md border text-sm transition-colors ${selectedLayoutId === layoutId ? 'bg-blue-50 border-blue-500' : 'bg-white border-gray-200 hover:bg-gray-50'}`}
+                >
+                  <p className="font-semibold text-gray-800">{layouts[layoutId].name}</p>
+                  <p className="text-xs text-gray-500">
+                    {layoutId} · {layouts[layoutId].doors?.length || 1} door(s)
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Template form */}
+          <div className="col-span-9 space-y-4">
+            <div className="grid grid-cols-2 gap-3 bg-white p-4 rounded-lg border">
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-700 mb-1">Name</span>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. G-12 Double" />
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-gray-700 mb-1">Layout id</span>
+                {selectedLayoutId ? (
+                  <Input value={selectedLayoutId} disabled />
+                ) : (
+                  <Input value={newLayoutId} onChange={(e) => setNewLayoutId(e.target.value)} placeholder="Derived from the name if empty" />
+                )}
+              </label>
+            </div>
+
+            {form.doors.map((door, doorIndex) => (
+              <DoorEditor
+                key={doorIndex}
+                door={door}
+                doorIndex={doorIndex}
+                canRemove={form.doors.length > 1}
+                onChange={(updated) => setForm({ ...form, doors: form.doors.map((d, i) => (i === doorIndex ? updated : d)) })}
+                onRemove={() => setForm({ ...form, doors: form.doors.filter((_, i) => i !== doorIndex) })}
+              />
+            ))}
+
+            <div className="flex items-center justify-between">
+              <Button type="button" variant="outline"
+                onClick={() => {
+                  const last = form.doors[form.doors.length - 1];
+                  setForm({ ...form, doors: [...form.doors, { ...last, rows: last.rows.map(row => ({ ...row })) }] });
+                }}>
+                <Plus className="h-4 w-4" /> Add door
+              </Button>
+              <div className="flex gap-2">
+                {selectedLayoutId && (
+                  <Button type="button" variant="destructive" onClick={handleDelete}>
+                    <Trash2 className="h-4 w-4" /> Delete
+                  </Button>
+                )}
+                <Button type="button" onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+                  {isSaving ? 'Saving...' : selectedLayoutId ? 'Save changes' : 'Create model'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
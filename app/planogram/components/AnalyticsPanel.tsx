@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { usePlanogramStore } from '@/lib/store';
+import { AnalyticsDimension, analyticsToCsvRows, computeShelfAnalytics } from '@/lib/analytics';
+import { downloadCsv } from '@/lib/export-utils';
+
+const dimensionLabels: Record<AnalyticsDimension, string> = {
+  sku: 'SKU',
+  brand: 'Brand',
+  productType: 'Type',
+};
+
+const formatScope = (scope: string) => (scope === 'all' ? 'Whole cooler' : scope.replace('door-', 'Door '));
+
+/**
+ * Live facing counts and share-of-shelf for whatever is on the canvas.
+ */
+export function AnalyticsPanel() {
+  const refrigerators = usePlanogramStore((state) => state.refrigerators);
+  const [scope, setScope] = useState('all');
+  const [dimension, setDimension] = useState<AnalyticsDimension>('sku');
+
+  const analytics = useMemo(() => computeShelfAnalytics(refrigerators), [refrigerators]);
+  const scopeAnalytics = (scope === 'all' ? analytics.all : analytics.doors.find(door => door.scope === scope)) || analytics.all;
+  const entries = scopeAnalytics.breakdown[dimension];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-gray-800">Shelf Analytics</h3>
+        <button
+          onClick={() => downloadCsv(analyticsToCsvRows(analytics), 'planogram-analytics')}
+          disabled={analytics.all.facings === 0}
+          className="text-xs font-semibold text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-3">
+        {analytics.doors.length > 1 && (
+          <select value={scope} onChange={(e) => setScope(e.target.value)} className="text-xs border rounded-md px-2 py-1">
+            <option value="all">{formatScope('all')}</option>
+            {analytics.doors.map(door => (
+              <option key={door.scope} value={door.scope}>{formatScope(door.scope)}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex gap-1 p-0.5 bg-gray-100 rounded-md ml-auto">
+          {(Object.keys(dimensionLabels) as AnalyticsDimension[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setDimension(option)}
+              className={clsx(
+                'px-2 py-0.5 text-xs font-semibold rounded',
+                dimension === option ? 'bg-white text-blue-600 shadow' : 'text-gray-600 hover:bg-gray-200'
+              )}
+            >
+              {dimensionLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+        <div className="bg-gray-50 rounded p-2">
+          <p className="text-lg font-bold text-gray-800">{scopeAnalytics.facings}</p>
+          <p className="text-[10px] text-gray-500 uppercase">Facings</p>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <p className="text-lg font-bold text-gray-800">{scopeAnalytics.units}</p>
+          <p className="text-[10px] text-gray-500 uppercase">Units</p>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <p className="text-lg font-bold text-gray-800">
+            {scopeAnalytics.shelfWidthMM > 0 ? Math.round((scopeAnalytics.occupiedMM / scopeAnalytics.shelfWidthMM) * 100) : 0}%
+          </p>
+          <p className="text-[10px] text-gray-500 uppercase">Shelf used</p>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No products on the shelves yet.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-left text-gray-500 sticky top-0 bg-white">
+              <tr>
+                <th className="py-1 font-medium">{dimensionLabels[dimension]}</th>
+                <th className="py-1 font-medium text-right">Facings</th>
+                <th className="py-1 font-medium text-right">Units</th>
+                <th className="py-1 font-medium text-right">mm</th>
+                <th className="py-1 font-medium text-right">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.key} className="border-t">
+                  <td className="py-1 pr-2 truncate max-w-[8rem]" title={entry.label}>{entry.label}</td>
+                  <td className="py-1 text-right">{entry.facings}</td>
+                  <td className="py-1 text-right">{entry.units}</td>
+                  <td className="py-1 text-right">{Math.round(entry.linearMM)}</td>
+                  <td className="py-1 text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <div className="w-10 h-1.5 bg-gray-100 rounded">
+                        <div className="h-1.5 bg-blue-500 rounded" style={{ width: `${Math.min(100, entry.shareOfShelf)}%` }} />
+                      </div>
+                      {entry.shareOfShelf.toFixed(1)}%
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {scopeAnalytics.blankMM > 0 && (
+        <p className="text-[10px] text-gray-500 mt-2">
+          Blank spaces: {Math.round(scopeAnalytics.blankMM)} mm ({((scopeAnalytics.blankMM / scopeAnalytics.shelfWidthMM) * 100).toFixed(1)}%)
+        </p>
+      )}
+    </div>
+  );
+}
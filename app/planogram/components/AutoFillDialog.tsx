@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Sku } from '@/lib/types';
+import { AutoFillGroupBy, AutoFillOptions, getSkuGroup } from '@/lib/auto-fill';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface AutoFillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  skus: Sku[];
+  onGenerate: (options: AutoFillOptions) => void;
+}
+
+// --- Dialog collecting share-of-shelf targets and must-stock SKUs for auto-fill ---
+export const AutoFillDialog = React.memo(({ open, onOpenChange, skus, onGenerate }: AutoFillDialogProps) => {
+  const [groupBy, setGroupBy] = useState<AutoFillGroupBy>('brand');
+  // Raw input text per group; empty means "share the remainder"
+  const [targets, setTargets] = useState<{ [group: string]: string }>({});
+  const [mustStock, setMustStock] = useState<Set<string>>(new Set());
+  const [allowStacking, setAllowStacking] = useState(true);
+  const [query, setQuery] = useState('');
+
+  const products = useMemo(() => skus.filter(sku => sku.productType !== 'BLANK'), [skus]);
+
+  const groups = useMemo(() => {
+    const counts = new Map<string, number>();
+    products.forEach(sku => {
+      const group = getSkuGroup(sku, groupBy);
+      counts.set(group, (counts.get(group) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [products, groupBy]);
+
+  const filteredProducts = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return products;
+    return products.filter(sku => sku.name.toLowerCase().includes(q) || sku.skuId.toLowerCase().includes(q));
+  }, [products, query]);
+
+  const parsedTargets = useMemo(() => {
+    const result: { [group: string]: number } = {};
+    for (const [group, value] of Object.entries(targets)) {
+      const share = parseFloat(value);
+      if (value.trim() !== '' && Number.isFinite(share)) result[group] = share;
+    }
+    return result;
+  }, [targets]);
+
+  const targetTotal = Object.values(parsedTargets).reduce((sum, share) => sum + share, 0);
+  const hasInvalidTarget = Object.values(parsedTargets).some(share => share < 0) || targetTotal > 100;
+
+  const handleGroupByChange = (value: AutoFillGroupBy) => {
+    setGroupBy(value);
+    setTargets({});
+  };
+
+  const toggleMustStock = (skuId: string) => {
+    setMustStock(prev => {
+      const next = new Set(prev);
+      if (next.has(skuId)) next.delete(skuId); else next.add(skuId);
+      return next;
+    });
+  };
+
+  const handleGenerate = () => {
+    onGenerate({
+      groupBy,
+      targets: parsedTargets,
+      mustStockSkuIds: Array.from(mustStock),
+      allowStacking,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Auto-fill planogram</DialogTitle>
+          <DialogDescription className="pt-2">
+            Replaces every item on the shelves with a generated layout. Leave a target empty to share the
+            remaining space evenly, or enter 0 to leave a group out. You can undo the result.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-6 py-2">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-semibold text-gray-700">Share of shelf</span>
+              <select
+                value={groupBy}
+                onChange={(e) => handleGroupByChange(e.target.value as AutoFillGroupBy)}
+                className="text-sm border rounded-md px-2 py-1"
+              >
+                <option value="brand">By brand</option>
+                <option value="productType">By product type</option>
+              </select>
+            </div>
+            <div className="max-h-64 overflow-y-auto border rounded-md divide-y">
+              {groups.map(([group, count]) => (
+                <label key={group} className="flex items-center justify-between gap-2 px-3 py-1 text-sm">
+                  <span className="truncate">
+                    {group} <span className="text-xs text-gray-400">({count})</span>
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="any"
+                      className="h-7 w-20 text-right"
+                      placeholder="auto"
+                      value={targets[group] ?? ''}
+                      onChange={(e) => setTargets(prev => ({ ...prev, [group]: e.target.value }))}
+                    />
+                    %
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className={`text-xs mt-1 ${hasInvalidTarget ? 'text-red-600' : 'text-gray-500'}`}>
+              Targets total {Math.round(targetTotal * 10) / 10}%{targetTotal > 100 ? ' - must not exceed 100%' : ''}
+            </p>
+          </div>
+
+          <div>
+            <span className="block text-sm font-semibold text-gray-700 mb-2">
+              Must-stock SKUs <span className="font-normal text-gray-500">({mustStock.size} selected)</span>
+            </span>
+            <Input
+              className="h-8 mb-2"
+              placeholder="Search products..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <div className="max-h-56 overflow-y-auto border rounded-md divide-y">
+              {filteredProducts.map(sku => (
+                <label key={sku.skuId} className="flex items-center gap-2 px-3 py-1 text-sm cursor-pointer">
+                  <input type="checkbox" checked={mustStock.has(sku.skuId)} onChange={() => toggleMustStock(sku.skuId)} />
+                  <span className="truncate">{sku.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={allowStacking} onChange={(e) => setAllowStacking(e.target.checked)} />
+          Stack stackable products up to the shelf height
+        </label>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleGenerate} disabled={hasInvalidTarget || products.length === 0}>
+            Generate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+AutoFillDialog.displayName = 'AutoFillDialog';
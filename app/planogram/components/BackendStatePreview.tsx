@@ -46,7 +46,7 @@ export const BackendStatePreview = memo(function BackendStatePreview() {
       const idleCallback = window.requestIdleCallback || ((cb) => setTimeout(cb, 1));      idleCallback(() => {
         try {          // Get dimensions from current layout (content area dimensions)
           const layoutId = currentLayoutId || 'g-26c';
-          const layoutData = availableLayoutsData[layoutId];
+          const layoutData = usePlanogramStore.getState().currentLayoutData || availableLayoutsData[layoutId];
           
           // These are the default structural dimensions
           const HEADER_HEIGHT = 100;
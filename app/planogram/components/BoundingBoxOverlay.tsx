@@ -18,22 +18,23 @@ export function BoundingBoxOverlay({ isVisible, selectedLayoutId, headerHeight,
   const refrigerator = usePlanogramStore((state) => state.refrigerator);
   const refrigerators = usePlanogramStore((state) => state.refrigerators);
   const isMultiDoor = usePlanogramStore((state) => state.isMultiDoor);
+  const currentLayoutData = usePlanogramStore((state) => state.currentLayoutData);
   const [showInfoPanel, setShowInfoPanel] = useState(true); // NEW: State for info panel visibility
 
   // Get refrigerator dimensions
   const dimensions = useMemo(() => {
-    const layout = availableLayoutsData[selectedLayoutId];
+    const layout = currentLayoutData || availableLayoutsData[selectedLayoutId];
     if (layout) {
       const width = layout.width || (layout.doors?.[0]?.width ?? 600);
       const height = layout.height || (layout.doors?.[0]?.height ?? 800);
       return { width, height };
     }
     return { width: 600, height: 800 };
-  }, [selectedLayoutId]);
+  }, [selectedLayoutId, currentLayoutData]);
   // Generate backend data with bounding boxes and extract products
   // Backend uses ABSOLUTE coordinates (includes frame border + header offset)
   const { products, sections } = useMemo(() => {
-    const layoutData = availableLayoutsData[selectedLayoutId];
+    const layoutData = currentLayoutData || availableLayoutsData[selectedLayoutId];
     let backendData;
     
     if (isMultiDoor) {
@@ -105,7 +106,7 @@ export function BoundingBoxOverlay({ isVisible, selectedLayoutId, headerHeight,
     });
     
     return { products: allProducts, sections: allSections };
-  }, [refrigerator, refrigerators, isMultiDoor, dimensions, headerHeight, grilleHeight, selectedLayoutId]);
+  }, [refrigerator, refrigerators, isMultiDoor, dimensions, headerHeight, grilleHeight, selectedLayoutId, currentLayoutData]);
 
   if (!isVisible) return null;
 
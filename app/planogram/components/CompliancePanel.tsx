@@ -0,0 +1,136 @@
+'use client';
+
+import React from 'react';
+import clsx from 'clsx';
+import { SavedPlanogram } from '@/lib/types';
+import { usePlanograms } from '@/lib/hooks';
+import { ComplianceReport, DiscrepancyType, DISCREPANCY_LABELS } from '@/lib/compliance';
+
+interface CompliancePanelProps {
+  layoutId: string;
+  reference: SavedPlanogram | null;
+  report: ComplianceReport | null;
+  isLoadingReference: boolean;
+  onReferenceChange: (planogramId: string | null) => void;
+  onSelectItem: (itemId: string) => void;
+  onClose: () => void;
+}
+
+// Swatch colours match the rings drawn on the canvas (see stack.tsx / row.tsx)
+const swatchClass: Record<DiscrepancyType, string> = {
+  'missing': 'bg-red-600',
+  'wrong-sku': 'bg-amber-500',
+  'extra': 'bg-fuchsia-500',
+  'wrong-shelf': 'bg-violet-500',
+};
+
+const formatLocation = (doorId: string, rowId: string) =>
+  `${doorId.replace('door-', 'Door ')} / ${rowId.replace('row-', 'Shelf ')}`;
+
+/**
+ * Compliance mode: compares the shelves on the canvas (usually an AI scan)
+ * with a saved reference planogram for the same cooler model.
+ */
+export function CompliancePanel({
+  layoutId,
+  reference,
+  report,
+  isLoadingReference,
+  onReferenceChange,
+  onSelectItem,
+  onClose,
+}: CompliancePanelProps) {
+  const { planograms, isLoading } = usePlanograms(layoutId);
+
+  const scoreClass = !report
+    ? 'text-gray-400'
+    : report.compliancePercent >= 90
+      ? 'text-green-600'
+      : report.compliancePercent >= 70
+        ? 'text-amber-600'
+        : 'text-red-600';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-gray-800">Compliance</h3>
+        <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-800">
+          Exit
+        </button>
+      </div>
+
+      <label className="block text-xs font-medium text-gray-700 mb-1">Reference planogram</label>
+      <select
+        value={reference?.id ?? ''}
+        onChange={(e) => onReferenceChange(e.target.value || null)}
+        className="w-full text-sm border rounded-md px-2 py-1.5 mb-3"
+        disabled={isLoading}
+      >
+        <option value="">{isLoading ? 'Loading...' : 'Select a saved planogram'}</option>
+        {planograms?.map(planogram => (
+          <option key={planogram.id} value={planogram.id}>
+            {planogram.name} (v{planogram.version})
+          </option>
+        ))}
+      </select>
+      {!isLoading && planograms?.length === 0 && (
+        <p className="text-xs text-gray-500 mb-3">No planograms have been saved for this cooler model yet.</p>
+      )}
+
+      {isLoadingReference && <p className="text-sm text-gray-500">Loading reference...</p>}
+
+      {report && !isLoadingReference && (
+        <>
+          <div className="flex items-end justify-between mb-3">
+            <span className={clsx('text-4xl font-extrabold', scoreClass)}>
+              {Math.round(report.compliancePercent)}%
+            </span>
+            <span className="text-xs text-gray-500 text-right">
+              {report.matchedFacings} of {report.expectedFacings} facings correct
+              <br />
+              {report.scannedFacings} facings on the shelves
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-1 mb-3">
+            {(Object.keys(DISCREPANCY_LABELS) as DiscrepancyType[]).map(type => (
+              <div key={type} className="flex items-center gap-2 text-xs text-gray-700">
+                <span className={clsx('inline-block w-3 h-3 rounded-sm', swatchClass[type])} />
+                {DISCREPANCY_LABELS[type]}: <strong>{report.counts[type]}</strong>
+              </div>
+            ))}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto border rounded-md divide-y text-xs">
+            {report.discrepancies.length === 0 && (
+              <p className="px-3 py-2 text-green-700">The shelves match the reference planogram.</p>
+            )}
+            {report.discrepancies.map((discrepancy, index) => (
+              <button
+                key={`${discrepancy.type}-${discrepancy.doorId}-${discrepancy.rowId}-${discrepancy.position}-${index}`}
+                type="button"
+                disabled={discrepancy.itemIds.length === 0}
+                onClick={() => onSelectItem(discrepancy.itemIds[0])}
+                className="w-full text-left px-3 py-1.5 hover:bg-gray-50 disabled:hover:bg-transparent"
+              >
+                <div className="flex items-center gap-2">
+                  <span className={clsx('inline-block w-2 h-2 rounded-full', swatchClass[discrepancy.type])} />
+                  <span className="font-semibold">{DISCREPANCY_LABELS[discrepancy.type]}</span>
+                  <span className="text-gray-400 ml-auto">{formatLocation(discrepancy.doorId, discrepancy.rowId)}</span>
+                </div>
+                <div className="text-gray-600 pl-4">
+                  {discrepancy.type === 'missing' && <>Expected {discrepancy.expected?.name}</>}
+                  {discrepancy.type === 'wrong-sku' && <>{discrepancy.actual?.name} instead of {discrepancy.expected?.name}</>}
+                  {discrepancy.type === 'extra' && <>{discrepancy.actual?.name} is not in the planogram here</>}
+                  {discrepancy.type === 'wrong-shelf' && discrepancy.expectedLocation && (
+                    <>{discrepancy.actual?.name} belongs on {formatLocation(discrepancy.expectedLocation.doorId, discrepancy.expectedLocation.rowId)}</>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import React from 'react';
+import clsx from 'clsx';
+import { ConflictEntry } from '@/lib/validation';
+
+const severityStyles: Record<ConflictEntry['severity'], string> = {
+  error: 'bg-red-500 text-white',
+  warning: 'bg-amber-400 text-amber-950',
+  info: 'bg-blue-100 text-blue-800',
+};
+
+// "D2 · S3 · #4": door, shelf (from the top) and stack position (from the left)
+const formatLocation = (entry: ConflictEntry) => [
+  entry.doorId && `D${entry.doorId.replace('door-', '')}`,
+  entry.rowId && `S${entry.rowId.replace('row-', '')}`,
+  entry.stackIndex !== undefined && `#${entry.stackIndex + 1}`,
+].filter(Boolean).join(' · ');
+
+interface ConflictReportListProps {
+  entries: ConflictEntry[];
+  onSelect: (entry: ConflictEntry) => void;
+}
+
+/**
+ * Scrollable list of conflict report entries. Clicking an entry with items
+ * selects them on the canvas.
+ */
+export const ConflictReportList = React.memo(({ entries, onSelect }: ConflictReportListProps) => {
+  return (
+    <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-black/5 rounded border border-black/10 bg-white/70 text-xs text-gray-800">
+      {entries.map(entry => {
+        const canJump = entry.itemIds.length > 0;
+        return (
+          <li key={entry.key}>
+            <button
+              type="button"
+              onClick={() => onSelect(entry)}
+              disabled={!canJump}
+              className={clsx('w-full text-left px-2 py-1.5 flex items-start gap-1.5', canJump ? 'hover:bg-white' : 'cursor-default')}
+              title={canJump ? 'Select on the shelf' : undefined}
+            >
+              <span className={clsx('shrink-0 rounded px-1 font-semibold uppercase text-[10px]', severityStyles[entry.severity])}>
+                {entry.severity}
+              </span>
+              <span className="min-w-0 flex-1">
+                <span className="block font-semibold truncate">
+                  {entry.rule}
+                  {entry.skuName && <span className="font-normal text-gray-600"> · {entry.skuName}</span>}
+                </span>
+                <span className="block text-gray-600">
+                  {formatLocation(entry) && <span className="font-mono text-[10px] text-gray-500 mr-1">{formatLocation(entry)}</span>}
+                  {entry.message}
+                </span>
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+});
+ConflictReportList.displayName = 'ConflictReportList';
@@ -0,0 +1,64 @@
+'use client';
+
+import React from 'react';
+import { usePlanogramStore } from '@/lib/store';
+import { MerchandisingRule } from '@/lib/merchandising-rules';
+import { describeShelfLocation } from '@/lib/auto-resolve';
+import { Button } from '@/components/ui/button';
+
+interface HoldingAreaProps {
+  rules: MerchandisingRule[]; // Rules that limit where held items may be placed
+}
+
+/**
+ * Items auto-resolve could not fit on any shelf. They are not part of the
+ * saved planogram until placed.
+ */
+export function HoldingArea({ rules }: HoldingAreaProps) {
+  const holdingArea = usePlanogramStore((state) => state.holdingArea);
+  const isMultiDoor = usePlanogramStore((state) => state.isMultiDoor);
+  const actions = usePlanogramStore((state) => state.actions);
+
+  if (holdingArea.length === 0) return null;
+
+  const itemCount = holdingArea.reduce((sum, held) => sum + held.items.length, 0);
+
+  return (
+    <div className="mt-3 bg-amber-50 border border-amber-300 rounded-lg p-3">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div>
+          <h3 className="text-sm font-bold text-amber-900">Holding area ({itemCount} item{itemCount === 1 ? '' : 's'})</h3>
+          <p className="text-xs text-amber-800">No shelf had room for these. They are not saved with the planogram until placed.</p>
+        </div>
+        <Button type="button" size="sm" variant="outline" onClick={() => actions.placeHeldStacks(undefined, rules)}>
+          Place all
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {holdingArea.map(held => (
+          <div key={held.id} className="flex items-center gap-2 bg-white border border-amber-200 rounded-md px-2 py-1.5">
+            <div className="flex flex-col-reverse items-center">
+              {held.items.slice(0, 3).map(item => (
+                <img key={item.id} src={item.imageUrl} alt={item.name} className="w-8 h-8 object-contain" />
+              ))}
+            </div>
+            <div className="text-xs min-w-0">
+              <p className="font-semibold text-gray-800 truncate max-w-[9rem]" title={held.items[0].name}>
+                {held.items[0].name}{held.items.length > 1 ? ` ×${held.items.length}` : ''}
+              </p>
+              <p className="text-gray-500">from {describeShelfLocation(held.from, isMultiDoor)}</p>
+              <div className="flex gap-2 mt-0.5">
+                <button onClick={() => actions.placeHeldStacks([held.id], rules)} className="font-semibold text-blue-600 hover:underline">
+                  Place
+                </button>
+                <button onClick={() => actions.discardHeldStack(held.id)} className="font-semibold text-red-600 hover:underline">
+                  Discard
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
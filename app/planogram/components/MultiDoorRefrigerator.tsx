@@ -5,6 +5,8 @@ import { RefrigeratorComponent } from './Refrigerator';
 import { DropIndicator, DragValidation } from './planogramEditor';
 import { layouts } from '@/lib/planogram-data';
 import { DOOR_GAP } from '@/lib/config';
+import { ComplianceHighlights } from '@/lib/compliance';
+import { compareRowIds } from '@/lib/layout-templates';
 
 interface MultiDoorRefrigeratorProps {
   dropIndicator: DropIndicator;
@@ -12,6 +14,8 @@ interface MultiDoorRefrigeratorProps {
   conflictIds: string[];
   selectedLayoutId: string;
   showBoundingBoxes?: boolean;
+  complianceHighlights?: ComplianceHighlights | null;
+  isRulesEnabled?: boolean;
 }
 
 /**
@@ -25,21 +29,25 @@ export function MultiDoorRefrigerator({
   dragValidation,
   conflictIds,
   selectedLayoutId,
-  showBoundingBoxes = false
+  showBoundingBoxes = false,
+  complianceHighlights = null,
+  isRulesEnabled = false
 }: MultiDoorRefrigeratorProps) {
   const { isMultiDoor, refrigerators } = usePlanogramStore();
+  const currentLayoutData = usePlanogramStore((state) => state.currentLayoutData);
 
   // Get layout data to determine door configuration
+  // (the store holds the active template, which may be user-defined)
   const layoutData = useMemo(() => {
-    return layouts[selectedLayoutId as keyof typeof layouts];
-  }, [selectedLayoutId]);
+    return currentLayoutData || layouts[selectedLayoutId as keyof typeof layouts];
+  }, [currentLayoutData, selectedLayoutId]);
 
   // Get door IDs in sorted order
   const doorIds = useMemo(() => {
     if (!isMultiDoor || !layoutData?.doors) {
       return ['door-1']; // Single door mode
     }
-    return layoutData.doors.map(door => door.id).sort();
+    return layoutData.doors.map(door => door.id).sort(compareRowIds);
   }, [isMultiDoor, layoutData]);
 
   // Single door mode - render one refrigerator
@@ -54,6 +62,8 @@ export function MultiDoorRefrigerator({
         conflictIds={conflictIds}
         selectedLayoutId={selectedLayoutId}
         showBoundingBoxes={showBoundingBoxes}
+        complianceHighlights={complianceHighlights}
+        isRulesEnabled={isRulesEnabled}
       />
     );
   }  // Multi-door mode - render multiple refrigerators side-by-side
@@ -78,6 +88,8 @@ export function MultiDoorRefrigerator({
               conflictIds={conflictIds}
               selectedLayoutId={selectedLayoutId}
               showBoundingBoxes={showBoundingBoxes}
+              complianceHighlights={complianceHighlights}
+              isRulesEnabled={isRulesEnabled}
             />
           </div>
         );
@@ -6,6 +6,8 @@ import { useMemo, useState, memo, useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { PIXELS_PER_MM } from '@/lib/config';
 import { Slider } from '@/components/ui/slider';
+import { compareRowIds } from '@/lib/layout-templates';
+import { getMaxBlankWidth, MIN_BLANK_WIDTH_MM } from '@/lib/blank-space';
 
 interface PropertiesPanelProps {
   availableSkus: Sku[];
@@ -40,31 +42,12 @@ function BlankSpaceWidthAdjuster({ selectedItem, historyIndex, onWidthChange }:
     
     const row = refrigeratorData[location.rowId];
     if (!row) return 0;
-    
-    // FIXED: Only count the bottom (first) item of each stack
-    // Stacked items (index > 0) don't take horizontal space
-    const usedWidth = row.stacks.reduce((sum, st) => {
-      // Only count the first item (bottom of stack)
-      const bottomItem = st[0];
-      if (!bottomItem) return sum;
-
-      // If this is the selected item's stack, don't count it
-      if (st.some(item => item.id === selectedItem.id)) {
-        return sum;
-      }
-
-      // Add the bottom item's width (stacked items don't take horizontal space)
-      return sum + bottomItem.width;
-    }, 0);
-
-    const otherStacksCount = row.stacks.filter(st => !st.some(item => item.id === selectedItem.id)).length;
-    const gapsWidth = otherStacksCount > 1 ? otherStacksCount - 1 : 0;
-
-    return row.capacity - usedWidth - gapsWidth;
+
+    return getMaxBlankWidth(row, selectedItem.id);
   }, [selectedItem.id, historyIndex]);
 
   const maxWidthMM = Math.floor(availableWidth / PIXELS_PER_MM);
-  const minWidthMM = 25;
+  const minWidthMM = MIN_BLANK_WIDTH_MM;
 
   // Sync slider value when selectedItem changes
   useEffect(() => {
@@ -147,10 +130,110 @@ function BlankSpaceWidthAdjuster({ selectedItem, historyIndex, onWidthChange }:
   );
 }
 
+// Group actions for a multi-item selection
+interface SelectionActionsProps {
+  selectedCount: number;
+  selectedItem: Item;
+  historyIndex: number; // Used to refresh the row list only on commits
+  isRulesEnabled: boolean;
+  onReplace: () => void;
+}
+
+function SelectionActions({ selectedCount, selectedItem, historyIndex, isRulesEnabled, onReplace }: SelectionActionsProps) {
+  const actions = usePlanogramStore((state) => state.actions);
+  const [moveTarget, setMoveTarget] = useState('');
+
+  // Move targets as 'door-1:row-2', in door then row order
+  const moveTargets = useMemo(() => {
+    const { refrigerators } = usePlanogramStore.getState();
+    const doorIds = Object.keys(refrigerators).sort(compareRowIds);
+    return doorIds.flatMap(doorId => Object.keys(refrigerators[doorId]).sort(compareRowIds).map(rowId => ({
+      value: `${doorId}:${rowId}`,
+      label: doorIds.length > 1
+        ? `${doorId.replace('door-', 'Door ')} / ${rowId.replace('row-', 'Row ')}`
+        : rowId.replace('row-', 'Row '),
+    })));
+  }, [historyIndex]);
+
+  const handleMove = () => {
+    if (!moveTarget) return;
+    const [doorId, rowId] = moveTarget.split(':');
+    actions.moveSelectedItems(rowId, doorId, isRulesEnabled);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-800">{selectedCount} items selected</h2>
+        <button
+          onClick={() => actions.selectItem(null)}
+          className="p-1 hover:bg-gray-200 rounded-full transition-colors"
+          title="Clear selection"
+        >
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">Shift-click items or drag across a shelf to change the selection.</p>
+
+      <div className="space-y-2">
+        <h3 className="text-xs font-semibold text-gray-700 mb-2">Move to</h3>
+        <div className="flex gap-2">
+          <select
+            value={moveTarget}
+            onChange={(e) => setMoveTarget(e.target.value)}
+            className="flex-1 text-xs text-gray-900 border border-gray-300 rounded-md px-2 py-2"
+          >
+            <option value="">Select a row...</option>
+            {moveTargets.map(target => (
+              <option key={target.value} value={target.value}>{target.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleMove}
+            disabled={!moveTarget}
+            className="text-xs bg-blue-500 text-white font-semibold py-2 px-3 rounded-md hover:bg-blue-600 transition-colors disabled:bg-gray-300"
+          >
+            Move
+          </button>
+        </div>
+
+        <h3 className="text-xs font-semibold text-gray-700 pt-2 mb-2">Actions</h3>
+        <button
+          onClick={actions.duplicateSelectedItems}
+          className="w-full text-xs bg-blue-100 text-blue-800 font-semibold py-2 px-3 rounded-md hover:bg-blue-200 transition-colors"
+        >
+          Duplicate All
+        </button>
+        <button
+          onClick={onReplace}
+          className="w-full text-xs bg-gray-200 text-gray-800 font-semibold py-2 px-3 rounded-md hover:bg-gray-300 transition-colors"
+        >
+          Replace All
+        </button>
+        <button
+          onClick={() => actions.selectAllOfSku(selectedItem.skuId)}
+          className="w-full text-xs bg-gray-200 text-gray-800 font-semibold py-2 px-3 rounded-md hover:bg-gray-300 transition-colors truncate"
+        >
+          Select all '{selectedItem.name}'
+        </button>
+        <button
+          onClick={actions.deleteSelectedItem}
+          className="w-full text-xs bg-red-500 text-white font-semibold py-2 px-3 rounded-md hover:bg-red-600 transition-colors"
+        >
+          Delete All
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export function PropertiesPanel({ availableSkus, isRulesEnabled }: PropertiesPanelProps) {
   // OPTIMIZATION: Subscribe to selectedItemId and historyIndex instead of refrigerator
   // This prevents re-renders during drag operations (which don't commit to history)
   const selectedItemId = usePlanogramStore((state) => state.selectedItemId);
+  const selectedCount = usePlanogramStore((state) => state.selectedItemIds.length);
   const historyIndex = usePlanogramStore((state) => state.historyIndex);
   const actions = usePlanogramStore((state) => state.actions);
 
@@ -185,7 +268,11 @@ export function PropertiesPanel({ availableSkus, isRulesEnabled }: PropertiesPan
     return stack[location.itemIndex] || null;
   }, [selectedItemId, historyIndex]);
   const handleReplace = (sku: Sku) => {
-    actions.replaceSelectedItem(sku, isRulesEnabled);
+    if (selectedCount > 1) {
+      actions.replaceSelectedItems(sku, isRulesEnabled);
+    } else {
+      actions.replaceSelectedItem(sku, isRulesEnabled);
+    }
     setIsReplacing(false);
     setReplaceSearchQuery(''); // Clear search on replace
   };
@@ -239,7 +326,11 @@ export function PropertiesPanel({ availableSkus, isRulesEnabled }: PropertiesPan
                 <span>←</span> Back
               </button>
             </div>
-            <p className="text-xs text-gray-500 mb-3">Select a product to replace '{selectedItem.name}'</p>
+            <p className="text-xs text-gray-500 mb-3">
+              {selectedCount > 1
+                ? `Select a product to replace all ${selectedCount} selected items`
+                : `Select a product to replace '${selectedItem.name}'`}
+            </p>
 
             {/* Search Input */}
             <div className="relative mb-3">
@@ -315,6 +406,22 @@ export function PropertiesPanel({ availableSkus, isRulesEnabled }: PropertiesPan
               )}
             </div>
           </motion.div>
+        ) : selectedCount > 1 ? (
+          <motion.div
+            key="selection-view"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+          >
+            <SelectionActions
+              selectedCount={selectedCount}
+              selectedItem={selectedItem}
+              historyIndex={historyIndex}
+              isRulesEnabled={isRulesEnabled}
+              onReplace={() => setIsReplacing(true)}
+            />
+          </motion.div>
         ) : (
           <motion.div
             key="details-view"
@@ -398,6 +505,14 @@ export function PropertiesPanel({ availableSkus, isRulesEnabled }: PropertiesPan
                 Replace
               </button>
 
+              {/* Select All of SKU Button */}
+              <button
+                onClick={() => actions.selectAllOfSku(selectedItem.skuId)}
+                className="w-full text-xs bg-gray-200 text-gray-800 font-semibold py-2 px-3 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Select All of This SKU
+              </button>
+
               {/* Delete Button */}              {selectedItem.constraints.deletable && (
                 <button
                   onClick={actions.deleteSelectedItem}
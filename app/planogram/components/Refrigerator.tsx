@@ -9,6 +9,8 @@ import { layouts } from '@/lib/planogram-data';
 import { PIXELS_PER_MM } from '@/lib/config';
 import { BoundingBoxOverlay } from './BoundingBoxOverlay';
 import { DoorConfig } from '@/lib/types';
+import { ComplianceHighlights } from '@/lib/compliance';
+import { compareRowIds } from '@/lib/layout-templates';
 
 interface RefrigeratorComponentProps {
   doorId?: string;
@@ -19,6 +21,8 @@ interface RefrigeratorComponentProps {
   conflictIds: string[];
   selectedLayoutId: string;
   showBoundingBoxes?: boolean;
+  complianceHighlights?: ComplianceHighlights | null;
+  isRulesEnabled?: boolean;
   headerHeight?: number;
   grilleHeight?: number;
 }
@@ -37,10 +41,13 @@ export function RefrigeratorComponent({
   conflictIds, 
   selectedLayoutId,
   showBoundingBoxes = false,
+  complianceHighlights = null,
+  isRulesEnabled = false,
   headerHeight = DEFAULT_HEADER_HEIGHT,
   grilleHeight = DEFAULT_GRILLE_HEIGHT
 }: RefrigeratorComponentProps) {
   const { refrigerator, refrigerators, isMultiDoor } = usePlanogramStore();
+  const currentLayoutData = usePlanogramStore((state) => state.currentLayoutData);
   // Get the correct refrigerator data based on door mode
   const currentRefrigerator = useMemo(() => {
     if (isMultiDoor && doorId && refrigerators[doorId]) {
@@ -49,13 +56,13 @@ export function RefrigeratorComponent({
     return refrigerator;
   }, [isMultiDoor, doorId, refrigerators, refrigerator]);
   
-  const sortedRowIds = useMemo(() => Object.keys(currentRefrigerator).sort(), [currentRefrigerator]);
+  const sortedRowIds = useMemo(() => Object.keys(currentRefrigerator).sort(compareRowIds), [currentRefrigerator]);
   // Get EXACT dimensions from layout or door config
   const dimensions = useMemo(() => {
     if (doorConfig) {
       return { width: doorConfig.width, height: doorConfig.height, name: doorConfig.id };
     }
-    const layout = layouts[selectedLayoutId as keyof typeof layouts];
+    const layout = currentLayoutData || layouts[selectedLayoutId as keyof typeof layouts];
     if (layout) {
       // Handle both single-door and multi-door layouts
       const width = layout.width || (layout.doors?.[0]?.width ?? 600);
@@ -63,7 +70,7 @@ export function RefrigeratorComponent({
       return { width, height, name: layout.name };
     }
     return { width: 600, height: 800, name: 'Default' };
-  }, [selectedLayoutId, doorConfig]);
+  }, [selectedLayoutId, doorConfig, currentLayoutData]);
   // Calculate total height from actual row heights
   const totalHeight = useMemo(() => {
     return Object.values(currentRefrigerator).reduce((sum, row) => sum + row.maxHeight, 0);
@@ -72,6 +79,10 @@ export function RefrigeratorComponent({
     sortedRowIds.some(rowId => currentRefrigerator[rowId].stacks.length > 0),
     [sortedRowIds, currentRefrigerator]
   );
+  // Door copy/paste
+  const canPasteDoor = usePlanogramStore((state) => state.clipboard?.kind === 'door');
+  const actions = usePlanogramStore((state) => state.actions);
+
   // NEW: Calculate vertical offset for products (header pushes content down)
   const contentYOffset = headerHeight;
 
@@ -87,12 +98,31 @@ export function RefrigeratorComponent({
       >
         {/* Header Section - NOW CONFIGURABLE */}
         <div 
-          className="bg-gradient-to-b from-blue-600 to-blue-700 p-3 rounded-t-xl border-b-4 border-blue-900 mb-4"
+          className="group relative bg-gradient-to-b from-blue-600 to-blue-700 p-3 rounded-t-xl border-b-4 border-blue-900 mb-4"
           style={{ 
             width: `${dimensions.width}px`,
             height: `${headerHeight}px` // NEW: Configurable height
           }}
         >
+          {/* Door clipboard actions (shown on hover) */}
+          <div className="absolute top-2 right-2 flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              onClick={() => actions.copyDoor(doorId || 'door-1')}
+              className="text-[10px] font-semibold text-blue-900 bg-white/90 hover:bg-white px-1.5 py-0.5 rounded shadow-sm"
+              title="Copy door (Ctrl+Alt+Shift+C)"
+            >
+              Copy door
+            </button>
+            {canPasteDoor && (
+              <button
+                onClick={() => actions.pasteClipboard({ doorId: doorId || 'door-1' }, isRulesEnabled)}
+                className="text-[10px] font-semibold text-white bg-blue-900/80 hover:bg-blue-900 px-1.5 py-0.5 rounded shadow-sm"
+                title="Replace this door's shelves with the copied door"
+              >
+                Paste door
+              </button>
+            )}
+          </div>
           <div className="flex flex-col gap-2 items-center justify-between h-full">
             <Badge variant="default" className="bg-white/95 text-blue-900 font-bold shadow-sm text-xs">
               {dimensions.name?.toUpperCase()}
@@ -126,7 +156,7 @@ export function RefrigeratorComponent({
           )}
           {/* Rows - Each uses exact height from row.maxHeight */}
           <div className="flex flex-col">
-            {sortedRowIds.map((rowId) => (
+            {sortedRowIds.map((rowId, index) => (
               <RowComponent
                 key={rowId}
                 row={currentRefrigerator[rowId]}
@@ -134,6 +164,9 @@ export function RefrigeratorComponent({
                 dropIndicator={dropIndicator}
                 dragValidation={dragValidation}
                 conflictIds={conflictIds}
+                complianceHighlights={complianceHighlights}
+                isRulesEnabled={isRulesEnabled}
+                isLastRow={index === sortedRowIds.length - 1}
               />
             ))}
           </div>
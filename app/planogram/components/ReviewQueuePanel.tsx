@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Sku } from '@/lib/types';
+import { usePlanogramStore } from '@/lib/store';
+import { formatConfidence, getReviewQueue } from '@/lib/detection-review';
+import { Button } from '@/components/ui/button';
+
+interface ReviewQueuePanelProps {
+  skus: Sku[]; // Catalog offered when replacing a detection
+  isRulesEnabled: boolean;
+  onFocusItem: (itemId: string) => void; // Select the item and scroll it into view
+  onClose: () => void;
+}
+
+const formatLocation = (doorId: string, rowId: string, stackIndex: number) =>
+  `${doorId.replace('door-', 'Door ')} / ${rowId.replace('row-', 'Shelf ')} / #${stackIndex + 1}`;
+
+/**
+ * Steps through imported detections below the confidence threshold, one at a
+ * time. Confirmed, replaced and deleted items leave the queue.
+ */
+export function ReviewQueuePanel({ skus, isRulesEnabled, onFocusItem, onClose }: ReviewQueuePanelProps) {
+  const refrigerators = usePlanogramStore((state) => state.refrigerators);
+  const threshold = usePlanogramStore((state) => state.confidenceThreshold);
+  const showConfidence = usePlanogramStore((state) => state.showConfidence);
+  const actions = usePlanogramStore((state) => state.actions);
+  const queue = useMemo(() => getReviewQueue(refrigerators, threshold), [refrigerators, threshold]);
+  const [position, setPosition] = useState(0);
+  const [replacementSkuId, setReplacementSkuId] = useState('');
+
+  // Once an entry is handled the next one moves up into the same position
+  const index = Math.min(position, Math.max(0, queue.length - 1));
+  const current = queue[index];
+
+  useEffect(() => {
+    if (current) onFocusItem(current.itemId);
+    setReplacementSkuId('');
+  }, [current?.itemId, onFocusItem]);
+
+  const products = useMemo(() => skus.filter(sku => sku.productType !== 'BLANK'), [skus]);
+
+  const handleReplace = () => {
+    const sku = products.find(candidate => candidate.skuId === replacementSkuId);
+    if (!sku || !current) return;
+    actions.selectItem(current.itemId);
+    actions.replaceSelectedItem(sku, isRulesEnabled);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-gray-800">Review detections</h3>
+        <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-800">
+          Exit
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <label htmlFor="confidence-threshold" className="text-gray-700">Review below</label>
+        <input
+          id="confidence-threshold"
+          type="number"
+          min={0}
+          max={100}
+          step={5}
+          value={Math.round(threshold * 100)}
+          onChange={(e) => actions.setConfidenceThreshold(Number(e.target.value) / 100)}
+          className="w-16 border rounded-md px-2 py-1 text-right"
+        />
+        <span className="text-gray-700">% confidence</span>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-600 mb-3">
+        <input type="checkbox" checked={showConfidence} onChange={(e) => actions.setShowConfidence(e.target.checked)} />
+        Show confidence on every imported item
+      </label>
+
+      {!current ? (
+        <p className="text-sm text-gray-500">Nothing to review. Every imported item is at or above the threshold, or confirmed.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{index + 1} of {queue.length}</span>
+            <span className="flex gap-2">
+              <button className="font-semibold text-blue-600 disabled:text-gray-300" disabled={index === 0} onClick={() => setPosition(index - 1)}>
+                ← Prev
+              </button>
+              <button className="font-semibold text-blue-600 disabled:text-gray-300" disabled={index >= queue.length - 1} onClick={() => setPosition(index + 1)}>
+                Skip →
+              </button>
+            </span>
+          </div>
+
+          <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2">
+            <p className="text-sm font-semibold text-gray-800 truncate" title={current.name}>{current.name}</p>
+            <p className="text-xs text-gray-600">
+              <span className="font-bold text-red-600">{formatConfidence(current.confidence)}</span> · {formatLocation(current.doorId, current.rowId, current.stackIndex)}
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="button" size="sm" className="flex-1" onClick={() => actions.confirmDetections([current.itemId])}>
+              Confirm
+            </Button>
+            <Button type="button" size="sm" variant="destructive" className="flex-1" onClick={() => actions.removeItemsById([current.itemId])}>
+              Delete
+            </Button>
+          </div>
+
+          <div className="flex gap-2">
+            <select
+              value={replacementSkuId}
+              onChange={(e) => setReplacementSkuId(e.target.value)}
+              className="flex-1 min-w-0 text-sm border rounded-md px-2 py-1"
+            >
+              <option value="">Replace with...</option>
+              {products.map(sku => (
+                <option key={sku.skuId} value={sku.skuId}>{sku.name}</option>
+              ))}
+            </select>
+            <Button type="button" size="sm" variant="outline" disabled={!replacementSkuId} onClick={handleReplace}>
+              Replace
+            </Button>
+          </div>
+
+          {queue.length > 1 && (
+            <button
+              className="text-xs font-semibold text-blue-600 hover:underline"
+              onClick={() => actions.confirmDetections(queue.map(entry => entry.itemId))}
+            >
+              Confirm all {queue.length}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { usePlanogramStore } from '@/lib/store';
+import { useSkus } from '@/lib/hooks';
+import { PIXELS_PER_MM } from '@/lib/config';
+import { getShelfHeightRange } from '@/lib/shelf-geometry';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface ShelfSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  doorId: string;
+  rowId: string;
+}
+
+// --- Dialog for one shelf: height, allowed product types, insert and delete ---
+export const ShelfSettingsDialog = React.memo(({ open, onOpenChange, doorId, rowId }: ShelfSettingsDialogProps) => {
+  const door = usePlanogramStore((state) => state.refrigerators[doorId]);
+  const isMultiDoor = usePlanogramStore((state) => state.isMultiDoor);
+  const actions = usePlanogramStore((state) => state.actions);
+  const { skus } = useSkus();
+  const row = door?.[rowId];
+
+  const [heightInput, setHeightInput] = useState('');
+  const [allowAll, setAllowAll] = useState(true);
+  const [allowedTypes, setAllowedTypes] = useState<Set<string>>(new Set());
+
+  // Reset the form from the shelf each time the dialog opens
+  useEffect(() => {
+    if (!open || !row) return;
+    setHeightInput(String(Math.round(row.maxHeight / PIXELS_PER_MM)));
+    setAllowAll(row.allowedProductTypes === 'all');
+    setAllowedTypes(new Set(row.allowedProductTypes === 'all' ? [] : row.allowedProductTypes));
+  }, [open]);
+
+  // Product types from the catalog, plus any already on or allowed on this shelf
+  const productTypes = useMemo(() => {
+    const types = new Set<string>();
+    skus?.forEach(sku => types.add(sku.productType));
+    row?.stacks.forEach(stack => stack.forEach(item => types.add(item.productType)));
+    if (row && row.allowedProductTypes !== 'all') row.allowedProductTypes.forEach(type => types.add(type));
+    types.delete('BLANK');
+    return Array.from(types).sort();
+  }, [skus, row]);
+
+  if (!door || !row) return null;
+
+  const heightRange = getShelfHeightRange(door, rowId);
+  const currentHeightMM = Math.round(row.maxHeight / PIXELS_PER_MM);
+  const heightMM = parseFloat(heightInput);
+  const isHeightValid = Number.isFinite(heightMM) &&
+    (heightMM === currentHeightMM || (!!heightRange && heightMM >= heightRange.minMM && heightMM <= heightRange.maxMM));
+  const itemCount = row.stacks.reduce((sum, stack) => sum + stack.length, 0);
+  const rowNumber = rowId.replace('row-', '');
+
+  const toggleType = (type: string) => {
+    setAllowedTypes(prev => {
+      const next = new Set(prev);
+      if (next.has(type)) next.delete(type); else next.add(type);
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const nextTypes: 'all' | string[] = allowAll ? 'all' : Array.from(allowedTypes).sort();
+    const typesChanged = JSON.stringify(nextTypes) !== JSON.stringify(row.allowedProductTypes);
+    const heightChanged = heightMM !== currentHeightMM;
+    if (heightChanged || typesChanged) {
+      actions.updateShelf(doorId, rowId, {
+        ...(heightChanged && { heightMM }),
+        ...(typesChanged && { allowedProductTypes: nextTypes }),
+      });
+    }
+    onOpenChange(false);
+  };
+
+  const handleInsert = (position: 'above' | 'below') => {
+    actions.insertShelf(doorId, rowId, position);
+    onOpenChange(false);
+  };
+
+  const handleDelete = () => {
+    actions.removeShelf(doorId, rowId);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Shelf {rowNumber}{isMultiDoor ? ` (${doorId.replace('door-', 'Door ')})` : ''}</DialogTitle>
+          <DialogDescription className="pt-2">
+            Changing the height moves the shelf below (or above, for the bottom shelf) so the door height stays the same.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-1">Height (mm)</label>
+            <Input
+              type="number"
+              min={heightRange?.minMM}
+              max={heightRange?.maxMM}
+              value={heightInput}
+              onChange={(e) => setHeightInput(e.target.value)}
+              disabled={!heightRange}
+            />
+            <p className={`text-xs mt-1 ${isHeightValid ? 'text-gray-500' : 'text-red-600'}`}>
+              {heightRange
+                ? `Between ${heightRange.minMM}mm and ${heightRange.maxMM}mm`
+                : 'The only shelf fills the door - insert a shelf to resize it'}
+            </p>
+          </div>
+
+          <div>
+            <span className="block text-sm font-semibold text-gray-700 mb-1">Allowed products</span>
+            <label className="flex items-center gap-2 text-sm mb-1">
+              <input type="checkbox" checked={allowAll} onChange={(e) => setAllowAll(e.target.checked)} />
+              All product types
+            </label>
+            {!allowAll && (
+              <div className="max-h-40 overflow-y-auto border rounded-md divide-y">
+                {productTypes.map(type => (
+                  <label key={type} className="flex items-center gap-2 px-3 py-1 text-sm cursor-pointer">
+                    <input type="checkbox" checked={allowedTypes.has(type)} onChange={() => toggleType(type)} />
+                    {type}
+                  </label>
+                ))}
+              </div>
+            )}
+            {!allowAll && allowedTypes.size === 0 && (
+              <p className="text-xs mt-1 text-red-600">Select at least one product type</p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2 border-t pt-4">
+            <Button type="button" variant="outline" size="sm" onClick={() => handleInsert('above')}>
+              Insert shelf above
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => handleInsert('below')}>
+              Insert shelf below
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              size="sm"
+              onClick={handleDelete}
+              disabled={Object.keys(door).length === 1}
+              title={itemCount > 0 ? `Also removes the ${itemCount} item(s) on this shelf` : undefined}
+            >
+              Delete shelf{itemCount > 0 ? ` and ${itemCount} item(s)` : ''}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!isHeightValid || (!allowAll && allowedTypes.size === 0)}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+ShelfSettingsDialog.displayName = 'ShelfSettingsDialog';
@@ -2,6 +2,7 @@
 
 import { Sku } from '@/lib/types';
 import { useDraggable } from '@dnd-kit/core';
+import Link from 'next/link';
 import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 
 interface SkuPaletteProps {
@@ -122,9 +123,14 @@ export function SkuPalette({ skus }: SkuPaletteProps) {
       {/* Header */}
       <div className="flex items-center justify-between border-b pb-2 mb-3">
         <h2 className="text-lg font-bold text-gray-800">Products</h2>
-        <span className="text-xs text-gray-500 bg-gray-200 px-2 py-1 rounded-full">
-          {filteredSkus.length}
-        </span>
+        <div className="flex items-center gap-2">
+          <Link href="/skus" className="text-xs text-blue-600 hover:underline">
+            Manage
+          </Link>
+          <span className="text-xs text-gray-500 bg-gray-200 px-2 py-1 rounded-full">
+            {filteredSkus.length}
+          </span>
+        </div>
       </div>
 
       {/* Search Input */}
@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { MultiDoorRefrigerator, SourcePhoto } from '@/lib/types';
+import { usePlanogramStore } from '@/lib/store';
+
+export type PhotoViewMode = 'off' | 'underlay' | 'side-by-side';
+
+interface Detection {
+  itemId: string;
+  name: string;
+  points: string; // SVG polygon points
+}
+
+// Every item that still carries the bounding box it was detected at
+function getDetections(refrigerators: MultiDoorRefrigerator): Detection[] {
+  const detections: Detection[] = [];
+  for (const door of Object.values(refrigerators)) {
+    for (const row of Object.values(door)) {
+      row.stacks.forEach(stack => stack.forEach(item => {
+        if (!item.detectionBox) return;
+        detections.push({
+          itemId: item.id,
+          name: item.name,
+          points: item.detectionBox.map(([x, y]) => `${x},${y}`).join(' '),
+        });
+      }));
+    }
+  }
+  return detections;
+}
+
+// Coordinate space of the boxes: the AI's dimensions, otherwise the photo's own pixel size
+function usePhotoSize(photo: SourcePhoto): { width: number; height: number } | null {
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    if (photo.width && photo.height) return;
+    const image = new Image();
+    image.onload = () => setNaturalSize({ width: image.naturalWidth, height: image.naturalHeight });
+    image.src = photo.url;
+    return () => { image.onload = null; };
+  }, [photo.url, photo.width, photo.height]);
+
+  return photo.width && photo.height ? { width: photo.width, height: photo.height } : naturalSize;
+}
+
+interface SourcePhotoImageProps {
+  photo: SourcePhoto;
+  stretch?: boolean; // Fill the container (underlay) instead of keeping the photo's aspect ratio
+  onSelectItem?: (itemId: string) => void;
+  className?: string;
+}
+
+/**
+ * The source photo with the AI's bounding boxes drawn on it. Hovering a box
+ * highlights its item on the shelves and vice versa.
+ */
+export function SourcePhotoImage({ photo, stretch = false, onSelectItem, className }: SourcePhotoImageProps) {
+  const refrigerators = usePlanogramStore((state) => state.refrigerators);
+  const hoveredItemId = usePlanogramStore((state) => state.hoveredItemId);
+  const selectedItemIds = usePlanogramStore((state) => state.selectedItemIds);
+  const setHoveredItem = usePlanogramStore((state) => state.actions.setHoveredItem);
+  const detections = useMemo(() => getDetections(refrigerators), [refrigerators]);
+  const size = usePhotoSize(photo);
+
+  if (!size) {
+    return <div className={clsx('flex items-center justify-center text-xs text-gray-500', className)}>Loading photo...</div>;
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${size.width} ${size.height}`}
+      preserveAspectRatio={stretch ? 'none' : 'xMidYMid meet'}
+      className={className}
+    >
+      <image href={photo.url} width={size.width} height={size.height} preserveAspectRatio="none" />
+      {detections.map(detection => {
+        const isHovered = detection.itemId === hoveredItemId;
+        const isSelected = selectedItemIds.includes(detection.itemId);
+        return (
+          <polygon
+            key={detection.itemId}
+            points={detection.points}
+            vectorEffect="non-scaling-stroke"
+            className={clsx(
+              'cursor-pointer transition-colors',
+              isHovered ? 'fill-amber-300/40 stroke-amber-400' : isSelected ? 'fill-blue-400/30 stroke-blue-500' : 'fill-transparent stroke-emerald-400'
+            )}
+            strokeWidth={isHovered || isSelected ? 3 : 1.5}
+            onMouseEnter={() => setHoveredItem(detection.itemId)}
+            onMouseLeave={() => setHoveredItem(null)}
+            onClick={() => onSelectItem?.(detection.itemId)}
+          >
+            <title>{detection.name}</title>
+          </polygon>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface SourcePhotoControlsProps {
+  mode: PhotoViewMode;
+  onModeChange: (mode: PhotoViewMode) => void;
+  shelfOpacity: number; // 0-1, opacity of the shelves over the underlay
+  onShelfOpacityChange: (opacity: number) => void;
+}
+
+const MODES: { mode: PhotoViewMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'underlay', label: 'Underlay' },
+  { mode: 'side-by-side', label: 'Side by side' },
+];
+
+/**
+ * Picks how the source photo is shown. Renders nothing when the planogram
+ * wasn't imported from a photo.
+ */
+export function SourcePhotoControls({ mode, onModeChange, shelfOpacity, onShelfOpacityChange }: SourcePhotoControlsProps) {
+  const sourcePhoto = usePlanogramStore((state) => state.sourcePhoto);
+  if (!sourcePhoto) return null;
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-gray-700 my-2">
+      <span className="font-semibold">Source photo</span>
+      <div className="flex rounded-md border border-gray-300 overflow-hidden">
+        {MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => onModeChange(option.mode)}
+            className={clsx(
+              'px-2 py-1',
+              mode === option.mode ? 'bg-gray-700 text-white' : 'bg-white hover:bg-gray-100'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {mode === 'underlay' && (
+        <label className="flex items-center gap-1">
+          Shelves
+          <input
+            type="range"
+            min={10}
+            max={90}
+            step={5}
+            value={Math.round(shelfOpacity * 100)}
+            onChange={(e) => onShelfOpacityChange(Number(e.target.value) / 100)}
+          />
+          {Math.round(shelfOpacity * 100)}%
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Sku } from '@/lib/types';
+import { usePlanogramStore } from '@/lib/store';
+import { SkuInput, UnresolvedSku, getUnresolvedSkus } from '@/lib/sku-catalog';
+import { createCatalogSku, saveSkuAliases } from '@/lib/sku-api';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type ResolutionMode = 'map' | 'create' | 'skip';
+
+interface Resolution {
+  mode: ResolutionMode;
+  query: string; // Filter for the catalog list
+  skuId: string; // Catalog SKU to map to
+  draft: SkuInput; // New catalog SKU
+}
+
+// Start from a catalog SKU with the detected name when there is one, otherwise offer a new SKU
+function getInitialResolution(unresolved: UnresolvedSku, skus: Sku[]): Resolution {
+  const sameName = skus.find(sku => sku.name.trim().toLowerCase() === unresolved.detectedName.trim().toLowerCase());
+  return {
+    mode: sameName ? 'map' : 'create',
+    query: '',
+    skuId: sameName?.skuId ?? '',
+    draft: {
+      skuId: unresolved.skuCode,
+      name: unresolved.detectedName,
+      productType: '',
+      brand: '',
+      widthMM: unresolved.widthMM,
+      heightMM: unresolved.heightMM,
+      imageUrl: '',
+      constraints: { stackable: true, deletable: true },
+    },
+  };
+}
+
+interface UnknownSkuDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  unresolved: UnresolvedSku[];
+  skus: Sku[];
+}
+
+// --- Dialog mapping each unknown detected SKU-Code to a catalog SKU or a new one ---
+const UnknownSkuDialog = ({ open, onOpenChange, unresolved, skus }: UnknownSkuDialogProps) => {
+  const router = useRouter();
+  const resolveUnknownSkus = usePlanogramStore((state) => state.actions.resolveUnknownSkus);
+  const [resolutions, setResolutions] = useState<{ [skuCode: string]: Resolution }>({});
+  const [rememberAliases, setRememberAliases] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const products = useMemo(() => skus.filter(sku => sku.productType !== 'BLANK'), [skus]);
+
+  const getResolution = (entry: UnresolvedSku) => resolutions[entry.skuCode] ?? getInitialResolution(entry, products);
+  const updateResolution = (entry: UnresolvedSku, changes: Partial<Resolution>) =>
+    setResolutions(prev => ({ ...prev, [entry.skuCode]: { ...getResolution(entry), ...changes } }));
+  const updateDraft = (entry: UnresolvedSku, changes: Partial<SkuInput>) =>
+    updateResolution(entry, { draft: { ...getResolution(entry).draft, ...changes } });
+
+  const isComplete = (resolution: Resolution) => {
+    if (resolution.mode === 'map') return !!resolution.skuId;
+    if (resolution.mode === 'create') {
+      const { skuId, name, productType, widthMM, heightMM } = resolution.draft;
+      return !!skuId.trim() && !!name.trim() && !!productType.trim() && widthMM > 0 && heightMM > 0;
+    }
+    return true;
+  };
+  const canApply = unresolved.some(entry => getResolution(entry).mode !== 'skip')
+    && unresolved.every(entry => isComplete(getResolution(entry)));
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    const resolved: { [skuCode: string]: Sku } = {};
+    let createdCount = 0;
+    try {
+      for (const entry of unresolved) {
+        const resolution = getResolution(entry);
+        if (resolution.mode === 'map') {
+          const sku = products.find(candidate => candidate.skuId === resolution.skuId);
+          if (sku) resolved[entry.skuCode] = sku;
+        } else if (resolution.mode === 'create') {
+          resolved[entry.skuCode] = await createCatalogSku(resolution.draft);
+          createdCount++;
+        }
+      }
+    } catch (error) {
+      toast.error(`Could not create SKU: ${error instanceof Error ? error.message : String(error)}`);
+      setIsApplying(false);
+      return;
+    }
+
+    resolveUnknownSkus(resolved);
+
+    // A new SKU created under the detected code is found by the next import anyway
+    const aliases = Object.fromEntries(
+      Object.entries(resolved)
+        .filter(([skuCode, sku]) => sku.skuId !== skuCode)
+        .map(([skuCode, sku]) => [skuCode, sku.skuId])
+    );
+    if (rememberAliases && Object.keys(aliases).length > 0) {
+      await saveSkuAliases(aliases).catch(error => toast.error(`Could not save the aliases: ${error instanceof Error ? error.message : String(error)}`));
+    }
+    // Reload the catalog so new SKUs show up in the palette
+    if (createdCount > 0) router.refresh();
+
+    setIsApplying(false);
+    setResolutions({});
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Resolve unknown SKUs</DialogTitle>
+          <DialogDescription className="pt-2">
+            The import detected products that aren&apos;t in the catalog. Map each code to a catalog SKU or create a new one.
+            Placeholders left unresolved stay on the shelf.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto divide-y border rounded-md">
+          {unresolved.map(entry => {
+            const resolution = getResolution(entry);
+            const query = resolution.query.trim().toLowerCase();
+            const matches = query
+              ? products.filter(sku => sku.name.toLowerCase().includes(query) || sku.skuId.toLowerCase().includes(query))
+              : products;
+            return (
+              <div key={entry.skuCode} className="p-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-gray-800 truncate">{entry.detectedName}</p>
+                    <p className="text-xs text-gray-500">
+                      <span className="font-mono">{entry.skuCode}</span> · {entry.itemIds.length} item{entry.itemIds.length === 1 ? '' : 's'} · detected {entry.widthMM}×{entry.heightMM}mm
+                    </p>
+                  </div>
+                  <select
+                    value={resolution.mode}
+                    onChange={(e) => updateResolution(entry, { mode: e.target.value as ResolutionMode })}
+                    className="text-sm border rounded-md px-2 py-1"
+                  >
+                    <option value="map">Map to catalog SKU</option>
+                    <option value="create">Create new SKU</option>
+                    <option value="skip">Leave as placeholder</option>
+                  </select>
+                </div>
+
+                {resolution.mode === 'map' && (
+                  <div className="flex gap-2">
+                    <Input
+                      className="h-8 w-48"
+                      placeholder="Search products..."
+                      value={resolution.query}
+                      onChange={(e) => updateResolution(entry, { query: e.target.value })}
+                    />
+                    <select
+                      value={resolution.skuId}
+                      onChange={(e) => updateResolution(entry, { skuId: e.target.value })}
+                      className="flex-1 min-w-0 text-sm border rounded-md px-2 py-1"
+                    >
+                      <option value="">Choose a SKU ({matches.length})</option>
+                      {matches.map(sku => (
+                        <option key={sku.skuId} value={sku.skuId}>
+                          {sku.name} ({sku.skuId}, {sku.widthMM}×{sku.heightMM}mm)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {resolution.mode === 'create' && (
+                  <div className="grid grid-cols-6 gap-2 text-xs">
+                    <label className="col-span-2">
+                      SKU id
+                      <Input className="h-8" value={resolution.draft.skuId} onChange={(e) => updateDraft(entry, { skuId: e.target.value })} />
+                    </label>
+                    <label className="col-span-4">
+                      Name
+                      <Input className="h-8" value={resolution.draft.name} onChange={(e) => updateDraft(entry, { name: e.target.value })} />
+                    </label>
+                    <label className="col-span-2">
+                      Pack type
+                      <Input className="h-8" placeholder="e.g. PET" value={resolution.draft.productType} onChange={(e) => updateDraft(entry, { productType: e.target.value })} />
+                    </label>
+                    <label className="col-span-2">
+                      Brand
+                      <Input className="h-8" value={resolution.draft.brand ?? ''} onChange={(e) => updateDraft(entry, { brand: e.target.value })} />
+                    </label>
+                    <label>
+                      Width (mm)
+                      <Input className="h-8" type="number" min={1} value={resolution.draft.widthMM} onChange={(e) => updateDraft(entry, { widthMM: Number(e.target.value) })} />
+                    </label>
+                    <label>
+                      Height (mm)
+                      <Input className="h-8" type="number" min={1} value={resolution.draft.heightMM} onChange={(e) => updateDraft(entry, { heightMM: Number(e.target.value) })} />
+                    </label>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={rememberAliases} onChange={(e) => setRememberAliases(e.target.checked)} />
+          Remember these mappings for future imports
+        </label>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleApply} disabled={!canApply || isApplying}>
+            {isApplying ? 'Applying...' : 'Apply'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface UnknownSkuNoticeProps {
+  skus: Sku[]; // Catalog to map unknown codes to
+}
+
+/**
+ * Banner listing the unknown SKUs of an AI import, with the resolution dialog.
+ */
+export function UnknownSkuNotice({ skus }: UnknownSkuNoticeProps) {
+  const refrigerators = usePlanogramStore((state) => state.refrigerators);
+  const unresolved = useMemo(() => getUnresolvedSkus(refrigerators), [refrigerators]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  if (unresolved.length === 0) return null;
+
+  const itemCount = unresolved.reduce((sum, entry) => sum + entry.itemIds.length, 0);
+
+  return (
+    <div className="mt-3 bg-orange-50 border border-orange-300 rounded-lg p-3 flex items-center justify-between gap-3">
+      <div>
+        <h3 className="text-sm font-bold text-orange-900">
+          {unresolved.length} unknown SKU{unresolved.length === 1 ? '' : 's'} ({itemCount} placeholder item{itemCount === 1 ? '' : 's'})
+        </h3>
+        <p className="text-xs text-orange-800">The import detected codes that aren&apos;t in the catalog. They are kept at their detected size.</p>
+      </div>
+      <Button type="button" size="sm" variant="outline" onClick={() => setIsDialogOpen(true)}>
+        Resolve
+      </Button>
+      <UnknownSkuDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} unresolved={unresolved} skus={skus} />
+    </div>
+  );
+}
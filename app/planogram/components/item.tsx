@@ -6,6 +6,7 @@ import { Item } from '@/lib/types';
 import clsx from 'clsx';
 import { motion, AnimatePresence } from 'framer-motion';
 import { PIXELS_PER_MM } from '@/lib/config';
+import { formatConfidence, needsReview } from '@/lib/detection-review';
 
 interface ItemProps {
   item: Item;
@@ -13,17 +14,24 @@ interface ItemProps {
 }
 
 export const ItemComponent = React.memo(function ItemComponent({ item, isDragging = false }: ItemProps) {
-  const selectedItemId = usePlanogramStore((state) => state.selectedItemId);
+  const isSelected = usePlanogramStore((state) => state.selectedItemIds.includes(item.id));
+  // The floating menu is for single-item edits; group actions live in the properties panel
+  const isOnlySelection = usePlanogramStore((state) => state.selectedItemIds.length === 1 && state.selectedItemId === item.id);
   const selectItem = usePlanogramStore((state) => state.actions.selectItem);
+  const toggleItemSelection = usePlanogramStore((state) => state.actions.toggleItemSelection);
   const actions = usePlanogramStore((state) => state.actions);
+  // Low-confidence detections are always flagged; the rest only when confidence display is on
+  const isUnderReview = usePlanogramStore((state) => needsReview(item, state.confidenceThreshold));
+  const showConfidence = usePlanogramStore((state) => state.showConfidence);
+  // Linked to the item's bounding box on the source photo
+  const isHovered = usePlanogramStore((state) => state.hoveredItemId === item.id);
+  const hasDetectionBox = !!item.detectionBox;
   const itemRef = useRef<HTMLDivElement>(null);
   const [menuPosition, setMenuPosition] = useState<{ top: number; left: number } | null>(null);
-  
-  const isSelected = useMemo(() => selectedItemId === item.id, [selectedItemId, item.id]);
 
   // Update menu position when selected
   useEffect(() => {
-    if (isSelected && itemRef.current) {
+    if (isOnlySelection && itemRef.current) {
       const rect = itemRef.current.getBoundingClientRect();
       setMenuPosition({
         top: rect.top - 60, // 60px above the item
@@ -32,11 +40,20 @@ export const ItemComponent = React.memo(function ItemComponent({ item, isDraggin
     } else {
       setMenuPosition(null);
     }
-  }, [isSelected]);
+  }, [isOnlySelection]);
 
-  const handleSelect = useCallback(() => {
-    selectItem(isSelected ? null : item.id);
-  }, [selectItem, isSelected, item.id]);
+  const handleSelect = useCallback((e: React.MouseEvent) => {
+    if (e.shiftKey) {
+      toggleItemSelection(item.id);
+      return;
+    }
+    selectItem(isOnlySelection ? null : item.id);
+  }, [selectItem, toggleItemSelection, isOnlySelection, item.id]);
+
+  const handleSelectAllOfSku = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    actions.selectAllOfSku(item.skuId);
+  }, [actions, item.skuId]);
 
   const handleStack = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
@@ -116,7 +133,10 @@ export const ItemComponent = React.memo(function ItemComponent({ item, isDraggin
       {/* ✅ OPTIMIZED: Plain div with CSS transitions only */}
       <div
         ref={itemRef}
+        data-item-id={item.id}
         onClick={handleSelect}
+        onMouseEnter={hasDetectionBox ? () => actions.setHoveredItem(item.id) : undefined}
+        onMouseLeave={hasDetectionBox ? () => actions.setHoveredItem(null) : undefined}
         style={{ 
           width: `${item.width}px`, 
           height: `${adjustedHeight}px` 
@@ -184,6 +204,15 @@ export const ItemComponent = React.memo(function ItemComponent({ item, isDraggin
               </div>
             </div>
           </div>
+        ) : item.detectedSkuCode ? (
+          // Placeholder for an AI detection that isn't in the catalog
+          <div
+            className="absolute inset-0 bg-orange-100 border-2 border-dashed border-orange-400 flex flex-col items-center justify-center overflow-hidden"
+            title={`Unknown SKU ${item.detectedSkuCode}: ${item.name}`}
+          >
+            <span className="text-orange-600 font-bold text-lg leading-none">?</span>
+            <span className="text-[9px] text-orange-800 text-center leading-tight break-all px-0.5">{item.name}</span>
+          </div>
         ) : (
           // Normal product image
           <img 
@@ -193,11 +222,24 @@ export const ItemComponent = React.memo(function ItemComponent({ item, isDraggin
             onDragStart={(e) => e.preventDefault()}
           />
         )}
+        {item.confidence !== undefined && (isUnderReview || showConfidence) && (
+          <span
+            className={clsx(
+              'absolute top-0.5 right-0.5 z-20 rounded px-1 text-[9px] font-bold leading-tight shadow pointer-events-none',
+              isUnderReview ? 'bg-red-500 text-white' : item.reviewStatus === 'confirmed' ? 'bg-blue-500 text-white' : 'bg-emerald-500 text-white'
+            )}
+            title={`Detection confidence ${formatConfidence(item.confidence)}${item.reviewStatus === 'confirmed' ? ' (confirmed)' : ''}`}
+          >
+            {item.reviewStatus === 'confirmed' ? '✓' : formatConfidence(item.confidence)}
+          </span>
+        )}
+        {isUnderReview && <div className="absolute inset-0 z-20 border-2 border-red-500 pointer-events-none" />}
+        {isHovered && <div className="absolute inset-0 z-20 border-2 border-amber-400 bg-amber-300/30 pointer-events-none" />}
       </div>
       {/* </motion.div> COMMENTED OUT - replaced with plain div above */}
 
       {/* Floating Action Menu - Portaled to document body to escape drag listeners */}
-      {isSelected && menuPosition && typeof window !== 'undefined' && createPortal(
+      {isOnlySelection && menuPosition && typeof window !== 'undefined' && createPortal(
         <div
           className="fixed z-[10000] floating-action-menu" // ✅ ADDED CLASS for outside detection
           style={{
@@ -237,6 +279,19 @@ export const ItemComponent = React.memo(function ItemComponent({ item, isDraggin
               </svg>
             </button>
 
+            {/* Select All of SKU Button */}
+            <button
+              onClick={handleSelectAllOfSku}
+              onMouseDown={(e) => e.stopPropagation()}
+              onPointerDown={(e) => e.stopPropagation()}
+              className="flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-gray-800 font-semibold p-2 rounded-full transition-colors shadow-md"
+              title="Select all of this SKU"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+            </button>
+
             {/* Delete Button (only if deletable) */}
             {item.constraints.deletable && (
               <button
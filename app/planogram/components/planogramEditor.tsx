@@ -2,19 +2,38 @@
 
 import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
 import { usePlanogramStore } from '@/lib/store';
-import { Sku, Refrigerator, Item, LayoutData, DoorConfig, MultiDoorRefrigerator as MultiDoorRefrigeratorType } from '@/lib/types';
+import { Sku, Refrigerator, Item, LayoutData, DoorConfig, MultiDoorRefrigerator as MultiDoorRefrigeratorType, PlanogramSummary, SavedPlanogram } from '@/lib/types';
 import { SkuPalette } from './SkuPalette';
 import { RefrigeratorComponent } from './Refrigerator';
 import { MultiDoorRefrigerator } from './MultiDoorRefrigerator';
 import { PropertiesPanelMemo as PropertiesPanel } from './PropertiesPanel';
 import { InfoPanel } from './InfoPanel';
+import { AutoFillDialog } from './AutoFillDialog';
+import { CompliancePanel } from './CompliancePanel';
+import { AnalyticsPanel } from './AnalyticsPanel';
+import { ConflictReportList } from './ConflictReport';
+import { HoldingArea } from './HoldingArea';
+import { UnknownSkuNotice } from './UnknownSkus';
+import { ReviewQueuePanel } from './ReviewQueuePanel';
+import { PhotoViewMode, SourcePhotoControls, SourcePhotoImage } from './SourcePhotoView';
 import { DndContext, DragEndEvent, DragStartEvent, DragOverEvent, DragOverlay, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
 import { ItemComponent } from './item';
 import { BackendStatePreview } from './BackendStatePreview';
 import { FrontendStatePreview } from './FrontendStatePreview';
 import clsx from 'clsx';
 import { AnimatePresence, motion } from 'framer-motion';
-import { runValidation, findConflicts, findDimensionConflicts } from '@/lib/validation';
+import { getReviewQueue } from '@/lib/detection-review';
+import { runValidation, getConflictReport, getDimensionConflictReport, getConflictItemIds, conflictReportToCsvRows, mergeConflictReports, ConflictEntry } from '@/lib/validation';
+import { compareToReference, getComplianceHighlights } from '@/lib/compliance';
+import { fetchPlanogram } from '@/lib/planogram-api';
+import { downloadBlob, downloadCsv } from '@/lib/export-utils';
+import { getDoorConfigs } from '@/lib/multi-door-utils';
+import { PIXEL_RATIO } from '@/lib/config';
+import { BackendOutput } from '@/lib/backend-transform';
+import { convertBackendOutputToFrontend, isBackendOutput, matchBackendOutputLayout } from '@/lib/backend-to-frontend';
+import { PLANOGRAM_FILE_EXTENSION, createPlanogramFile, parsePlanogramFile, serializePlanogramFile } from '@/lib/planogram-file';
+import { MerchandisingRule } from '@/lib/merchandising-rules';
+import { useRules } from '@/lib/hooks';
 import { Spinner, PlanogramEditorSkeleton } from './Skeletons';
 import { toast } from 'sonner';
 import {
@@ -26,6 +45,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import Link from 'next/link';
 
 // --- (All sub-components like ModeToggle, RuleToggle, etc. remain the same) ---
@@ -159,30 +179,78 @@ const DimensionValidationToggle = React.memo(({ isEnabled, onToggle }: { isEnabl
 DimensionValidationToggle.displayName = 'DimensionValidationToggle';
 
 // --- NEW: UI Component for Conflict Resolution ---
-const ConflictPanel = React.memo(({ conflictCount, onRemove, onDisableRules }: { conflictCount: number; onRemove: () => void; onDisableRules: () => void; }) => {
+interface ConflictPanelProps {
+  conflictCount: number;
+  entries: ConflictEntry[];
+  onSelectEntry: (entry: ConflictEntry) => void;
+  onExport: () => void;
+  onAutoResolve: () => void;
+  onRemove: () => void;
+  onDisableRules: () => void;
+}
+
+const ConflictPanel = React.memo(({ conflictCount, entries, onSelectEntry, onExport, onAutoResolve, onRemove, onDisableRules }: ConflictPanelProps) => {
   return (
-    <div className="fixed bottom-5 right-5 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-lg z-50 max-w-sm">
-      <strong className="font-bold">Rule Conflict Detected!</strong>
-      <p className="block sm:inline">{conflictCount} item(s) violate the current placement rules.</p>
-      <div className="mt-3 flex gap-3">
-        <button onClick={onRemove} className="bg-red-500 hover:bg-red-700 text-white font-bold py-1 px-3 rounded text-sm">
-          Remove Conflicts
+    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between gap-3">
+        <strong className="font-bold">Rule Conflict Detected!</strong>
+        <button onClick={onExport} className="text-xs font-semibold text-red-700 hover:underline">
+          Export report
         </button>
+      </div>
+      {conflictCount > 0 && (
+        <p className="block sm:inline">{conflictCount} item(s) violate the current placement rules.</p>
+      )}
+      <ConflictReportList entries={entries} onSelect={onSelectEntry} />
+      <div className="mt-3 flex flex-wrap gap-3 items-center">
+        {conflictCount > 0 && (
+          <button onClick={onAutoResolve} className="bg-red-700 hover:bg-red-800 text-white font-bold py-1 px-3 rounded text-sm" title="Move conflicting stacks to shelves that take them">
+            Auto-resolve
+          </button>
+        )}
+        {conflictCount > 0 && (
+          <button onClick={onRemove} className="bg-red-500 hover:bg-red-700 text-white font-bold py-1 px-3 rounded text-sm">
+            Remove Conflicts
+          </button>
+        )}
         <button onClick={onDisableRules} className="bg-transparent hover:bg-red-200 text-red-700 font-semibold py-1 px-3 border border-red-500 hover:border-transparent rounded text-sm">
           Disable Rules
-        </button>      </div>
+        </button>
+        <Link href="/rules" className="text-xs text-red-700 hover:underline">
+          Edit rules
+        </Link>
+      </div>
     </div>
   );
 });
 ConflictPanel.displayName = 'ConflictPanel';
 
 // --- NEW: UI Component for Dimension Conflict Resolution ---
-const DimensionConflictPanel = React.memo(({ conflictCount, onRemove, onDisable }: { conflictCount: number; onRemove: () => void; onDisable: () => void; }) => {
+interface DimensionConflictPanelProps {
+  conflictCount: number;
+  entries: ConflictEntry[];
+  onSelectEntry: (entry: ConflictEntry) => void;
+  onExport: () => void;
+  onAutoResolve: () => void;
+  onRemove: () => void;
+  onDisable: () => void;
+}
+
+const DimensionConflictPanel = React.memo(({ conflictCount, entries, onSelectEntry, onExport, onAutoResolve, onRemove, onDisable }: DimensionConflictPanelProps) => {
   return (
-    <div className="fixed bottom-24 right-5 bg-purple-50 border border-purple-200 text-black px-4 py-3 rounded-sm shadow-lg z-50 max-w-sm">
-      <strong className="font-bold">Dimension Conflict Detected!</strong>
+    <div className="bg-purple-50 border border-purple-200 text-black px-4 py-3 rounded-sm shadow-lg">
+      <div className="flex items-center justify-between gap-3">
+        <strong className="font-bold">Dimension Conflict Detected!</strong>
+        <button onClick={onExport} className="text-xs font-semibold text-purple-700 hover:underline">
+          Export report
+        </button>
+      </div>
       <p className="block sm:inline">{conflictCount} item(s) violate dimensional constraints (height/width overflow).</p>
-      <div className="mt-3 flex gap-3">
+      <ConflictReportList entries={entries} onSelect={onSelectEntry} />
+      <div className="mt-3 flex flex-wrap gap-3">
+        <button onClick={onAutoResolve} className="bg-purple-700 hover:bg-purple-800 text-white font-bold py-1 px-3 rounded text-sm" title="Move overflowing stacks to shelves with room">
+          Auto-resolve
+        </button>
         <button onClick={onRemove} className="bg-purple-500 hover:bg-purple-700 text-white font-bold py-1 px-3 rounded text-sm">
           Remove Conflicts
         </button>
@@ -236,11 +304,42 @@ const RestorePrompt = React.memo(({ lastSaveTime, onRestore, onDismiss }: { last
 RestorePrompt.displayName = 'RestorePrompt';
 
 // --- UI Component for Save Indicator ---
-const SaveIndicator = React.memo(({ lastSaveTime, onManualSave, isSaving }: { lastSaveTime: Date | null; onManualSave: () => void; isSaving: boolean }) => {
+interface SaveIndicatorProps {
+  lastSaveTime: Date | null;
+  onManualSave: () => void;
+  syncStatus: 'idle' | 'syncing' | 'synced' | 'conflict' | 'error';
+  syncError: string | null;
+  planogram: PlanogramSummary | null;
+}
+
+const SaveIndicator = React.memo(({ lastSaveTime, onManualSave, syncStatus, syncError, planogram }: SaveIndicatorProps) => {
   const timeAgo = lastSaveTime ? getTimeAgo(lastSaveTime) : null;
+  const isSaving = syncStatus === 'syncing';
 
   return (
-    <div className="flex items-center">
+    <div className="flex items-center gap-3">
+      {syncStatus === 'conflict' ? (
+        <div className="flex items-center gap-2 text-sm text-amber-600" title={syncError || undefined}>
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+          </svg>
+          <span>Conflict - newer version on server</span>
+        </div>
+      ) : syncStatus === 'error' ? (
+        <div className="flex items-center gap-2 text-sm text-red-600" title={syncError || undefined}>
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+          <span>Save failed</span>
+        </div>
+      ) : planogram && timeAgo && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span>{planogram.name} v{planogram.version} · {timeAgo}</span>
+        </div>
+      )}
       <button
         onClick={onManualSave}
         disabled={isSaving}
@@ -261,18 +360,116 @@ const SaveIndicator = React.memo(({ lastSaveTime, onManualSave, isSaving }: { la
           </>
         )}
       </button>
-      {/* {timeAgo && (
-        <div className="flex items-center gap-2 text-sm text-gray-600">
-          <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-          </svg>
-          <span>Last saved: {timeAgo}</span>
-        </div>      )} */}
     </div>
   );
 });
 SaveIndicator.displayName = 'SaveIndicator';
 
+// --- Dialog asking for name/author the first time a planogram is saved ---
+const SavePlanogramDialog = React.memo(({
+  open,
+  onOpenChange,
+  defaultName,
+  onSave
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  onSave: (details: { name: string; author: string }) => void;
+}) => {
+  const [name, setName] = useState(defaultName);
+  const [author, setAuthor] = useState('');
+
+  useEffect(() => {
+    if (open) setName(defaultName);
+  }, [open, defaultName]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), author: author.trim() });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Save planogram</DialogTitle>
+            <DialogDescription className="pt-2">
+              Give this planogram a name. Later saves create new versions of it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-4">
+            <div>
+              <label htmlFor="planogram-name" className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+              <Input id="planogram-name" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+            </div>
+            <div>
+              <label htmlFor="planogram-author" className="block text-xs font-medium text-gray-700 mb-1">Author</label>
+              <Input id="planogram-author" value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="anonymous" />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+});
+SavePlanogramDialog.displayName = 'SavePlanogramDialog';
+
+// --- Dialog shown when the server rejects a save because of a newer version ---
+const SaveConflictDialog = React.memo(({
+  conflictingPlanogram,
+  onOverwrite,
+  onReload,
+  onCancel
+}: {
+  conflictingPlanogram: SavedPlanogram | null;
+  onOverwrite: () => void;
+  onReload: () => void;
+  onCancel: () => void;
+}) => {
+  return (
+    <Dialog open={!!conflictingPlanogram} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-amber-600">Save conflict</DialogTitle>
+          <DialogDescription className="pt-2">
+            {conflictingPlanogram && (
+              <>
+                <strong>{conflictingPlanogram.name}</strong> was saved as version {conflictingPlanogram.version} by{' '}
+                <strong>{conflictingPlanogram.author}</strong> {getTimeAgo(new Date(conflictingPlanogram.updatedAt))}.
+                Overwrite it with your changes, or discard your changes and load the latest version?
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="button" variant="outline" onClick={onReload}>
+            Load latest
+          </Button>
+          <Button type="button" variant="destructive" onClick={onOverwrite}>
+            Overwrite
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+SaveConflictDialog.displayName = 'SaveConflictDialog';
+
 // ... (LayoutSelector remains the same)
 interface LayoutSelectorProps {
   layouts: { [key: string]: LayoutData };
@@ -295,6 +492,9 @@ const LayoutSelector = React.memo(({ layouts, selectedLayout, onLayoutChange }:
         {Object.keys(layouts).map(layoutId => (
           <option key={layoutId} value={layoutId}>{layouts[layoutId].name}</option>
         ))}      </select>
+      <Link href="/layouts" className="mt-1 inline-block text-xs text-blue-600 hover:underline">
+        Manage cooler models
+      </Link>
     </div>
   );
 });
@@ -367,6 +567,7 @@ interface PlanogramEditorProps {
   initialLayouts: { [key: string]: LayoutData };
   importedLayout?: Refrigerator | MultiDoorRefrigeratorType | null;
   importedLayoutId?: string | null; // <-- NEW: The layout ID that was detected
+  defaultLayoutId?: string; // Layout to open when nothing was imported
 }
 
 export function PlanogramEditor({
@@ -374,7 +575,8 @@ export function PlanogramEditor({
   initialLayout,
   initialLayouts,
   importedLayout = null,
-  importedLayoutId = null // <-- NEW: Accept the detected layout ID
+  importedLayoutId = null, // <-- NEW: Accept the detected layout ID
+  defaultLayoutId = 'g-26c'
 }: PlanogramEditorProps) {
   const { refrigerator, actions, findStackLocation } = usePlanogramStore();
   const refrigerators = usePlanogramStore((state) => state.refrigerators);
@@ -385,6 +587,10 @@ export function PlanogramEditor({
   const hasPendingDraft = usePlanogramStore((state) => state.hasPendingDraft);
   const syncStatus = usePlanogramStore((state) => state.syncStatus);
   const lastSynced = usePlanogramStore((state) => state.lastSynced);
+  const syncError = usePlanogramStore((state) => state.syncError);
+  const currentPlanogram = usePlanogramStore((state) => state.currentPlanogram);
+  const conflictingPlanogram = usePlanogramStore((state) => state.conflictingPlanogram);
+  const currentLayoutId = usePlanogramStore((state) => state.currentLayoutId);
 
   // --- NEW: Get pending data from store ---
   const pendingImportedData = usePlanogramStore((state) => state.pendingImportedData);
@@ -397,14 +603,34 @@ export function PlanogramEditor({
   const [showModePrompt, setShowModePrompt] = useState(false); const [invalidModeAttempts, setInvalidModeAttempts] = useState(0);
   const [isRulesEnabled, setIsRulesEnabled] = useState(false);
   const [conflictIds, setConflictIds] = useState<string[]>([]);
+  const [conflictReport, setConflictReport] = useState<ConflictEntry[]>([]);
   const [isDimensionValidationEnabled, setIsDimensionValidationEnabled] = useState(false);
   const [dimensionConflictIds, setDimensionConflictIds] = useState<string[]>([]);
+  const [dimensionConflictReport, setDimensionConflictReport] = useState<ConflictEntry[]>([]);
   const [showBoundingBoxes, setShowBoundingBoxes] = useState(false);
-  // <-- FIXED: Use the imported layout ID if available, otherwise default to 'g-26c'
-  const [selectedLayoutId, setSelectedLayoutId] = useState<string>(importedLayoutId || 'g-26c');
+  // <-- FIXED: Use the imported layout ID if available, otherwise the default layout
+  const [selectedLayoutId, setSelectedLayoutId] = useState<string>(importedLayoutId || defaultLayoutId);
   const [isLoading, setIsLoading] = useState(true);
   const [isCaptureLoading, setIsCaptureLoading] = useState(false);
   const [showDiscardDialog, setShowDiscardDialog] = useState(false);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [showAutoFillDialog, setShowAutoFillDialog] = useState(false);
+  // Compliance mode: diff the canvas against a saved reference planogram
+  const [isComplianceMode, setIsComplianceMode] = useState(false);
+  const [complianceReference, setComplianceReference] = useState<SavedPlanogram | null>(null);
+  const [isLoadingReference, setIsLoadingReference] = useState(false);
+  // Review queue for low-confidence detections of an import
+  const [isReviewMode, setIsReviewMode] = useState(false);
+  // Photo the planogram was imported from, shown under or next to the shelves
+  const sourcePhoto = usePlanogramStore((state) => state.sourcePhoto);
+  const [photoViewMode, setPhotoViewMode] = useState<PhotoViewMode>('off');
+  const [shelfOpacity, setShelfOpacity] = useState(0.6);
+  const activePhotoView = sourcePhoto ? photoViewMode : 'off';
+  const confidenceThreshold = usePlanogramStore((state) => state.confidenceThreshold);
+  const reviewCount = useMemo(() => getReviewQueue(refrigerators, confidenceThreshold).length, [refrigerators, confidenceThreshold]);
+  // Merchandising rules from /api/rules, evaluated alongside the shelf rules
+  const { ruleSet } = useRules();
+  const rules = useMemo<MerchandisingRule[]>(() => ruleSet?.rules ?? [], [ruleSet]);
   const canUndo = historyIndex > 0;
   const canRedo = historyIndex < history.length - 1;
 
@@ -419,13 +645,20 @@ export function PlanogramEditor({
         pendingImportedData.layoutId,
         pendingImportedData.layout,
         true, // forceInit = true (skip draft check)
-        pendingImportedData.layoutData
+        pendingImportedData.layoutData,
+        pendingImportedData.sourcePhoto
       );
 
       // Update local state for the dropdown
       setSelectedLayoutId(pendingImportedData.layoutId);
       toast.success('Successfully imported planogram from image!');
 
+      // Scan was uploaded for a compliance check
+      if (pendingImportedData.referencePlanogramId) {
+        setIsComplianceMode(true);
+        handleComplianceReferenceChange(pendingImportedData.referencePlanogramId);
+      }
+
       // CLEAR the pending data so a refresh doesn't re-trigger it
       actions.setPendingImport(null);
 
@@ -448,7 +681,56 @@ export function PlanogramEditor({
     return () => clearTimeout(loadingTimer);
   }, []); // This still only runs once on mount
 
-  // Keyboard shortcuts for undo/redo
+  // Keep the dropdown in step when the store loads a layout itself (e.g. reloading a saved planogram)
+  useEffect(() => {
+    if (currentLayoutId && currentLayoutId !== selectedLayoutId && initialLayouts[currentLayoutId]) {
+      setSelectedLayoutId(currentLayoutId);
+    }
+  }, [currentLayoutId]);
+
+  // A reference planogram only makes sense for the cooler model it was built on
+  useEffect(() => {
+    if (complianceReference && currentLayoutId && complianceReference.layoutId !== currentLayoutId) {
+      setComplianceReference(null);
+    }
+  }, [currentLayoutId, complianceReference]);
+
+  const handleComplianceReferenceChange = useCallback((planogramId: string | null) => {
+    if (!planogramId) {
+      setComplianceReference(null);
+      return;
+    }
+    setIsLoadingReference(true);
+    fetchPlanogram(planogramId)
+      .then(setComplianceReference)
+      .catch((error) => toast.error('Failed to load reference planogram', { description: error instanceof Error ? error.message : String(error) }))
+      .finally(() => setIsLoadingReference(false));
+  }, []);
+
+  const complianceReport = useMemo(() => {
+    if (!isComplianceMode || !complianceReference) return null;
+    return compareToReference(refrigerators, complianceReference.refrigerators);
+  }, [isComplianceMode, complianceReference, refrigerators]);
+
+  const complianceHighlights = useMemo(
+    () => (complianceReport ? getComplianceHighlights(complianceReport) : null),
+    [complianceReport]
+  );
+
+  // First save asks for a name; later saves create a new version of the same planogram
+  const handleSave = useCallback(() => {
+    if (usePlanogramStore.getState().currentPlanogram) {
+      actions.manualSync();
+    } else {
+      setShowSaveDialog(true);
+    }
+  }, [actions]);
+
+  const handleDismissConflict = useCallback(() => {
+    usePlanogramStore.setState({ conflictingPlanogram: null });
+  }, []);
+
+  // Keyboard shortcuts for undo/redo, delete and clipboard
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
@@ -463,10 +745,40 @@ export function PlanogramEditor({
         e.preventDefault();
         actions.deleteSelectedItem();
       }
+
+      // Clipboard: Ctrl+C copies the selected stacks, Ctrl+Alt+C the selected item's shelf,
+      // Ctrl+Alt+Shift+C its door. Ctrl+V pastes at the selected item. Text fields keep native copy/paste.
+      const target = e.target as HTMLElement;
+      const isTyping = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
+      if (!(e.ctrlKey || e.metaKey) || isTyping || (e.code !== 'KeyC' && e.code !== 'KeyV')) return;
+
+      const { selectedItemId, findStackLocation, clipboard } = usePlanogramStore.getState();
+      const location = selectedItemId ? findStackLocation(selectedItemId) : null;
+      if (e.code === 'KeyC' && location) {
+        e.preventDefault();
+        if (e.altKey && e.shiftKey) {
+          actions.copyDoor(location.doorId);
+        } else if (e.altKey) {
+          actions.copyRow(location.doorId, location.rowId);
+        } else {
+          actions.copySelection();
+        }
+      }
+      if (e.code === 'KeyV' && clipboard) {
+        e.preventDefault();
+        if (!location) {
+          toast.error('Select an item where you want to paste, or use the shelf and door paste buttons.');
+          return;
+        }
+        actions.pasteClipboard(
+          { doorId: location.doorId, rowId: location.rowId, stackIndex: location.stackIndex + 1 },
+          isRulesEnabled
+        );
+      }
     };
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [canUndo, canRedo, actions]);
+  }, [canUndo, canRedo, actions, isRulesEnabled]);
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -476,26 +788,173 @@ export function PlanogramEditor({
   useEffect(() => {
     if (isRulesEnabled) {
       if (refrigerators && Object.keys(refrigerators).length > 0) {
-        // Check all doors for conflicts
-        const conflicts = findConflicts(refrigerators);
-        setConflictIds(conflicts);
+        // Check all doors for conflicts; errors first in the report
+        const severityOrder = { error: 0, warning: 1, info: 2 };
+        const report = getConflictReport(refrigerators, rules).sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+        setConflictReport(report);
+        setConflictIds(getConflictItemIds(report));
       }
     } else {
       setConflictIds([]);
+      setConflictReport([]);
     }
-  }, [refrigerators, isRulesEnabled]);
+  }, [refrigerators, isRulesEnabled, rules]);
 
   // Dimension validation conflict detection
   useEffect(() => {
     if (refrigerators && Object.keys(refrigerators).length > 0 && isDimensionValidationEnabled) {
       // Check all doors for dimension conflicts
-      const dimensionConflicts = findDimensionConflicts(refrigerators);
-      setDimensionConflictIds(dimensionConflicts);
+      const report = getDimensionConflictReport(refrigerators);
+      setDimensionConflictReport(report);
+      setDimensionConflictIds(getConflictItemIds(report));
     } else if (!isDimensionValidationEnabled) {
       setDimensionConflictIds([]);
+      setDimensionConflictReport([]);
     }
   }, [refrigerators, isDimensionValidationEnabled]);
 
+  // Select items on the canvas and scroll the first into view
+  const focusItems = useCallback((itemIds: string[]) => {
+    if (itemIds.length === 0) return;
+    actions.setSelection(itemIds);
+    requestAnimationFrame(() => {
+      document.querySelector(`[data-item-id="${CSS.escape(itemIds[0])}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+    });
+  }, [actions]);
+
+  const handleSelectConflict = useCallback((entry: ConflictEntry) => focusItems(entry.itemIds), [focusItems]);
+  const handleFocusItem = useCallback((itemId: string) => focusItems([itemId]), [focusItems]);
+
+  // One CSV with both reports
+  const handleExportConflicts = useCallback(() => {
+    const entries = mergeConflictReports(conflictReport, dimensionConflictReport);
+    const planogramName = currentPlanogram
+      ? `${currentPlanogram.name} v${currentPlanogram.version}`
+      : initialLayouts[selectedLayoutId]?.name || selectedLayoutId;
+    downloadCsv(conflictReportToCsvRows(entries, planogramName), 'planogram-conflicts');
+  }, [conflictReport, dimensionConflictReport, currentPlanogram, initialLayouts, selectedLayoutId]);
+
+  // Printable report of the current shelves, with the conflicts the editor is showing
+  const handleExportReport = useCallback(async () => {
+    try {
+      const { buildPlanogramReport } = await import('@/lib/planogram-report');
+      const blob = buildPlanogramReport({
+        refrigerators,
+        layoutName: initialLayouts[selectedLayoutId]?.name || selectedLayoutId,
+        planogram: currentPlanogram,
+        conflicts: mergeConflictReports(conflictReport, dimensionConflictReport),
+      });
+      downloadBlob(blob, currentPlanogram?.name || 'planogram-report', 'pdf');
+    } catch (error) {
+      console.error('Report export failed:', error);
+      toast.error('Failed to create the PDF report');
+    }
+  }, [refrigerators, conflictReport, dimensionConflictReport, currentPlanogram, initialLayouts, selectedLayoutId]);
+
+  // Save the open planogram to a self-contained .planogram.json file
+  const handleExportFile = useCallback(() => {
+    const layoutData = usePlanogramStore.getState().currentLayoutData || initialLayouts[selectedLayoutId];
+    if (!layoutData) return;
+    const file = createPlanogramFile({
+      name: currentPlanogram?.name || layoutData.name,
+      author: currentPlanogram?.author,
+      planogramVersion: currentPlanogram?.version,
+      layoutId: selectedLayoutId,
+      layout: layoutData,
+      refrigerators,
+      sourcePhoto: usePlanogramStore.getState().sourcePhoto,
+    });
+    const blob = new Blob([serializePlanogramFile(file)], { type: 'application/json' });
+    downloadBlob(blob, file.name, PLANOGRAM_FILE_EXTENSION);
+  }, [refrigerators, currentPlanogram, initialLayouts, selectedLayoutId]);
+
+  const planogramFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Rebuild the shelves from a BackendOutput JSON exported earlier, on the template it was made on
+  const importBackendOutput = useCallback((output: BackendOutput) => {
+    const match = matchBackendOutputLayout(output, initialLayouts, selectedLayoutId);
+    if (!match) throw new Error('No cooler template has the doors, shelves and width of this export');
+    const refrigerators = convertBackendOutputToFrontend(output, match.layout, initialSkus, match.scale);
+    actions.initializeLayout(match.layoutId, refrigerators, true, match.layout);
+    setSelectedLayoutId(match.layoutId);
+    toast.success(`Imported the export on ${match.layout.name}`);
+  }, [actions, initialLayouts, initialSkus, selectedLayoutId]);
+
+  // Open a planogram file as a new, unsaved planogram on its embedded geometry, or re-import a backend export
+  const handleImportFile = useCallback(async (file: File) => {
+    try {
+      const text = await file.text();
+      let data: unknown = null;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        // Reported by parsePlanogramFile
+      }
+      if (isBackendOutput(data)) {
+        importBackendOutput(data);
+        return;
+      }
+
+      const planogramFile = parsePlanogramFile(text, initialLayouts);
+      actions.initializeLayout(planogramFile.layoutId, planogramFile.refrigerators, true, planogramFile.layout, planogramFile.sourcePhoto);
+      if (initialLayouts[planogramFile.layoutId]) setSelectedLayoutId(planogramFile.layoutId);
+      toast.success(`Opened ${planogramFile.name}`);
+
+      const catalogSkuIds = new Set(initialSkus.map(sku => sku.skuId));
+      const missingSkus = planogramFile.skus.filter(sku => sku.productType !== 'BLANK' && !catalogSkuIds.has(sku.skuId));
+      if (missingSkus.length > 0) {
+        toast.warning(`${missingSkus.length} SKU(s) in this file are not in the catalog.`, {
+          description: missingSkus.slice(0, 5).map(sku => sku.name).join(', '),
+        });
+      }
+    } catch (error) {
+      console.error('Opening planogram file failed:', error);
+      toast.error('Could not open the planogram file', { description: error instanceof Error ? error.message : String(error) });
+    }
+  }, [actions, initialLayouts, initialSkus, importBackendOutput]);
+
+  // Vector drawing of the shelves; unlike the snapshot it doesn't depend on the page or SKU image hosts
+  const handleExportSvg = useCallback(async () => {
+    const layoutData = usePlanogramStore.getState().currentLayoutData || initialLayouts[selectedLayoutId];
+    if (!layoutData) return;
+    const { renderPlanogramSvg } = await import('@/lib/svg-renderer');
+    const doorConfigs = layoutData.doors?.length ? layoutData.doors : getDoorConfigs(layoutData);
+    const svg = renderPlanogramSvg(refrigerators, doorConfigs, {
+      showLabels: true,
+      highlightItemIds: [...conflictIds, ...dimensionConflictIds],
+    });
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), currentPlanogram?.name || 'planogram', 'svg');
+  }, [refrigerators, conflictIds, dimensionConflictIds, currentPlanogram, initialLayouts, selectedLayoutId]);
+
+  // Captured image plus COCO and YOLO annotations, as synthetic training data for the shelf detector
+  const handleExportDataset = useCallback(async () => {
+    const layoutData = usePlanogramStore.getState().currentLayoutData || initialLayouts[selectedLayoutId];
+    if (!layoutData) return;
+    setIsCaptureLoading(true);
+    toast.loading('Building training dataset...', { id: 'dataset-toast' });
+    try {
+      const [{ renderElementToBlob }, { buildTrainingDataset }] = await Promise.all([
+        import('@/lib/capture-utils'),
+        import('@/lib/training-dataset'),
+      ]);
+      const { blob, width, height } = await renderElementToBlob('refrigerator-layout');
+      const { archive, boxCount } = await buildTrainingDataset({
+        refrigerators,
+        doorConfigs: layoutData.doors?.length ? layoutData.doors : getDoorConfigs(layoutData),
+        image: { blob, width: width * PIXEL_RATIO, height: height * PIXEL_RATIO },
+        skus: initialSkus,
+      });
+      downloadBlob(archive, `${currentPlanogram?.name || 'planogram'}-dataset`, 'zip');
+      toast.success(`Dataset exported with ${boxCount} boxes`, { id: 'dataset-toast' });
+    } catch (error) {
+      console.error('Dataset export failed:', error);
+      toast.error('Failed to export the training dataset', { id: 'dataset-toast', description: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsCaptureLoading(false);
+    }
+  }, [refrigerators, currentPlanogram, initialLayouts, initialSkus, selectedLayoutId]);
+
   // NEW: Update handler to use store action (Phase 10)
   const handleLayoutChange = useCallback((layoutId: string) => {
     setSelectedLayoutId(layoutId);
@@ -566,6 +1025,7 @@ export function PlanogramEditor({
             doorId,
             findStackLocation,
             isRulesEnabled,
+            rules,
           });
 
           // Merge results from this door
@@ -594,12 +1054,13 @@ export function PlanogramEditor({
           doorId,
           findStackLocation,
           isRulesEnabled,
+          rules,
         });
 
         setDragValidation(validationResult);
       }
     }
-  }, [actions, refrigerator, refrigerators, isMultiDoor, findStackLocation, isRulesEnabled]);
+  }, [actions, refrigerator, refrigerators, isMultiDoor, findStackLocation, isRulesEnabled, rules]);
   // OPTIMIZATION: Store previous drop indicator to prevent unnecessary updates
   const prevDropIndicatorRef = useRef<DropIndicator>(null);
   const dragOverThrottleRef = useRef<number>(0);
@@ -799,6 +1260,47 @@ export function PlanogramEditor({
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10h-10a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
               </svg>
+            </button>
+
+            <button
+              onClick={() => setShowAutoFillDialog(true)}
+              className="px-4 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 bg-indigo-500 text-white hover:bg-indigo-600 shadow-md hover:shadow-lg"
+              title="Generate a planogram from share-of-shelf targets"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
+              </svg>
+              Auto-fill
+            </button>
+
+            <button
+              onClick={() => setIsComplianceMode(prev => !prev)}
+              className={clsx(
+                "px-4 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 shadow-md hover:shadow-lg",
+                isComplianceMode
+                  ? "bg-emerald-600 text-white hover:bg-emerald-700"
+                  : "bg-white text-emerald-700 border border-emerald-600 hover:bg-emerald-50"
+              )}
+              title="Compare the shelves with a reference planogram"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+              </svg>
+              Compliance
+            </button>            <button
+              onClick={() => setIsReviewMode(prev => !prev)}
+              className={clsx(
+                "px-4 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 shadow-md hover:shadow-lg",
+                isReviewMode
+                  ? "bg-rose-600 text-white hover:bg-rose-700"
+                  : "bg-white text-rose-700 border border-rose-600 hover:bg-rose-50"
+              )}
+              title="Step through low-confidence detections"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+              </svg>
+              Review{reviewCount > 0 ? ` (${reviewCount})` : ''}
             </button>            <button
               onClick={() => setShowDiscardDialog(true)}
               className="px-4 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 bg-red-500 text-white hover:bg-red-600 shadow-md hover:shadow-lg"
@@ -846,14 +1348,75 @@ export function PlanogramEditor({
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
                   </svg>
-                  <span>Save</span>
+                  <span>Snapshot</span>
                 </>
               )}
             </button>
 
-            {/* <div>
-              <SaveIndicator lastSaveTime={lastSynced} onManualSave={actions.manualSync} isSaving={syncStatus === 'syncing'} />
-            </div> */}
+            <button
+              onClick={handleExportReport}
+              className="px-4 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 shadow-md hover:shadow-lg bg-white text-gray-700 border border-gray-700 hover:bg-gray-50"
+              title="Download a printable PDF report"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17h6m-6-4h6m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              PDF Report
+            </button>
+
+            <button
+              onClick={handleExportSvg}
+              className="px-4 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 shadow-md hover:shadow-lg bg-white text-gray-700 border border-gray-700 hover:bg-gray-50"
+              title="Download the shelves as a vector SVG"
+            >
+              SVG
+            </button>
+
+            <button
+              onClick={handleExportDataset}
+              disabled={isCaptureLoading}
+              className="px-4 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 shadow-md hover:shadow-lg bg-white text-gray-700 border border-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download the captured image with COCO and YOLO annotations"
+            >
+              Dataset
+            </button>
+
+            <button
+              onClick={handleExportFile}
+              className="px-4 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 shadow-md hover:shadow-lg bg-white text-gray-700 border border-gray-700 hover:bg-gray-50"
+              title="Save the planogram to a .planogram.json file"
+            >
+              Export File
+            </button>
+
+            <button
+              onClick={() => planogramFileInputRef.current?.click()}
+              className="px-4 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 shadow-md hover:shadow-lg bg-white text-gray-700 border border-gray-700 hover:bg-gray-50"
+              title="Open a .planogram.json file or an exported backend JSON"
+            >
+              Open File
+            </button>
+            <input
+              ref={planogramFileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+                e.target.value = '';
+              }}
+            />
+
+            <div>
+              <SaveIndicator
+                lastSaveTime={lastSynced}
+                onManualSave={handleSave}
+                syncStatus={syncStatus}
+                syncError={syncError}
+                planogram={currentPlanogram}
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -870,27 +1433,72 @@ export function PlanogramEditor({
             <div className='w-full flex flex-row justify-between items-center'>
               <LayoutSelector layouts={initialLayouts} selectedLayout={selectedLayoutId} onLayoutChange={handleLayoutChange} />
               <ModeToggle mode={interactionMode} setMode={handleModeChange} />
-            </div>            <div className='justify-center items-center flex border bg-gray-200 rounded-sm pt-2'>
-              <MultiDoorRefrigerator
-                dragValidation={dragValidation}
-                dropIndicator={dropIndicator}
-                conflictIds={[
-                  ...(isRulesEnabled ? conflictIds : []),
-                  ...(isDimensionValidationEnabled ? dimensionConflictIds : [])
-                ]}
-                selectedLayoutId={selectedLayoutId}
-                showBoundingBoxes={showBoundingBoxes}
-              />
             </div>
+            <SourcePhotoControls
+              mode={photoViewMode}
+              onModeChange={setPhotoViewMode}
+              shelfOpacity={shelfOpacity}
+              onShelfOpacityChange={setShelfOpacity}
+            />
+            <div className='justify-center items-start flex gap-2 border bg-gray-200 rounded-sm pt-2'>
+              <div className='relative'>
+                {activePhotoView === 'underlay' && sourcePhoto && (
+                  <SourcePhotoImage photo={sourcePhoto} stretch className='absolute inset-0 w-full h-full' />
+                )}
+                <div className='relative' style={activePhotoView === 'underlay' ? { opacity: shelfOpacity } : undefined}>
+                  <MultiDoorRefrigerator
+                    dragValidation={dragValidation}
+                    dropIndicator={dropIndicator}
+                    conflictIds={[
+                      ...(isRulesEnabled ? conflictIds : []),
+                      ...(isDimensionValidationEnabled ? dimensionConflictIds : [])
+                    ]}
+                    selectedLayoutId={selectedLayoutId}
+                    showBoundingBoxes={showBoundingBoxes}
+                    complianceHighlights={complianceHighlights}
+                    isRulesEnabled={isRulesEnabled}
+                  />
+                </div>
+              </div>
+              {activePhotoView === 'side-by-side' && sourcePhoto && (
+                <SourcePhotoImage
+                  photo={sourcePhoto}
+                  onSelectItem={handleFocusItem}
+                  className='flex-1 min-w-0 max-h-[80vh] bg-white'
+                />
+              )}
+            </div>
+            <UnknownSkuNotice skus={initialSkus} />
+            <HoldingArea rules={isRulesEnabled ? rules : []} />
           </div>
 
           {/* Right Column (3/12): Properties Panel */}
           <div className='col-span-3 max-h-screen overflow-y-auto'>
+            {isReviewMode && (
+              <ReviewQueuePanel
+                skus={initialSkus}
+                isRulesEnabled={isRulesEnabled}
+                onFocusItem={handleFocusItem}
+                onClose={() => setIsReviewMode(false)}
+              />
+            )}
+            {isComplianceMode && (
+              <CompliancePanel
+                layoutId={selectedLayoutId}
+                reference={complianceReference}
+                report={complianceReport}
+                isLoadingReference={isLoadingReference}
+                onReferenceChange={handleComplianceReferenceChange}
+                onSelectItem={actions.selectItem}
+                onClose={() => setIsComplianceMode(false)}
+              />
+            )}
             <div className='bg-white rounded-lg shadow-md border border-gray-200  overflow-hidden'>
               <PropertiesPanel
                 availableSkus={initialSkus}
                 isRulesEnabled={isRulesEnabled}
               />            </div>
+            <AnalyticsPanel />
             <div>
               {/* Backend State Preview - Transformed with Bounding Boxes */}
               <BackendStatePreview />
@@ -905,36 +1513,50 @@ export function PlanogramEditor({
         <DragOverlay>
           {activeItem ? <ItemComponent item={activeItem as Item} /> : null}
         </DragOverlay>
-      </DndContext>      {/* Modals and Prompts */}
+      </DndContext>      {/* Conflict reports, stacked in the bottom-right corner */}
+      <div className="fixed bottom-5 right-5 z-50 flex flex-col gap-3 w-96">
       <AnimatePresence>
-        {isRulesEnabled && conflictIds.length > 0 && (
+        {isDimensionValidationEnabled && dimensionConflictReport.length > 0 && (
           <motion.div
-            key="conflict-panel"
+            key="dimension-conflict-panel"
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: 20 }}
           >
-            <ConflictPanel
-              conflictCount={conflictIds.length}
-              onRemove={() => actions.removeItemsById(conflictIds)}
-              onDisableRules={() => setIsRulesEnabled(false)}
+            <DimensionConflictPanel
+              conflictCount={dimensionConflictIds.length}
+              entries={dimensionConflictReport}
+              onSelectEntry={handleSelectConflict}
+              onExport={handleExportConflicts}
+              onAutoResolve={() => actions.autoResolveConflicts(dimensionConflictIds, isRulesEnabled ? rules : [])}
+              onRemove={() => actions.removeItemsById(dimensionConflictIds)}
+              onDisable={() => setIsDimensionValidationEnabled(false)}
             />
           </motion.div>
         )}
-        {isDimensionValidationEnabled && dimensionConflictIds.length > 0 && (
+        {isRulesEnabled && conflictReport.length > 0 && (
           <motion.div
-            key="dimension-conflict-panel"
+            key="conflict-panel"
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: 20 }}
           >
-            <DimensionConflictPanel
-              conflictCount={dimensionConflictIds.length}
-              onRemove={() => actions.removeItemsById(dimensionConflictIds)}
-              onDisable={() => setIsDimensionValidationEnabled(false)}
+            <ConflictPanel
+              conflictCount={conflictIds.length}
+              entries={conflictReport}
+              onSelectEntry={handleSelectConflict}
+              onExport={handleExportConflicts}
+              onAutoResolve={() => actions.autoResolveConflicts(conflictIds, rules)}
+              onRemove={() => actions.removeItemsById(conflictIds)}
+              onDisableRules={() => setIsRulesEnabled(false)}
             />
           </motion.div>
         )}
+      </AnimatePresence>
+      </div>
+
+      {/* Modals and Prompts */}
+      <AnimatePresence>
         {showModePrompt && (
           <motion.div
             key="mode-prompt"
@@ -954,6 +1576,28 @@ export function PlanogramEditor({
         onOpenChange={setShowDiscardDialog}
         onConfirm={handleDiscardConfirm}
       />
+
+      {/* Auto-fill Dialog */}
+      <AutoFillDialog
+        open={showAutoFillDialog}
+        onOpenChange={setShowAutoFillDialog}
+        skus={initialSkus}
+        onGenerate={(options) => actions.autoFill(initialSkus, options)}
+      />
+
+      {/* Server Save Dialogs */}
+      <SavePlanogramDialog
+        open={showSaveDialog}
+        onOpenChange={setShowSaveDialog}
+        defaultName={initialLayouts[selectedLayoutId]?.name || selectedLayoutId}
+        onSave={actions.manualSync}
+      />
+      <SaveConflictDialog
+        conflictingPlanogram={conflictingPlanogram}
+        onOverwrite={() => actions.resolveSyncConflict('overwrite')}
+        onReload={() => actions.resolveSyncConflict('reload')}
+        onCancel={handleDismissConflict}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 'use client';
-import React, { useMemo } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { Row as RowType } from '@/lib/types';
 import { StackComponent } from './stack';
 import { useDroppable } from '@dnd-kit/core';
@@ -7,6 +7,17 @@ import { SortableContext, horizontalListSortingStrategy } from '@dnd-kit/sortabl
 import { motion, AnimatePresence } from 'framer-motion';
 import { DropIndicator, DragValidation } from './planogramEditor';
 import clsx from 'clsx';
+import { ComplianceHighlights } from '@/lib/compliance';
+import { usePlanogramStore } from '@/lib/store';
+import { PIXELS_PER_MM } from '@/lib/config';
+import { getShelfHeightRange } from '@/lib/shelf-geometry';
+import { ShelfSettingsDialog } from './ShelfSettingsDialog';
+
+// Marquee selection rectangle in viewport coordinates
+type Marquee = { startX: number; startY: number; endX: number; endY: number };
+
+// Drags shorter than this are treated as plain clicks on the shelf
+const MIN_MARQUEE_SIZE = 4;
 
 interface RowProps {
   row: RowType;
@@ -14,6 +25,9 @@ interface RowProps {
   dropIndicator: DropIndicator;
   dragValidation: DragValidation;
   conflictIds: string[];
+  complianceHighlights?: ComplianceHighlights | null;
+  isRulesEnabled?: boolean;
+  isLastRow?: boolean; // The bottom shelf has no boundary below it to drag
 }
 
 export const RowComponent = React.memo(function RowComponent({ 
@@ -21,7 +35,10 @@ export const RowComponent = React.memo(function RowComponent({
   doorId,
   dropIndicator, 
   dragValidation, 
-  conflictIds 
+  conflictIds,
+  complianceHighlights = null,
+  isRulesEnabled = false,
+  isLastRow = false
 }: RowProps) {
   // Create door-specific droppable ID
   const droppableId = doorId ? `${doorId}:${row.id}` : row.id;
@@ -30,6 +47,63 @@ export const RowComponent = React.memo(function RowComponent({
     id: droppableId, 
     data: { type: 'row', rowId: row.id, doorId: doorId, items: row.stacks } 
   });
+
+  const rowRef = useRef<HTMLDivElement | null>(null);
+  const setRowRef = useCallback((node: HTMLDivElement | null) => {
+    rowRef.current = node;
+    setNodeRef(node);
+  }, [setNodeRef]);
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+
+  // Marquee selection: drag across empty shelf space to select the items it touches.
+  // Drags that start on an item are left to dnd-kit.
+  const handleMarqueeStart = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('[data-item-id], [data-resize-handle], button')) return;
+
+    const start = { startX: e.clientX, startY: e.clientY, endX: e.clientX, endY: e.clientY };
+    let current = start;
+    setMarquee(start);
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      current = { ...current, endX: moveEvent.clientX, endY: moveEvent.clientY };
+      setMarquee(current);
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setMarquee(null);
+
+      const left = Math.min(current.startX, current.endX);
+      const right = Math.max(current.startX, current.endX);
+      const top = Math.min(current.startY, current.endY);
+      const bottom = Math.max(current.startY, current.endY);
+      if (right - left < MIN_MARQUEE_SIZE && bottom - top < MIN_MARQUEE_SIZE) return;
+
+      const itemIds = Array.from(rowRef.current?.querySelectorAll<HTMLElement>('[data-item-id]') || [])
+        .filter(element => {
+          const rect = element.getBoundingClientRect();
+          return rect.left < right && rect.right > left && rect.top < bottom && rect.bottom > top;
+        })
+        .map(element => element.dataset.itemId!);
+
+      const { selectedItemIds, actions } = usePlanogramStore.getState();
+      actions.setSelection(upEvent.shiftKey ? [...selectedItemIds, ...itemIds] : itemIds);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  }, []);
+
+  const marqueeStyle = useMemo(() => {
+    const rowRect = rowRef.current?.getBoundingClientRect();
+    if (!marquee || !rowRect) return null;
+    return {
+      left: Math.min(marquee.startX, marquee.endX) - rowRect.left,
+      top: Math.min(marquee.startY, marquee.endY) - rowRect.top,
+      width: Math.abs(marquee.endX - marquee.startX),
+      height: Math.abs(marquee.endY - marquee.startY),
+    };
+  }, [marquee]);
   
   const stackIds = useMemo(
     () => row.stacks.map(stack => stack[0]?.id).filter(Boolean),
@@ -64,11 +138,63 @@ export const RowComponent = React.memo(function RowComponent({
   // PERFORMANCE: Disable animations during drag
   const shouldAnimate = !isDragging;
 
+  // Shelf copy/paste (stacks are appended; a copied shelf replaces this one)
+  const canPaste = usePlanogramStore((state) => state.clipboard?.kind === 'stacks' || state.clipboard?.kind === 'row');
+  const handleCopyRow = useCallback(() => {
+    usePlanogramStore.getState().actions.copyRow(doorId || 'door-1', row.id);
+  }, [doorId, row.id]);
+  const handlePasteRow = useCallback(() => {
+    usePlanogramStore.getState().actions.pasteClipboard({ doorId: doorId || 'door-1', rowId: row.id }, isRulesEnabled);
+  }, [doorId, row.id, isRulesEnabled]);
+
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // Shelf resize: drag the bottom boundary; the shelf below gives or takes the height.
+  // The new height is previewed locally and committed once on release.
+  const [resizeHeight, setResizeHeight] = useState<number | null>(null);
+  const handleResizeStart = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const finalDoorId = doorId || 'door-1';
+    const door = usePlanogramStore.getState().refrigerators[finalDoorId];
+    const range = door && getShelfHeightRange(door, row.id);
+    if (!range) return;
+
+    const startY = e.clientY;
+    const startHeight = row.maxHeight;
+    const minHeight = Math.ceil(range.minMM * PIXELS_PER_MM);
+    const maxHeight = Math.floor(range.maxMM * PIXELS_PER_MM);
+    let height = startHeight;
+    setResizeHeight(startHeight);
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      height = Math.min(maxHeight, Math.max(minHeight, startHeight + moveEvent.clientY - startY));
+      setResizeHeight(height);
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setResizeHeight(null);
+      if (height !== startHeight) {
+        usePlanogramStore.getState().actions.updateShelf(finalDoorId, row.id, { heightMM: Math.round(height / PIXELS_PER_MM) });
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  }, [doorId, row.id, row.maxHeight]);
+
+  // Reference facings the compliance check could not find on this shelf
+  const missingFacings = complianceHighlights?.missingByRow[`${doorId || 'door-1'}:${row.id}`] || [];
+
   return (
     <motion.div 
-      ref={setNodeRef}
+      ref={setRowRef}
+      onPointerDown={handleMarqueeStart}
       className={clsx(
-        "relative transition-all duration-300 ease-out w-full",
+        "group relative transition-all duration-300 ease-out w-full",
         "bg-gradient-to-b from-white/80 via-slate-50/60 to-slate-100/80",
         "border-b-[6px] border-gray-700/60",
         {
@@ -77,7 +203,7 @@ export const RowComponent = React.memo(function RowComponent({
         }
       )}
       style={{ 
-        height: `${row.maxHeight}px`, // EXACT height from row data
+        height: `${resizeHeight ?? row.maxHeight}px`, // EXACT height from row data (or the live resize preview)
       }}
       animate={shouldAnimate ? {
         backgroundColor: isValidRowTarget && isOver 
@@ -98,6 +224,80 @@ export const RowComponent = React.memo(function RowComponent({
         </div>
       )}
 
+      {/* Shelf clipboard actions (shown on hover) */}
+      {!isDragging && (
+        <div className="absolute top-1 left-1 z-30 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={handleCopyRow}
+            className="text-[10px] font-semibold text-gray-700 bg-white/90 hover:bg-white px-1.5 py-0.5 rounded shadow-sm border border-gray-200"
+            title="Copy shelf (Ctrl+Alt+C)"
+          >
+            Copy shelf
+          </button>
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="text-[10px] font-semibold text-gray-700 bg-white/90 hover:bg-white px-1.5 py-0.5 rounded shadow-sm border border-gray-200"
+            title="Shelf height, allowed products, insert or delete"
+          >
+            Shelf…
+          </button>
+          {canPaste && (
+            <button
+              onClick={handlePasteRow}
+              className="text-[10px] font-semibold text-white bg-blue-500/90 hover:bg-blue-600 px-1.5 py-0.5 rounded shadow-sm"
+              title="Paste onto this shelf (Ctrl+V)"
+            >
+              Paste
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Shelf boundary resize handle */}
+      {!isLastRow && !isDragging && (
+        <div
+          data-resize-handle
+          onPointerDown={handleResizeStart}
+          className={clsx(
+            "absolute left-0 right-0 -bottom-[6px] h-[6px] z-40 cursor-row-resize",
+            resizeHeight !== null ? "bg-blue-500" : "hover:bg-blue-400/70"
+          )}
+          title="Drag to change the shelf height"
+        />
+      )}
+      {resizeHeight !== null && (
+        <div className="absolute bottom-1 right-1 z-40 text-[10px] font-semibold text-white bg-blue-600 px-1.5 py-0.5 rounded shadow-sm pointer-events-none">
+          {Math.round(resizeHeight / PIXELS_PER_MM)}mm
+        </div>
+      )}
+
+      {isSettingsOpen && (
+        <ShelfSettingsDialog
+          open={isSettingsOpen}
+          onOpenChange={setIsSettingsOpen}
+          doorId={doorId || 'door-1'}
+          rowId={row.id}
+        />
+      )}
+
+      {/* Marquee selection rectangle */}
+      {marqueeStyle && (
+        <div
+          className="absolute z-40 border border-blue-500 bg-blue-400/15 pointer-events-none"
+          style={marqueeStyle}
+        />
+      )}
+
+      {/* Compliance: missing reference facings */}
+      {missingFacings.length > 0 && (
+        <div
+          className="absolute top-1 right-1 z-30 text-[10px] font-semibold text-white bg-red-600/90 px-1.5 py-0.5 rounded shadow-sm"
+          title={missingFacings.map(d => d.expected?.name).join('\n')}
+        >
+          {missingFacings.length} missing
+        </div>
+      )}
+
       <SortableContext items={stackIds} strategy={horizontalListSortingStrategy}>
         {/* REMOVED px-1 padding - items align to left edge */}
         <div 
@@ -133,6 +333,7 @@ export const RowComponent = React.memo(function RowComponent({
                 isStackHighlight={dropIndicator?.type === 'stack' && dropIndicator.targetId === stack[0].id}
                 dragValidation={dragValidation}
                 conflictIds={conflictIds}
+                complianceHighlights={complianceHighlights}
                 isParentRowValid={isValidRowTarget}
               />
             </div>
@@ -169,7 +370,13 @@ export const RowComponent = React.memo(function RowComponent({
   // Optimized comparison for performance
   return prevProps.row.id === nextProps.row.id &&
          prevProps.row.stacks.length === nextProps.row.stacks.length &&
+         prevProps.row.maxHeight === nextProps.row.maxHeight &&
+         prevProps.row.capacity === nextProps.row.capacity &&
+         prevProps.row.allowedProductTypes === nextProps.row.allowedProductTypes &&
+         prevProps.isLastRow === nextProps.isLastRow &&
          prevProps.dropIndicator === nextProps.dropIndicator &&
          prevProps.dragValidation === nextProps.dragValidation &&
-         prevProps.conflictIds === nextProps.conflictIds;
+         prevProps.conflictIds === nextProps.conflictIds &&
+         prevProps.complianceHighlights === nextProps.complianceHighlights &&
+         prevProps.isRulesEnabled === nextProps.isRulesEnabled;
 });
\ No newline at end of file
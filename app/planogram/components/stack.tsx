@@ -7,6 +7,7 @@ import { CSS } from '@dnd-kit/utilities';
 import { motion, AnimatePresence } from 'framer-motion';
 import clsx from 'clsx';
 import { DragValidation } from './planogramEditor';
+import { ComplianceHighlights, DiscrepancyType, DISCREPANCY_LABELS } from '@/lib/compliance';
 
 interface StackProps {
   stack: ItemType[];
@@ -14,14 +15,23 @@ interface StackProps {
   dragValidation: DragValidation;
   isParentRowValid: boolean;
   conflictIds: string[]; 
+  complianceHighlights?: ComplianceHighlights | null;
 }
 
+// Ring colour per compliance discrepancy ('missing' has no item to mark)
+const discrepancyRingClass: Record<Exclude<DiscrepancyType, 'missing'>, string> = {
+  'wrong-sku': 'ring-amber-500',
+  'extra': 'ring-fuchsia-500',
+  'wrong-shelf': 'ring-violet-500',
+};
+
 export const StackComponent = React.memo(function StackComponent({ 
   stack, 
   isStackHighlight, 
   dragValidation, 
   isParentRowValid, 
-  conflictIds 
+  conflictIds,
+  complianceHighlights = null
 }: StackProps) {
   const firstItem = stack[0];
   if (!firstItem) return null;
@@ -43,6 +53,11 @@ export const StackComponent = React.memo(function StackComponent({
     [stack, conflictIds]
   );
   
+  const discrepancyType = useMemo(
+    () => stack.map(item => complianceHighlights?.itemTypes[item.id]).find(Boolean) as Exclude<DiscrepancyType, 'missing'> | undefined,
+    [stack, complianceHighlights]
+  );
+
   const isDraggingGlobal = !!dragValidation;
   const isValidStackTarget = useMemo(
     () => isDraggingGlobal && dragValidation?.validStackTargetIds.has(firstItem.id),
@@ -101,6 +116,14 @@ export const StackComponent = React.memo(function StackComponent({
         )
       )}
 
+      {/* Compliance discrepancy marker */}
+      {discrepancyType && !hasConflict && !isDragging && !isStackHighlight && (
+        <div
+          className={clsx("absolute -inset-1 rounded-lg ring-4 pointer-events-none z-10", discrepancyRingClass[discrepancyType])}
+          title={DISCREPANCY_LABELS[discrepancyType]}
+        />
+      )}
+
       {/* Stack highlight indicator - appears when can drop */}
       {/* PERFORMANCE: Disable AnimatePresence during drag */}
       {shouldAnimate ? (
@@ -167,5 +190,6 @@ export const StackComponent = React.memo(function StackComponent({
          prevProps.isStackHighlight === nextProps.isStackHighlight &&
          prevProps.isParentRowValid === nextProps.isParentRowValid &&
          prevProps.dragValidation === nextProps.dragValidation &&
-         prevProps.conflictIds === nextProps.conflictIds;
+         prevProps.conflictIds === nextProps.conflictIds &&
+         prevProps.complianceHighlights === nextProps.complianceHighlights;
 });
\ No newline at end of file
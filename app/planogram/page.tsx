@@ -1,12 +1,20 @@
 import { PlanogramEditor } from './components/planogramEditor';
-import { getAvailableSkus, getInitialLayout, getAvailableLayouts } from '@/lib/planogram-data';
+import { listLayouts } from '@/lib/layout-repository';
+import { listSkus } from '@/lib/sku-repository';
 import { Refrigerator } from '@/lib/types';
 
+// Layout templates and the SKU catalog can be edited at runtime, so always read the latest set
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LAYOUT_ID = 'g-26c';
+
 export default async function PlanogramPage() {
   // These functions run on the server to get the initial data.
-  const availableSkus = await getAvailableSkus();
-  const initialLayoutData = await getInitialLayout();
-  const availableLayouts = await getAvailableLayouts(); // Fetch the new layout data
+  const availableSkus = await listSkus();
+  const availableLayouts = await listLayouts(); // Built-in and user-defined cooler templates
+
+  const defaultLayoutId = availableLayouts[DEFAULT_LAYOUT_ID] ? DEFAULT_LAYOUT_ID : Object.keys(availableLayouts)[0];
+  const initialLayoutData = availableLayouts[defaultLayoutId];
 
   // Extract the Refrigerator from LayoutData
   // Support both new (doors array) and legacy (top-level layout) formats
@@ -33,8 +41,9 @@ export default async function PlanogramPage() {
           initialSkus={availableSkus}
           initialLayout={initialLayout}
           initialLayouts={availableLayouts} // Pass the new data as a prop
+          defaultLayoutId={defaultLayoutId}
         />
       </div>
     </main>
   );
-}
\ No newline at end of file
+}
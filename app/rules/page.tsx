@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeft, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { fetchRuleSet, saveRuleSet } from '@/lib/rules-api';
+import { MerchandisingRule, RuleSet, RuleType, RULE_SET_VERSION, validateRuleSet } from '@/lib/merchandising-rules';
+
+// Starting points for each rule type, appended by the "Add" buttons
+const RULE_EXAMPLES: Record<RuleType, MerchandisingRule> = {
+  'facings': { id: '', type: 'facings', name: 'Facings per SKU', severity: 'warning', enabled: true, selector: { brands: ['PEPSI'] }, min: 2, max: 6 },
+  'adjacency': { id: '', type: 'adjacency', name: 'Brand adjacency', severity: 'warning', enabled: true, brandA: 'PEPSI', brandB: 'MIRINDA' },
+  'row-restriction': { id: '', type: 'row-restriction', name: 'Premium at eye level', severity: 'error', enabled: true, selector: { productTypes: ['PET'] }, rows: [2, 3] },
+  'max-skus-per-shelf': { id: '', type: 'max-skus-per-shelf', name: 'SKUs per shelf', severity: 'warning', enabled: true, max: 6 },
+  'vertical-block': { id: '', type: 'vertical-block', name: 'Brand blocking', severity: 'info', enabled: true },
+};
+
+const SEVERITY_BADGES: Record<MerchandisingRule['severity'], string> = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-amber-100 text-amber-800',
+  info: 'bg-blue-100 text-blue-700',
+};
+
+const toText = (ruleSet: RuleSet) => JSON.stringify(ruleSet, null, 2);
+
+// Parse the editor text; returns the rule set or the reason it is invalid
+function parseRuleSet(text: string): { ruleSet: RuleSet } | { error: string } {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    return { error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  const validationError = validateRuleSet(body);
+  return validationError ? { error: validationError } : { ruleSet: body as RuleSet };
+}
+
+export default function RulesPage() {
+  const [text, setText] = useState(toText({ version: RULE_SET_VERSION, rules: [] }));
+  const [savedText, setSavedText] = useState(text);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRuleSet()
+      .then(ruleSet => {
+        setText(toText(ruleSet));
+        setSavedText(toText(ruleSet));
+      })
+      .catch(error => toast.error(`Could not load rules: ${error instanceof Error ? error.message : String(error)}`))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const parsed = useMemo(() => parseRuleSet(text), [text]);
+  const isDirty = text !== savedText;
+
+  // List and button edits go through the parsed rule set, so they need valid JSON
+  const updateRules = (update: (rules: MerchandisingRule[]) => MerchandisingRule[]) => {
+    if (!('ruleSet' in parsed)) return;
+    setText(toText({ ...parsed.ruleSet, rules: update(parsed.ruleSet.rules) }));
+  };
+
+  const addRule = (type: RuleType) => updateRules(rules => {
+    let index = rules.length + 1;
+    while (rules.some(rule => rule.id === `${type}-${index}`)) index++;
+    return [...rules, { ...RULE_EXAMPLES[type], id: `${type}-${index}` }];
+  });
+
+  const handleSave = async () => {
+    if (!('ruleSet' in parsed)) return;
+    setIsSaving(true);
+    try {
+      const saved = await saveRuleSet(parsed.ruleSet);
+      setText(toText(saved));
+      setSavedText(toText(saved));
+      toast.success(`Saved ${saved.rules.length} rule(s)`);
+    } catch (error) {
+      toast.error(`Save failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        <header className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Merchandising Rules</h1>
+            <p className="text-sm text-gray-600">
+              Checked in the editor while rules are enabled. Errors block drops and flag items; warnings and info are listed only.
+              Shelves are numbered from 1 at the top of each door.
+            </p>
+          </div>
+          <Link href="/planogram" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="h-4 w-4" /> Back to editor
+          </Link>
+        </header>
+
+        <div className="grid grid-cols-12 gap-6">
+          {/* Rule list */}
+          <div className="col-span-4 space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : 'ruleSet' in parsed ? (
+              parsed.ruleSet.rules.length === 0 ? (
+                <p className="text-sm text-gray-500">No rules yet. Add one below or paste a rule set.</p>
+              ) : (
+                parsed.ruleSet.rules.map(rule => (
+                  <label key={rule.id} className="flex items-start gap-2 bg-white px-3 py-2 rounded-md border text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRules(rules => rules.map(r => (r.id === rule.id ? { ...r, enabled: e.target.checked } : r)))}
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="block font-semibold text-gray-800 truncate">{rule.name}</span>
+                      <span className="block text-xs text-gray-500">{rule.type} · {rule.id}</span>
+                    </span>
+                    <span className={`text-[10px] font-semibold uppercase rounded px-1.5 py-0.5 ${SEVERITY_BADGES[rule.severity]}`}>
+                      {rule.severity}
+                    </span>
+                  </label>
+                ))
+              )
+            ) : (
+              <p className="text-sm text-red-600">Fix the JSON to see the rule list.</p>
+            )}
+
+            <div className="pt-2 flex flex-wrap gap-2">
+              {(Object.keys(RULE_EXAMPLES) as RuleType[]).map(type => (
+                <Button key={type} type="button" variant="outline" size="sm" disabled={!('ruleSet' in parsed)} onClick={() => addRule(type)}>
+                  <Plus className="h-3 w-3" /> {type}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* JSON editor */}
+          <div className="col-span-8 space-y-3">
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              spellCheck={false}
+              disabled={isLoading}
+              className="w-full h-[60vh] font-mono text-xs p-3 rounded-md border bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex items-center justify-between gap-4">
+              <p className={`text-sm ${'error' in parsed ? 'text-red-600' : 'text-gray-500'}`}>
+                {'error' in parsed ? parsed.error : `${parsed.ruleSet.rules.length} rule(s), valid`}
+              </p>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" disabled={!isDirty} onClick={() => setText(savedText)}>
+                  Revert
+                </Button>
+                <Button type="button" onClick={handleSave} disabled={isSaving || !isDirty || !('ruleSet' in parsed)}>
+                  {isSaving ? 'Saving...' : 'Save rules'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
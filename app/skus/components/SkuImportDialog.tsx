@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { FileSpreadsheet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { importSkuFile } from '@/lib/sku-api';
+import { SkuImportPreview, getSkuField } from '@/lib/sku-import';
+
+type PreviewTab = 'added' | 'changed' | 'removed' | 'errors';
+
+interface SkuImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export function SkuImportDialog({ open, onOpenChange, onImported }: SkuImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [removeMissing, setRemoveMissing] = useState(false);
+  const [preview, setPreview] = useState<SkuImportPreview | null>(null);
+  const [tab, setTab] = useState<PreviewTab>('added');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setRemoveMissing(false);
+    setTab('added');
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const runImport = async (mode: 'preview' | 'commit') => {
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const result = await importSkuFile(file, mode, removeMissing);
+      setPreview(result.preview);
+      if (result.preview.errors.length > 0) setTab('errors');
+
+      if (result.committed) {
+        const { added, changed, removed } = result.preview;
+        toast.success(`Imported: ${added.length} new, ${changed.length} changed${removeMissing ? `, ${removed.length} removed` : ''}`);
+        onImported();
+        handleOpenChange(false);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const tabs: { id: PreviewTab; label: string; count: number }[] = preview ? [
+    { id: 'added', label: 'New', count: preview.added.length },
+    { id: 'changed', label: 'Changed', count: preview.changed.length },
+    { id: 'removed', label: removeMissing ? 'Removed' : 'Not in file', count: preview.removed.length },
+    { id: 'errors', label: 'Errors', count: preview.errors.length },
+  ] : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import SKU master data</DialogTitle>
+          <DialogDescription>
+            CSV or Excel (.xlsx) with columns <strong>code, name, pack type, width (mm), height (mm)</strong> and
+            optionally <strong>brand, image url, stackable, deletable</strong>. Nothing changes until you confirm the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <Input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setPreview(null);
+              }}
+            />
+            <Button type="button" variant="outline" disabled={!file || isWorking} onClick={() => runImport('preview')}>
+              <FileSpreadsheet className="h-4 w-4" /> Preview
+            </Button>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={removeMissing}
+              onChange={(e) => {
+                setRemoveMissing(e.target.checked);
+                setPreview(null);
+              }}
+            />
+            Remove catalog SKUs that are not in the file
+          </label>
+
+          {preview && (
+            <div className="border rounded-md">
+              <div className="flex border-b text-sm">
+                {tabs.map(({ id, label, count }) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => setTab(id)}
+                    className={`px-3 py-2 ${tab === id ? 'border-b-2 border-blue-600 font-semibold text-blue-700' : 'text-gray-600'} ${id === 'errors' && count > 0 ? 'text-red-600' : ''}`}
+                  >
+                    {label} ({count})
+                  </button>
+                ))}
+                <span className="ml-auto px-3 py-2 text-xs text-gray-500">{preview.unchangedCount} unchanged</span>
+              </div>
+
+              <div className="max-h-72 overflow-y-auto text-sm">
+                {tab === 'added' && preview.added.map(sku => (
+                  <div key={sku.skuId} className="px-3 py-1 border-b last:border-0">
+                    <span className="font-mono text-xs text-gray-500 mr-2">{sku.skuId}</span>
+                    {sku.name} · {sku.productType} · {sku.widthMM} x {sku.heightMM} mm
+                  </div>
+                ))}
+                {tab === 'changed' && preview.changed.map(({ before, after, fields }) => (
+                  <div key={after.skuId} className="px-3 py-1 border-b last:border-0">
+                    <span className="font-mono text-xs text-gray-500 mr-2">{after.skuId}</span>
+                    {after.name}
+                    <ul className="ml-4 text-xs text-gray-600">
+                      {fields.map(field => (
+                        <li key={field}>
+                          {field}: {String(getSkuField(before, field))}
+                          {' → '}
+                          {String(getSkuField(after, field))}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+                {tab === 'removed' && preview.removed.map(sku => (
+                  <div key={sku.skuId} className="px-3 py-1 border-b last:border-0">
+                    <span className="font-mono text-xs text-gray-500 mr-2">{sku.skuId}</span>
+                    {sku.name}
+                    {!removeMissing && <span className="text-xs text-gray-400"> (kept)</span>}
+                  </div>
+                ))}
+                {tab === 'errors' && preview.errors.map(error => (
+                  <div key={`${error.line}-${error.message}`} className="px-3 py-1 border-b last:border-0 text-red-700">
+                    Line {error.line}: {error.message}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button
+            type="button"
+            disabled={!preview || preview.errors.length > 0 || isWorking}
+            onClick={() => runImport('commit')}
+          >
+            {isWorking ? 'Working...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Plus, Pencil, Trash2, ArrowLeft, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Sku } from '@/lib/types';
+import { PIXELS_PER_MM } from '@/lib/config';
+import { SkuInput } from '@/lib/sku-catalog';
+import { fetchSkus, createCatalogSku, updateCatalogSku, deleteCatalogSku } from '@/lib/sku-api';
+import { SkuImportDialog } from './components/SkuImportDialog';
+
+const emptySkuInput = (): SkuInput => ({
+  skuId: '',
+  name: '',
+  productType: '',
+  brand: '',
+  widthMM: 60,
+  heightMM: 120,
+  imageUrl: '',
+  constraints: { stackable: false, deletable: true },
+});
+
+const toSkuInput = (sku: Sku): SkuInput => ({
+  skuId: sku.skuId,
+  name: sku.name,
+  productType: sku.productType,
+  brand: sku.brand ?? '',
+  widthMM: sku.widthMM,
+  heightMM: sku.heightMM,
+  imageUrl: sku.imageUrl,
+  constraints: { ...sku.constraints },
+});
+
+// --- Create / edit dialog ---
+function SkuFormDialog({
+  initial,
+  isNew,
+  productTypes,
+  onClose,
+  onSubmit,
+}: {
+  initial: SkuInput | null;
+  isNew: boolean;
+  productTypes: string[];
+  onClose: () => void;
+  onSubmit: (input: SkuInput) => Promise<void>;
+}) {
+  const [form, setForm] = useState<SkuInput>(initial ?? emptySkuInput());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (initial) setForm(initial);
+  }, [initial]);
+
+  const update = (patch: Partial<SkuInput>) => setForm(prev => ({ ...prev, ...patch }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSubmit(form);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!initial} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{isNew ? 'New SKU' : `Edit ${form.skuId}`}</DialogTitle>
+            <DialogDescription>
+              Dimensions are in millimetres. Pixel sizes are derived automatically
+              ({Math.round(form.widthMM * PIXELS_PER_MM) || 0} x {Math.round(form.heightMM * PIXELS_PER_MM) || 0} px).
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3 py-4">
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-700 mb-1">SKU code</span>
+              <Input value={form.skuId} disabled={!isNew} onChange={(e) => update({ skuId: e.target.value })} required />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-700 mb-1">Product type</span>
+              <Input value={form.productType} list="sku-product-types" onChange={(e) => update({ productType: e.target.value })} required />
+              <datalist id="sku-product-types">
+                {productTypes.map(type => <option key={type} value={type} />)}
+              </datalist>
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-700 mb-1">Name</span>
+              <Input value={form.name} onChange={(e) => update({ name: e.target.value })} required />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-700 mb-1">Brand</span>
+              <Input value={form.brand ?? ''} onChange={(e) => update({ brand: e.target.value })} placeholder="e.g. PEPSI" />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-700 mb-1">Width (mm)</span>
+              <Input type="number" min={1} step="any" value={Number.isFinite(form.widthMM) ? form.widthMM : ''}
+                onChange={(e) => update({ widthMM: parseFloat(e.target.value) })} required />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-700 mb-1">Height (mm)</span>
+              <Input type="number" min={1} step="any" value={Number.isFinite(form.heightMM) ? form.heightMM : ''}
+                onChange={(e) => update({ heightMM: parseFloat(e.target.value) })} required />
+            </label>
+            <label className="block col-span-2">
+              <span className="block text-xs font-medium text-gray-700 mb-1">Image URL</span>
+              <div className="flex items-center gap-3">
+                <Input value={form.imageUrl} onChange={(e) => update({ imageUrl: e.target.value })} placeholder="https://..." />
+                {form.imageUrl && <img src={form.imageUrl} alt="" className="h-12 w-12 object-contain border rounded" />}
+              </div>
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.constraints.stackable}
+                onChange={(e) => update({ constraints: { ...form.constraints, stackable: e.target.checked } })} />
+              Stackable
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.constraints.deletable}
+                onChange={(e) => update({ constraints: { ...form.constraints, deletable: e.target.checked } })} />
+              Deletable
+            </label>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={isSaving}>{isSaving ? 'Saving...' : 'Save'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function SkuCatalogPage() {
+  const [skus, setSkus] = useState<Sku[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<{ input: SkuInput; isNew: boolean } | null>(null);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+
+  const loadSkus = useCallback(() => {
+    fetchSkus()
+      .then(setSkus)
+      .catch((error) => toast.error(`Failed to load SKUs: ${error instanceof Error ? error.message : String(error)}`))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadSkus();
+  }, [loadSkus]);
+
+  const productTypes = useMemo(() => Array.from(new Set(skus.map(sku => sku.productType))).sort(), [skus]);
+
+  const filteredSkus = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return skus;
+    return skus.filter(sku =>
+      sku.name.toLowerCase().includes(q) ||
+      sku.skuId.toLowerCase().includes(q) ||
+      sku.productType.toLowerCase().includes(q) ||
+      !!sku.brand?.toLowerCase().includes(q)
+    );
+  }, [skus, query]);
+
+  const handleSubmit = async (input: SkuInput) => {
+    try {
+      if (editing?.isNew) {
+        const created = await createCatalogSku(input);
+        setSkus(prev => [...prev, created]);
+        toast.success(`Created ${created.name}`);
+      } else {
+        const { skuId, ...rest } = input;
+        const updated = await updateCatalogSku(skuId, rest);
+        setSkus(prev => prev.map(sku => (sku.skuId === skuId ? updated : sku)));
+        toast.success(`Saved ${updated.name}`);
+      }
+      setEditing(null);
+    } catch (error) {
+      toast.error(`Save failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDelete = async (sku: Sku) => {
+    if (!window.confirm(`Delete "${sku.name}" (${sku.skuId}) from the catalog?`)) return;
+    try {
+      await deleteCatalogSku(sku.skuId);
+      setSkus(prev => prev.filter(s => s.skuId !== sku.skuId));
+      toast.success(`Deleted ${sku.name}`);
+    } catch (error) {
+      toast.error(`Delete failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        <header className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">SKU Catalog</h1>
+            <p className="text-sm text-gray-600">{skus.length} products available in the editor palette and for AI imports.</p>
+          </div>
+          <Link href="/planogram" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="h-4 w-4" /> Back to editor
+          </Link>
+        </header>
+
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <Input className="max-w-sm bg-white" placeholder="Search by name, code, type or brand..." value={query} onChange={(e) => setQuery(e.target.value)} />
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => setShowImportDialog(true)}>
+              <Upload className="h-4 w-4" /> Import CSV/Excel
+            </Button>
+            <Button type="button" onClick={() => setEditing({ input: emptySkuInput(), isNew: true })}>
+              <Plus className="h-4 w-4" /> New SKU
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg border overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs text-gray-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">Image</th>
+                <th className="px-3 py-2 font-medium">Code</th>
+                <th className="px-3 py-2 font-medium">Name</th>
+                <th className="px-3 py-2 font-medium">Type</th>
+                <th className="px-3 py-2 font-medium">Brand</th>
+                <th className="px-3 py-2 font-medium">Size (mm)</th>
+                <th className="px-3 py-2 font-medium">Stackable</th>
+                <th className="px-3 py-2 font-medium">Deletable</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr><td colSpan={9} className="px-3 py-6 text-center text-gray-500">Loading...</td></tr>
+              ) : filteredSkus.map(sku => (
+                <tr key={sku.skuId} className="border-t">
+                  <td className="px-3 py-1"><img src={sku.imageUrl} alt="" className="h-10 w-10 object-contain" /></td>
+                  <td className="px-3 py-1 font-mono text-xs text-gray-600">{sku.skuId}</td>
+                  <td className="px-3 py-1 font-medium text-gray-800">{sku.name}</td>
+                  <td className="px-3 py-1">{sku.productType}</td>
+                  <td className="px-3 py-1">{sku.brand ?? <span className="text-gray-400">-</span>}</td>
+                  <td className="px-3 py-1">{sku.widthMM} x {sku.heightMM}</td>
+                  <td className="px-3 py-1">{sku.constraints.stackable ? 'Yes' : 'No'}</td>
+                  <td className="px-3 py-1">{sku.constraints.deletable ? 'Yes' : 'No'}</td>
+                  <td className="px-3 py-1 text-right whitespace-nowrap">
+                    <Button type="button" variant="ghost" size="icon" onClick={() => setEditing({ input: toSkuInput(sku), isNew: false })}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => handleDelete(sku)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <SkuFormDialog
+        initial={editing?.input ?? null}
+        isNew={!!editing?.isNew}
+        productTypes={productTypes}
+        onClose={() => setEditing(null)}
+        onSubmit={handleSubmit}
+      />
+      <SkuImportDialog open={showImportDialog} onOpenChange={setShowImportDialog} onImported={loadSkus} />
+    </main>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { DragEvent, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { ArrowLeft, ExternalLink, Play, RotateCcw, Save, Trash2, UploadCloud } from 'lucide-react';
+import clsx from 'clsx';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { usePlanogramStore } from '@/lib/store';
+import { useSkus, useSkuAliases } from '@/lib/hooks';
+import { availableLayoutsData, availableSkus } from '@/lib/planogram-data';
+import { fetchLayouts } from '@/lib/layout-api';
+import { savePlanogram } from '@/lib/planogram-api';
+import { BatchContext, BatchEntry, BatchStatus, useBatchUploadStore } from '@/lib/batch-upload';
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  processing: 'bg-blue-100 text-blue-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+// Planogram name from the photo's file name
+const toPlanogramName = (file: File) => file.name.replace(/\.[^.]+$/, '');
+
+export default function BatchUploadPage() {
+  const router = useRouter();
+  const entries = useBatchUploadStore((state) => state.entries);
+  const isProcessing = useBatchUploadStore((state) => state.isProcessing);
+  const batch = useBatchUploadStore((state) => state.actions);
+  const setPendingImport = usePlanogramStore((state) => state.actions.setPendingImport);
+  const { skus: catalogSkus } = useSkus();
+  const { aliases } = useSkuAliases();
+  const [layouts, setLayouts] = useState<BatchContext['layouts'] | null>(null);
+  const [author, setAuthor] = useState('');
+  const [savingIds, setSavingIds] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Templates are loaded once per run; fall back to the built-in models if the API is unavailable
+  const getContext = async (): Promise<BatchContext> => {
+    const loadedLayouts = layouts ?? await fetchLayouts().catch((error) => {
+      console.warn('[Batch Upload] Could not load layout templates, using built-in models', error);
+      return availableLayoutsData;
+    });
+    setLayouts(loadedLayouts);
+    return { skus: catalogSkus ?? availableSkus, aliases: aliases ?? {}, layouts: loadedLayouts };
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const images = Array.from(files).filter(file => file.type.startsWith('image/'));
+    if (images.length < files.length) {
+      toast.warning(`${files.length - images.length} file(s) skipped: not an image.`);
+    }
+    batch.addFiles(images);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const handleProcess = async () => {
+    await batch.processQueue(await getContext());
+    const { entries: processed } = useBatchUploadStore.getState();
+    const failed = processed.filter(entry => entry.status === 'failed').length;
+    if (failed > 0) {
+      toast.warning(`${failed} photo(s) could not be processed.`);
+    } else {
+      toast.success('All photos processed.');
+    }
+  };
+
+  const handleChooseLayout = async (entry: BatchEntry, layoutId: string) => {
+    batch.chooseLayout(entry.id, layoutId, await getContext());
+  };
+
+  const handleOpen = (entry: BatchEntry) => {
+    const match = entry.matches?.find(candidate => candidate.id === entry.layoutId);
+    if (!entry.refrigerators || !match) return;
+    setPendingImport({
+      layoutId: match.id,
+      layout: entry.refrigerators,
+      layoutData: match.layout,
+      sourcePhoto: entry.photo ?? undefined,
+    });
+    router.push('/planogram');
+  };
+
+  const handleSave = async (entry: BatchEntry) => {
+    if (!entry.refrigerators || !entry.layoutId) return;
+    if (!author.trim()) {
+      toast.error('Enter an author before saving.');
+      return;
+    }
+    setSavingIds(prev => [...prev, entry.id]);
+    const result = await savePlanogram({
+      name: toPlanogramName(entry.file),
+      author: author.trim(),
+      layoutId: entry.layoutId,
+      refrigerators: entry.refrigerators,
+      sourcePhoto: entry.photo ?? undefined,
+    }, null);
+    setSavingIds(prev => prev.filter(id => id !== entry.id));
+
+    if (result.status === 'saved') {
+      batch.markSaved(entry.id, result.planogram);
+      toast.success(`Saved ${result.planogram.name}`);
+    } else {
+      toast.error(`Save failed: ${result.message}`);
+    }
+  };
+
+  const counts = entries.reduce<Record<BatchStatus, number>>(
+    (totals, entry) => ({ ...totals, [entry.status]: totals[entry.status] + 1 }),
+    { queued: 0, processing: 0, done: 0, failed: 0 }
+  );
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        <header className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Batch Upload</h1>
+            <p className="text-sm text-gray-600">
+              {entries.length} photo(s): {counts.queued} queued, {counts.processing} processing, {counts.done} done, {counts.failed} failed.
+            </p>
+          </div>
+          <Link href="/upload" className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="h-4 w-4" /> Single upload
+          </Link>
+        </header>
+
+        <div
+          className={clsx(
+            'mb-4 flex flex-col items-center justify-center rounded-lg border-2 border-dashed bg-white p-6 text-center cursor-pointer',
+            isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+          )}
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
+          <UploadCloud className="h-8 w-8 text-gray-400 mb-2" />
+          <p className="font-semibold text-gray-700">Click to add photos or drag and drop</p>
+          <p className="text-sm text-gray-500">PNG, JPG or WebP. Add as many as you like.</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept="image/png, image/jpeg, image/webp"
+            className="hidden"
+            onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <Input className="max-w-xs bg-white" placeholder="Author for saved planograms" value={author} onChange={(e) => setAuthor(e.target.value)} />
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" disabled={counts.failed === 0 || isProcessing} onClick={batch.retryFailed}>
+              <RotateCcw className="h-4 w-4" /> Retry failed
+            </Button>
+            <Button type="button" variant="outline" disabled={entries.length === 0} onClick={batch.clear}>
+              <Trash2 className="h-4 w-4" /> Clear
+            </Button>
+            <Button type="button" disabled={counts.queued === 0 || isProcessing} onClick={handleProcess}>
+              <Play className="h-4 w-4" /> {isProcessing ? 'Processing...' : `Process ${counts.queued}`}
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg border overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs text-gray-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">Photo</th>
+                <th className="px-3 py-2 font-medium">File</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+                <th className="px-3 py-2 font-medium">Layout</th>
+                <th className="px-3 py-2 font-medium">Shelves</th>
+                <th className="px-3 py-2 font-medium">Unresolved SKUs</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.length === 0 ? (
+                <tr><td colSpan={7} className="px-3 py-6 text-center text-gray-500">No photos added yet.</td></tr>
+              ) : entries.map(entry => (
+                <tr key={entry.id} className="border-t align-middle">
+                  <td className="px-3 py-1"><img src={entry.previewUrl} alt="" className="h-12 w-12 object-cover rounded" /></td>
+                  <td className="px-3 py-1 font-medium text-gray-800 max-w-[14rem] truncate" title={entry.file.name}>
+                    {entry.file.name}
+                    {entry.photoError && <p className="text-xs font-normal text-amber-600">Photo not stored: {entry.photoError}</p>}
+                  </td>
+                  <td className="px-3 py-1">
+                    <span className={clsx('rounded-full px-2 py-0.5 text-xs font-semibold', STATUS_STYLES[entry.status])}>
+                      {entry.status}
+                    </span>
+                    {entry.error && <p className="text-xs text-red-600 mt-1">{entry.error}</p>}
+                  </td>
+                  <td className="px-3 py-1">
+                    {entry.matches && entry.matches.length > 0 ? (
+                      <select
+                        value={entry.layoutId ?? ''}
+                        onChange={(e) => handleChooseLayout(entry, e.target.value)}
+                        className="text-sm border rounded-md px-2 py-1 bg-white max-w-[14rem]"
+                      >
+                        {entry.matches.map(match => (
+                          <option key={match.id} value={match.id}>
+                            {match.layout.name} ({match.score}%{match.isExactShelfCount ? '' : ', shelf count differs'})
+                          </option>
+                        ))}
+                      </select>
+                    ) : <span className="text-gray-400">-</span>}
+                  </td>
+                  <td className="px-3 py-1">{entry.shelfCount ?? <span className="text-gray-400">-</span>}</td>
+                  <td className={clsx('px-3 py-1', entry.unresolvedCount ? 'font-semibold text-amber-600' : '')}>
+                    {entry.unresolvedCount ?? <span className="text-gray-400">-</span>}
+                  </td>
+                  <td className="px-3 py-1 text-right whitespace-nowrap">
+                    {entry.savedPlanogram ? (
+                      <span className="text-xs text-green-700 mr-2">Saved as {entry.savedPlanogram.name}</span>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={entry.status !== 'done' || savingIds.includes(entry.id)}
+                        onClick={() => handleSave(entry)}
+                      >
+                        <Save className="h-4 w-4" /> Save
+                      </Button>
+                    )}
+                    <Button type="button" variant="ghost" size="sm" disabled={entry.status !== 'done'} onClick={() => handleOpen(entry)}>
+                      <ExternalLink className="h-4 w-4" /> Open
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" disabled={entry.status === 'processing'} onClick={() => batch.removeEntry(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </main>
+  );
+}
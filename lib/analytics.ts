@@ -0,0 +1,150 @@
+/**
+ * Shelf Analytics
+ *
+ * Summarises what is on the shelves: facings, stacked units, linear millimetres
+ * occupied and share of shelf width, broken down per SKU, brand and product type,
+ * for each door and for the whole cooler.
+ *
+ * A facing is one stack. When a stack mixes SKUs, each SKU in it counts the
+ * facing and the stack's footprint is split evenly between them, so the linear
+ * totals always add up to the occupied width. Blank spaces are reported
+ * separately and never count as product.
+ */
+
+import { Item, MultiDoorRefrigerator } from './types';
+import { PIXELS_PER_MM } from './config';
+import { getSkuBrand } from './sku-catalog';
+import { compareRowIds } from './layout-templates';
+
+export type AnalyticsDimension = 'sku' | 'brand' | 'productType';
+
+export interface AnalyticsEntry {
+  key: string; // skuId, brand or product type
+  label: string; // Display name
+  facings: number;
+  units: number; // Items including stacked ones
+  linearMM: number;
+  shareOfShelf: number; // Percent of the total shelf width in scope
+}
+
+export interface ScopeAnalytics {
+  scope: string; // 'all' or a door id
+  shelfWidthMM: number; // Sum of row capacities
+  occupiedMM: number; // Product footprint (excludes blank spaces)
+  blankMM: number;
+  facings: number;
+  units: number;
+  breakdown: Record<AnalyticsDimension, AnalyticsEntry[]>; // Sorted by linear mm, largest first
+}
+
+export interface ShelfAnalytics {
+  all: ScopeAnalytics;
+  doors: ScopeAnalytics[];
+}
+
+type Tally = Map<string, { label: string; facings: number; units: number; linearMM: number }>;
+
+const toMM = (px: number) => px / PIXELS_PER_MM;
+
+const addToTally = (tally: Tally, key: string, label: string, facings: number, units: number, linearMM: number) => {
+  const entry = tally.get(key) || { label, facings: 0, units: 0, linearMM: 0 };
+  entry.facings += facings;
+  entry.units += units;
+  entry.linearMM += linearMM;
+  tally.set(key, entry);
+};
+
+const keyOf = (item: Item, dimension: AnalyticsDimension) =>
+  dimension === 'sku' ? item.skuId : dimension === 'brand' ? getSkuBrand(item) : item.productType;
+
+const labelOf = (item: Item, dimension: AnalyticsDimension) =>
+  dimension === 'sku' ? item.name : keyOf(item, dimension);
+
+function analyseScope(scope: string, refrigerators: MultiDoorRefrigerator, doorIds: string[]): ScopeAnalytics {
+  const dimensions: AnalyticsDimension[] = ['sku', 'brand', 'productType'];
+  const tallies: Record<AnalyticsDimension, Tally> = { sku: new Map(), brand: new Map(), productType: new Map() };
+  let shelfWidthPx = 0;
+  let occupiedMM = 0;
+  let blankMM = 0;
+  let facings = 0;
+  let units = 0;
+
+  for (const doorId of doorIds) {
+    for (const row of Object.values(refrigerators[doorId] || {})) {
+      shelfWidthPx += row.capacity;
+
+      for (const stack of row.stacks) {
+        if (stack.length === 0) continue;
+        const footprintMM = toMM(Math.max(...stack.map(item => item.width)));
+        const products = stack.filter(item => item.productType !== 'BLANK');
+        if (products.length === 0) {
+          blankMM += footprintMM;
+          continue;
+        }
+
+        occupiedMM += footprintMM;
+        facings++;
+        units += products.length;
+
+        for (const dimension of dimensions) {
+          const groups = new Map<string, Item[]>();
+          products.forEach(item => groups.set(keyOf(item, dimension), [...(groups.get(keyOf(item, dimension)) || []), item]));
+          groups.forEach((items, key) => {
+            addToTally(tallies[dimension], key, labelOf(items[0], dimension), 1, items.length, footprintMM / groups.size);
+          });
+        }
+      }
+    }
+  }
+
+  const shelfWidthMM = toMM(shelfWidthPx);
+  const breakdown = {} as Record<AnalyticsDimension, AnalyticsEntry[]>;
+  for (const dimension of dimensions) {
+    breakdown[dimension] = Array.from(tallies[dimension].entries())
+      .map(([key, entry]) => ({
+        key,
+        ...entry,
+        shareOfShelf: shelfWidthMM > 0 ? (entry.linearMM / shelfWidthMM) * 100 : 0,
+      }))
+      .sort((a, b) => b.linearMM - a.linearMM || a.key.localeCompare(b.key));
+  }
+
+  return { scope, shelfWidthMM, occupiedMM, blankMM, facings, units, breakdown };
+}
+
+/**
+ * Compute analytics for the whole cooler and for each door.
+ */
+export function computeShelfAnalytics(refrigerators: MultiDoorRefrigerator): ShelfAnalytics {
+  const doorIds = Object.keys(refrigerators).sort(compareRowIds);
+  return {
+    all: analyseScope('all', refrigerators, doorIds),
+    doors: doorIds.map(doorId => analyseScope(doorId, refrigerators, [doorId])),
+  };
+}
+
+/**
+ * Flatten analytics into CSV rows (header first): every scope x dimension x entry.
+ */
+export function analyticsToCsvRows(analytics: ShelfAnalytics): (string | number)[][] {
+  const rows: (string | number)[][] = [
+    ['Scope', 'Dimension', 'Key', 'Name', 'Facings', 'Units', 'Linear mm', 'Share of shelf %'],
+  ];
+  for (const scope of [analytics.all, ...analytics.doors]) {
+    for (const dimension of ['sku', 'brand', 'productType'] as AnalyticsDimension[]) {
+      for (const entry of scope.breakdown[dimension]) {
+        rows.push([
+          scope.scope,
+          dimension,
+          entry.key,
+          entry.label,
+          entry.facings,
+          entry.units,
+          Math.round(entry.linearMM),
+          Math.round(entry.shareOfShelf * 10) / 10,
+        ]);
+      }
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,187 @@
+/**
+ * Auto-fill Generator
+ *
+ * Builds a complete planogram from the SKU catalog. Must-stock SKUs are placed
+ * first, then facings are handed out one at a time to whichever brand (or
+ * product type) is furthest below its target share of shelf width. Every
+ * placement respects row capacity, maxHeight, allowedProductTypes and
+ * stackability, so the result passes the dimension checks in validation.ts.
+ */
+
+import { Item, MultiDoorRefrigerator, Row, Sku } from './types';
+import { compareRowIds } from './layout-templates';
+import { getSkuBrand } from './sku-catalog';
+import { STACK_GAP, generateUniqueId } from './validation';
+
+export type AutoFillGroupBy = 'brand' | 'productType';
+
+export interface AutoFillOptions {
+  groupBy: AutoFillGroupBy;
+  // Target share of shelf width per group, in percent. Groups without a target
+  // split whatever is left of 100%; a target of 0 leaves the group out.
+  targets: { [group: string]: number };
+  mustStockSkuIds: string[];
+  allowStacking: boolean; // Stack stackable SKUs up to the row's maxHeight
+}
+
+export interface AutoFillResult {
+  refrigerators: MultiDoorRefrigerator;
+  facingCount: number;
+  missingMustStock: string[]; // Must-stock SKU ids that fit in no row
+  achievedShare: { [group: string]: number }; // Percent of the filled shelf width
+}
+
+// A row being filled, with the width already taken (stacks + gaps)
+interface RowSlot {
+  row: Row;
+  usedWidth: number;
+}
+
+export const getSkuGroup = (sku: Pick<Sku, 'brand' | 'name' | 'productType'>, groupBy: AutoFillGroupBy): string =>
+  groupBy === 'brand' ? getSkuBrand(sku) : sku.productType;
+
+const canPlace = (slot: RowSlot, sku: Sku): boolean => {
+  const { row } = slot;
+  if (row.allowedProductTypes !== 'all' && !row.allowedProductTypes.includes(sku.productType)) return false;
+  if (sku.height > row.maxHeight) return false;
+  const gap = row.stacks.length > 0 ? STACK_GAP : 0;
+  return slot.usedWidth + gap + sku.width <= row.capacity;
+};
+
+// Prefer shelves dedicated to the SKU's product type, then the emptiest shelf
+const pickSlot = (slots: RowSlot[], sku: Sku): RowSlot | null => {
+  let best: RowSlot | null = null;
+  for (const slot of slots) {
+    if (!canPlace(slot, sku)) continue;
+    if (!best) {
+      best = slot;
+      continue;
+    }
+    const isDedicated = slot.row.allowedProductTypes !== 'all';
+    const bestIsDedicated = best.row.allowedProductTypes !== 'all';
+    if (isDedicated !== bestIsDedicated) {
+      if (isDedicated) best = slot;
+      continue;
+    }
+    if (slot.row.capacity - slot.usedWidth > best.row.capacity - best.usedWidth) best = slot;
+  }
+  return best;
+};
+
+const placeFacing = (slot: RowSlot, sku: Sku, allowStacking: boolean) => {
+  const count = allowStacking && sku.constraints.stackable
+    ? Math.max(1, Math.floor(slot.row.maxHeight / sku.height))
+    : 1;
+  const stack: Item[] = Array.from({ length: count }, () => ({ ...sku, id: generateUniqueId(sku.skuId) }));
+
+  slot.usedWidth += (slot.row.stacks.length > 0 ? STACK_GAP : 0) + sku.width;
+  slot.row.stacks.push(stack);
+};
+
+/**
+ * Resolve the share (percent) each group should get.
+ * Groups without an explicit target split the remainder evenly.
+ */
+export function resolveTargetShares(groups: string[], targets: { [group: string]: number }): { [group: string]: number } {
+  const explicitGroups = groups.filter(group => targets[group] !== undefined);
+  const implicitGroups = groups.filter(group => targets[group] === undefined);
+  const explicitTotal = explicitGroups.reduce((sum, group) => sum + Math.max(0, targets[group]), 0);
+  const remainder = Math.max(0, 100 - explicitTotal);
+
+  const shares: { [group: string]: number } = {};
+  explicitGroups.forEach(group => { shares[group] = Math.max(0, targets[group]); });
+  implicitGroups.forEach(group => { shares[group] = remainder / implicitGroups.length; });
+  return shares;
+}
+
+/**
+ * Generate a filled planogram for the doors/rows of `template`.
+ * Existing items in the template are discarded.
+ */
+export function generateAutoFill(template: MultiDoorRefrigerator, skus: Sku[], options: AutoFillOptions): AutoFillResult {
+  // Fresh copy of the layout with empty shelves, top row of door-1 first
+  const refrigerators: MultiDoorRefrigerator = {};
+  const slots: RowSlot[] = [];
+  for (const doorId of Object.keys(template).sort(compareRowIds)) {
+    refrigerators[doorId] = {};
+    for (const rowId of Object.keys(template[doorId]).sort(compareRowIds)) {
+      const row: Row = { ...template[doorId][rowId], stacks: [] };
+      refrigerators[doorId][rowId] = row;
+      slots.push({ row, usedWidth: 0 });
+    }
+  }
+
+  // Blank spaces are fillers, not products; zero-sized SKUs would never use up space
+  const candidates = skus.filter(sku => sku.productType !== 'BLANK' && sku.width > 0 && sku.height > 0);
+  const groupOf = (sku: Sku) => getSkuGroup(sku, options.groupBy);
+  const placedWidth: { [group: string]: number } = {};
+  let facingCount = 0;
+
+  const place = (slot: RowSlot, sku: Sku) => {
+    placeFacing(slot, sku, options.allowStacking);
+    placedWidth[groupOf(sku)] = (placedWidth[groupOf(sku)] || 0) + sku.width;
+    facingCount++;
+  };
+
+  // 1. Must-stock SKUs get one facing each, regardless of targets
+  const missingMustStock: string[] = [];
+  for (const skuId of options.mustStockSkuIds) {
+    const sku = candidates.find(candidate => candidate.skuId === skuId);
+    const slot = sku ? pickSlot(slots, sku) : null;
+    if (sku && slot) {
+      place(slot, sku);
+    } else {
+      missingMustStock.push(skuId);
+    }
+  }
+
+  // 2. Hand out facings to the group furthest below its target until nothing fits
+  const skusByGroup = new Map<string, Sku[]>();
+  for (const sku of candidates) {
+    const group = groupOf(sku);
+    skusByGroup.set(group, [...(skusByGroup.get(group) || []), sku]);
+  }
+  const shares = resolveTargetShares(Array.from(skusByGroup.keys()), options.targets);
+  const nextSkuIndex = new Map<string, number>();
+  const exhausted = new Set<string>();
+
+  while (true) {
+    const group = Array.from(skusByGroup.keys())
+      .filter(g => shares[g] > 0 && !exhausted.has(g))
+      .sort((a, b) => (placedWidth[a] || 0) / shares[a] - (placedWidth[b] || 0) / shares[b] || a.localeCompare(b))[0];
+    if (!group) break;
+
+    // Rotate through the group's SKUs so every product gets facings
+    const groupSkus = skusByGroup.get(group)!;
+    const start = nextSkuIndex.get(group) || 0;
+    let placed = false;
+    for (let offset = 0; offset < groupSkus.length && !placed; offset++) {
+      const sku = groupSkus[(start + offset) % groupSkus.length];
+      const slot = pickSlot(slots, sku);
+      if (slot) {
+        place(slot, sku);
+        nextSkuIndex.set(group, (start + offset + 1) % groupSkus.length);
+        placed = true;
+      }
+    }
+    if (!placed) exhausted.add(group);
+  }
+
+  // 3. Block each shelf by group (largest target first), then by SKU
+  const groupOrder = Object.keys(shares).sort((a, b) => shares[b] - shares[a] || a.localeCompare(b));
+  const rankOf = (item: Item) => {
+    const index = groupOrder.indexOf(getSkuGroup(item, options.groupBy));
+    return index === -1 ? groupOrder.length : index;
+  };
+  for (const { row } of slots) {
+    row.stacks.sort((a, b) => rankOf(a[0]) - rankOf(b[0]) || a[0].skuId.localeCompare(b[0].skuId));
+  }
+
+  const totalWidth = Object.values(placedWidth).reduce((sum, width) => sum + width, 0);
+  const achievedShare: { [group: string]: number } = {};
+  for (const group of Object.keys(placedWidth)) {
+    achievedShare[group] = totalWidth > 0 ? (placedWidth[group] / totalWidth) * 100 : 0;
+  }
+
+  return { refrigerators, facingCount, missingMustStock, achievedShare };
+}
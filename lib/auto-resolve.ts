@@ -0,0 +1,260 @@
+/**
+ * Conflict Auto-resolve
+ *
+ * Moves conflicting stacks to the nearest shelf that takes them instead of
+ * deleting them. "Nearest" means the same door first (closest shelf number),
+ * then the neighbouring doors. A shelf takes a stack when it allows every
+ * product type in it, is tall enough, has spare width and breaks no 'error'
+ * merchandising rule. A stack that fits nowhere as a whole is unstacked and
+ * its items are placed one by one (re-stacked where the target shelf allows);
+ * whatever still doesn't fit goes to the holding area.
+ *
+ * Conflicting stacks that already fit where they are (e.g. an adjacency rule)
+ * are left in place, since moving them wouldn't fix anything. Blank spaces in
+ * conflicting stacks are dropped rather than moved.
+ */
+
+import { Item, MultiDoorRefrigerator, Row } from './types';
+import { compareRowIds } from './layout-templates';
+import { MerchandisingRule, getPlacementRuleViolation } from './merchandising-rules';
+import { STACK_GAP, getStackWidth, getUsedWidth } from './validation';
+
+export interface ShelfLocation {
+  doorId: string;
+  rowId: string;
+}
+
+// Items set aside because no shelf could take them
+export interface HeldStack {
+  id: string;
+  items: Item[];
+  from: ShelfLocation; // Shelf they came from; placement starts looking there
+}
+
+export interface RelocationMove {
+  itemIds: string[];
+  skuName: string;
+  from: ShelfLocation;
+  to: ShelfLocation;
+}
+
+export interface RelocationResult {
+  refrigerators: MultiDoorRefrigerator;
+  moves: RelocationMove[];
+  held: HeldStack[];
+  unstackedCount: number; // Stacks that had to be split up
+  leftInPlaceCount: number; // Conflicting stacks that already fit their shelf
+  removedBlankCount: number;
+}
+
+const getStackHeight = (stack: Item[]) => stack.reduce((sum, item) => sum + item.height, 0);
+
+const generateHeldId = () => `held-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const isTypeAllowed = (row: Row, item: Item) =>
+  item.productType === 'BLANK' || row.allowedProductTypes === 'all' || row.allowedProductTypes.includes(item.productType);
+
+// Copy doors, rows and stack lists so they can be edited; items themselves are never changed
+const copyRefrigerators = (refrigerators: MultiDoorRefrigerator): MultiDoorRefrigerator => {
+  const copy: MultiDoorRefrigerator = {};
+  for (const doorId of Object.keys(refrigerators)) {
+    copy[doorId] = {};
+    for (const rowId of Object.keys(refrigerators[doorId])) {
+      const row = refrigerators[doorId][rowId];
+      copy[doorId][rowId] = { ...row, stacks: row.stacks.map(stack => [...stack]) };
+    }
+  }
+  return copy;
+};
+
+// Working state shared by one relocation pass
+interface RelocationContext {
+  refrigerators: MultiDoorRefrigerator; // Working copy, edited in place
+  rules: MerchandisingRule[];
+  doorIds: string[];
+  moves: RelocationMove[];
+  held: HeldStack[];
+  unstackedCount: number;
+}
+
+const createContext = (refrigerators: MultiDoorRefrigerator, rules: MerchandisingRule[]): RelocationContext => ({
+  refrigerators: copyRefrigerators(refrigerators),
+  rules,
+  doorIds: Object.keys(refrigerators).sort(compareRowIds),
+  moves: [],
+  held: [],
+  unstackedCount: 0,
+});
+
+/**
+ * Whether a stack could stand on a shelf as a new facing (ignoring width).
+ */
+function accepts(context: RelocationContext, location: ShelfLocation, stack: Item[], movingStackId?: string): boolean {
+  const row = context.refrigerators[location.doorId]?.[location.rowId];
+  if (!row) return false;
+  if (!stack.every(item => isTypeAllowed(row, item))) return false;
+  if (getStackHeight(stack) > row.maxHeight) return false;
+  return stack.every(item => !getPlacementRuleViolation(context.rules, context.refrigerators, item, location, true, movingStackId));
+}
+
+// Every shelf, nearest to the origin first: same door by shelf distance, then other doors
+function getCandidates(context: RelocationContext, origin: ShelfLocation): ShelfLocation[] {
+  const originDoorIndex = Math.max(0, context.doorIds.indexOf(origin.doorId));
+  const candidates: { location: ShelfLocation; distance: number }[] = [];
+  context.doorIds.forEach((doorId, doorIndex) => {
+    const rowIds = Object.keys(context.refrigerators[doorId]).sort(compareRowIds);
+    const referenceRow = Math.max(0, doorId === origin.doorId ? rowIds.indexOf(origin.rowId) : 0);
+    rowIds.forEach((rowId, rowIndex) => {
+      candidates.push({
+        location: { doorId, rowId },
+        distance: Math.abs(doorIndex - originDoorIndex) * 1000 + Math.abs(rowIndex - referenceRow),
+      });
+    });
+  });
+  return candidates.sort((a, b) => a.distance - b.distance).map(candidate => candidate.location);
+}
+
+function findShelf(context: RelocationContext, stack: Item[], origin: ShelfLocation): ShelfLocation | null {
+  const width = getStackWidth(stack);
+  return getCandidates(context, origin).find(location => {
+    const row = context.refrigerators[location.doorId][location.rowId];
+    const gap = row.stacks.length > 0 ? STACK_GAP : 0;
+    return getUsedWidth(row) + gap + width <= row.capacity && accepts(context, location, stack);
+  }) ?? null;
+}
+
+function addStack(context: RelocationContext, stack: Item[], from: ShelfLocation, to: ShelfLocation) {
+  context.refrigerators[to.doorId][to.rowId].stacks.push(stack);
+  context.moves.push({ itemIds: stack.map(item => item.id), skuName: stack[0].name, from, to });
+}
+
+/**
+ * Place a stack that is not on any shelf. Tries the whole stack first, then
+ * item by item. Returns the items that fit nowhere.
+ */
+function placeStack(context: RelocationContext, stack: Item[], origin: ShelfLocation): Item[] {
+  const target = findShelf(context, stack, origin);
+  if (target) {
+    addStack(context, stack, origin, target);
+    return [];
+  }
+  if (stack.length === 1) return stack;
+
+  context.unstackedCount++;
+  const leftover: Item[] = [];
+  let piece: { stack: Item[]; location: ShelfLocation } | null = null;
+  for (const item of stack) {
+    // Keep re-stacking onto the last placed piece while the shelf is tall enough
+    if (piece && item.constraints.stackable) {
+      const row = context.refrigerators[piece.location.doorId][piece.location.rowId];
+      const fitsOnPiece = getStackHeight(piece.stack) + item.height <= row.maxHeight
+        && isTypeAllowed(row, item)
+        && !getPlacementRuleViolation(context.rules, context.refrigerators, item, piece.location, false);
+      if (fitsOnPiece) {
+        piece.stack.push(item);
+        context.moves[context.moves.length - 1].itemIds.push(item.id);
+        continue;
+      }
+    }
+
+    const location = findShelf(context, [item], origin);
+    if (!location) {
+      leftover.push(item);
+      piece = null;
+      continue;
+    }
+    const newStack = [item];
+    addStack(context, newStack, origin, location);
+    piece = { stack: newStack, location };
+  }
+  return leftover;
+}
+
+function holdItems(context: RelocationContext, items: Item[], from: ShelfLocation) {
+  if (items.length > 0) context.held.push({ id: generateHeldId(), items, from });
+}
+
+const toResult = (context: RelocationContext, leftInPlaceCount: number, removedBlankCount: number): RelocationResult => ({
+  refrigerators: context.refrigerators,
+  moves: context.moves,
+  held: context.held,
+  unstackedCount: context.unstackedCount,
+  leftInPlaceCount,
+  removedBlankCount,
+});
+
+/**
+ * Relocate every stack containing a conflicting item.
+ * @param conflictItemIds Items flagged by the conflict checks
+ * @param rules Merchandising rules; only 'error' rules limit where stacks may go
+ */
+export function relocateConflicts(
+  refrigerators: MultiDoorRefrigerator,
+  conflictItemIds: string[],
+  rules: MerchandisingRule[] = [],
+): RelocationResult {
+  const conflictIds = new Set(conflictItemIds);
+  const context = createContext(refrigerators, rules);
+  const working = context.refrigerators;
+  const toRelocate: { stack: Item[]; from: ShelfLocation }[] = [];
+  let leftInPlaceCount = 0;
+  let removedBlankCount = 0;
+
+  // Pass 1: take conflicting stacks off their shelves, left to right, unless they
+  // already fit where they are once the stacks before them have been taken off
+  for (const doorId of Object.keys(working).sort(compareRowIds)) {
+    for (const rowId of Object.keys(working[doorId]).sort(compareRowIds)) {
+      const row = working[doorId][rowId];
+      const kept: Item[][] = [];
+      let usedWidth = 0;
+      for (const stack of row.stacks) {
+        const width = getStackWidth(stack) + (kept.length > 0 ? STACK_GAP : 0);
+        const isConflicting = stack.some(item => conflictIds.has(item.id));
+        if (isConflicting && !(usedWidth + width <= row.capacity && accepts(context, { doorId, rowId }, stack, stack[0]?.id))) {
+          toRelocate.push({ stack, from: { doorId, rowId } });
+          continue;
+        }
+        if (isConflicting) leftInPlaceCount++;
+        kept.push(stack);
+        usedWidth += width;
+      }
+      row.stacks = kept;
+    }
+  }
+
+  // Pass 2: find each stack a new shelf
+  for (const { stack, from } of toRelocate) {
+    const products = stack.filter(item => item.productType !== 'BLANK');
+    removedBlankCount += stack.length - products.length;
+    if (products.length === 0) continue;
+    holdItems(context, placeStack(context, products, from), from);
+  }
+
+  return toResult(context, leftInPlaceCount, removedBlankCount);
+}
+
+/**
+ * Try to put held stacks back on the shelves, nearest to where they came from.
+ * Items that still fit nowhere stay held.
+ */
+export function placeHeldStacks(
+  refrigerators: MultiDoorRefrigerator,
+  heldStacks: HeldStack[],
+  rules: MerchandisingRule[] = [],
+): RelocationResult {
+  const context = createContext(refrigerators, rules);
+  for (const held of heldStacks) {
+    const leftover = placeStack(context, held.items, held.from);
+    // Keep the held entry's id when nothing could be placed
+    if (leftover.length === held.items.length) context.held.push(held);
+    else holdItems(context, leftover, held.from);
+  }
+
+  return toResult(context, 0, 0);
+}
+
+/**
+ * "Door 1, Shelf 2" (door omitted for single-door coolers).
+ */
+export const describeShelfLocation = (location: ShelfLocation, isMultiDoor: boolean) =>
+  `${isMultiDoor ? `${location.doorId.replace('door-', 'Door ')}, ` : ''}Shelf ${location.rowId.replace('row-', '')}`;
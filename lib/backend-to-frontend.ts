@@ -1,6 +1,13 @@
-import { Refrigerator, Sku, Item, LayoutData, Row, MultiDoorRefrigerator } from './types';
+import { Refrigerator, Sku, Item, LayoutData, Row, MultiDoorRefrigerator, DoorConfig } from './types';
 import { produce } from 'immer';
-import { ENABLE_MULTI_DOOR_DETECTION } from './config';
+import { ENABLE_MULTI_DOOR_DETECTION, PIXEL_RATIO, PIXELS_PER_MM } from './config';
+import { DEFAULT_SKU_IMAGE, SkuAliases, UNKNOWN_PRODUCT_TYPE } from './sku-catalog';
+import { parseConfidence } from './detection-review';
+import { compareRowIds } from './layout-templates';
+import { BLANK_SKU_ID, DEFAULT_BLANK_SKU, MIN_BLANK_WIDTH, clampBlankWidth, createBlankItem, getMaxBlankWidth } from './blank-space';
+import { BackendOutput, BackendProduct, unscaleBackendBoundingBoxes } from './backend-transform';
+import { getDoorConfigs, getTotalWidth } from './multi-door-utils';
+import { isRecord } from './utils';
 
 // --- Define AI Data Structure ---
 // These types match the AI's JSON response
@@ -60,6 +67,129 @@ function createItemFromSku(sku: Sku): Item {
     };
 }
 
+/**
+ * Keeps the detection's confidence on an imported item so low-confidence
+ * detections can be reviewed, and its bounding box so the item can be found
+ * on the source photo.
+ */
+function withDetection(item: Item, aiProduct: AIBackendProduct): Item {
+    const confidence = parseConfidence(aiProduct.Confidence);
+    const box = aiProduct["Bounding-Box"];
+    const detected: Item = box && box.length > 0 ? { ...item, detectionBox: box } : item;
+    return confidence === undefined ? detected : { ...detected, confidence, reviewStatus: 'unreviewed' };
+}
+
+// Size used for an unknown detection without a usable bounding box
+const FALLBACK_PLACEHOLDER_MM = { width: 60, height: 150 };
+
+/**
+ * Creates a placeholder Item for a detection whose SKU-Code isn't in the
+ * catalog, sized from its bounding box, so the facing isn't lost.
+ */
+function createPlaceholderItem(aiProduct: AIBackendProduct, boundingBoxScale: number): Item {
+    const skuCode = aiProduct["SKU-Code"];
+    const xs = (aiProduct["Bounding-Box"] || []).map(point => point[0]);
+    const ys = (aiProduct["Bounding-Box"] || []).map(point => point[1]);
+    const detectedWidth = xs.length > 0 ? (Math.max(...xs) - Math.min(...xs)) / boundingBoxScale : 0;
+    const detectedHeight = ys.length > 0 ? (Math.max(...ys) - Math.min(...ys)) / boundingBoxScale : 0;
+    const width = detectedWidth > 0 ? detectedWidth : FALLBACK_PLACEHOLDER_MM.width * PIXELS_PER_MM;
+    const height = detectedHeight > 0 ? detectedHeight : FALLBACK_PLACEHOLDER_MM.height * PIXELS_PER_MM;
+
+    return {
+        id: generateUniqueId(skuCode),
+        skuId: skuCode,
+        name: aiProduct.product?.trim() || `Unknown ${skuCode}`,
+        width: Math.round(width),
+        height: Math.round(height),
+        widthMM: Math.round(width / PIXELS_PER_MM),
+        heightMM: Math.round(height / PIXELS_PER_MM),
+        imageUrl: DEFAULT_SKU_IMAGE,
+        productType: UNKNOWN_PRODUCT_TYPE,
+        constraints: { stackable: true, deletable: true },
+        detectedSkuCode: skuCode,
+    };
+}
+
+/**
+ * Builds the SKU lookup used by the converters: catalog ids first, then
+ * remembered aliases for codes the catalog doesn't know.
+ */
+function createSkuLookup(availableSkus: Sku[], aliases: SkuAliases): (skuCode: string) => Sku | undefined {
+    const skuMap = new Map<string, Sku>();
+    for (const sku of availableSkus) {
+        skuMap.set(sku.skuId, sku);
+    }
+    return (skuCode) => skuMap.get(skuCode) ?? (aliases[skuCode] ? skuMap.get(aliases[skuCode]) : undefined);
+}
+
+// Horizontal extent of a detection on the photo, or null without a usable bounding box
+function getDetectionExtent(aiProduct: AIBackendProduct): { left: number; right: number } | null {
+    const xs = (aiProduct["Bounding-Box"] || []).map(point => point[0]);
+    return xs.length > 0 ? { left: Math.min(...xs), right: Math.max(...xs) } : null;
+}
+
+// A shelf position: a detected stack, or empty space of `blankWidth` frontend pixels
+type ShelfSlot = { aiProduct: AIBackendProduct } | { blankWidth: number };
+
+/**
+ * Lays a section's detections out left to right and measures the empty space
+ * between them, so gaps in the cooler survive the import. Empty detections
+ * count as empty space. A gap before the first product is only known when the
+ * section outline is. Widths are photo pixels / boundingBoxScale, less the 1px
+ * gap the editor leaves between stacks; gaps narrower than a minimum blank are noise.
+ */
+function getShelfSlots(
+    section: AIBackendSection,
+    boundingBoxScale: number,
+    isEmpty: (aiProduct: AIBackendProduct) => boolean
+): ShelfSlot[] {
+    const detections = section.products.map(aiProduct => ({ aiProduct, extent: getDetectionExtent(aiProduct) }));
+
+    // Without positions for every detection, keep the detection order and only turn empties into blanks
+    if (detections.some(detection => !detection.extent)) {
+        return detections.map(({ aiProduct, extent }) => isEmpty(aiProduct)
+            ? { blankWidth: extent ? (extent.right - extent.left) / boundingBoxScale : MIN_BLANK_WIDTH }
+            : { aiProduct });
+    }
+
+    detections.sort((a, b) => a.extent!.left - b.extent!.left);
+
+    const slots: ShelfSlot[] = [];
+    const sectionXs = (section.data || []).map(point => point[0]);
+    let cursor: number | null = sectionXs.length > 0 ? Math.min(...sectionXs) : null; // Right edge of the last stack
+    let emptyFrom: number | null = null; // Start of the empty space being measured
+    let hasStackBefore = false;
+
+    const closeEmptySpace = (to: number, hasStackAfter: boolean, isDetected: boolean) => {
+        if (emptyFrom === null) return;
+        const stackGaps = (hasStackBefore ? 1 : 0) + (hasStackAfter ? 1 : 0);
+        const width = (to - emptyFrom) / boundingBoxScale - stackGaps;
+        if (width >= MIN_BLANK_WIDTH || isDetected) slots.push({ blankWidth: Math.max(width, MIN_BLANK_WIDTH) });
+        emptyFrom = null;
+    };
+
+    let lastEmptyRight: number | null = null;
+    for (const { aiProduct, extent } of detections) {
+        if (isEmpty(aiProduct)) {
+            // Empty detections widen the empty space up to their right edge
+            if (emptyFrom === null) emptyFrom = cursor ?? extent!.left;
+            lastEmptyRight = Math.max(lastEmptyRight ?? extent!.right, extent!.right);
+            continue;
+        }
+        if (emptyFrom === null && cursor !== null) emptyFrom = cursor;
+        closeEmptySpace(extent!.left, true, lastEmptyRight !== null);
+        lastEmptyRight = null;
+
+        slots.push({ aiProduct });
+        cursor = cursor === null ? extent!.right : Math.max(cursor, extent!.right);
+        hasStackBefore = true;
+    }
+    // Empty detections after the last product; any other space on the right is left free anyway
+    if (lastEmptyRight !== null) closeEmptySpace(lastEmptyRight, false, true);
+
+    return slots;
+}
+
 /**
  * Detects if the AI backend data contains multiple doors.
  * @param aiData The raw JSON data from the AI backend.
@@ -82,10 +212,16 @@ export function isMultiDoorAIData(aiData: AIBackendData): boolean {
 function convertSingleDoorData(
     aiSections: AIBackendSection[],
     layoutTemplate: Refrigerator,
-    skuMap: Map<string, Sku>,
+    findSku: (skuCode: string) => Sku | undefined,
+    boundingBoxScale: number,
     doorName: string
 ): Refrigerator {
-    const layoutRowIds = Object.keys(layoutTemplate).sort();
+    const layoutRowIds = Object.keys(layoutTemplate).sort(compareRowIds);
+
+    // Empty space (shelfscan_0000 "Empty" detections, or blanks from a re-imported export) becomes sized blanks
+    const blankSku = findSku(BLANK_SKU_ID) ?? DEFAULT_BLANK_SKU;
+    const isEmptyDetection = (aiProduct: AIBackendProduct) =>
+        aiProduct["SKU-Code"] === "shelfscan_0000" || aiProduct.product === "Empty" || findSku(aiProduct["SKU-Code"])?.productType === 'BLANK';
 
     // Create the new refrigerator state using Immer for safe mutation
     const newRefrigerator = produce(layoutTemplate, draft => {
@@ -109,26 +245,29 @@ function convertSingleDoorData(
             }            const row = draft[rowId];
             if (!row) return;
 
-            // Iterate over each "product" (which represents one stack)
-            for (const aiProductStack of section.products) {
+            // Gaps are sized once every product is on the shelf, so they only take the space the products leave
+            const pendingBlanks: { stackIndex: number; width: number }[] = [];
+
+            // Iterate over each "product" (which represents one stack), left to right
+            for (const slot of getShelfSlots(section, boundingBoxScale, isEmptyDetection)) {
+                if ('blankWidth' in slot) {
+                    pendingBlanks.push({ stackIndex: row.stacks.length, width: slot.blankWidth });
+                    continue;
+                }
+
+                const aiProductStack = slot.aiProduct;
                 const newStack: Item[] = [];
 
                 // Check the main (bottom) product
                 const bottomSkuCode = aiProductStack["SKU-Code"];
-                
-                // Skip empty shelves (shelfscan_0000)
-                if (bottomSkuCode === "shelfscan_0000" || aiProductStack.product === "Empty") {
-                    console.log(`[Converter] ${doorName}: Skipping empty space`);
-                    continue;
-                }
-                
-                const bottomSku = skuMap.get(bottomSkuCode);
+                const bottomSku = findSku(bottomSkuCode);
 
                 if (bottomSku) {
                     console.log(`[Converter] ${doorName}: Matched SKU: ${bottomSkuCode}`);
-                    newStack.push(createItemFromSku(bottomSku));
+                    newStack.push(withDetection(createItemFromSku(bottomSku), aiProductStack));
                 } else {
-                    console.warn(`[Converter] ${doorName}: SKIPPED SKU (not found): ${bottomSkuCode}`);
+                    console.warn(`[Converter] ${doorName}: Unknown SKU, adding placeholder: ${bottomSkuCode}`);
+                    newStack.push(withDetection(createPlaceholderItem(aiProductStack, boundingBoxScale), aiProductStack));
                 }
 
                 // Check the stacked items
@@ -141,13 +280,14 @@ function convertSingleDoorData(
                             continue;
                         }
                         
-                        const stackedSku = skuMap.get(stackedSkuCode);
+                        const stackedSku = findSku(stackedSkuCode);
 
                         if (stackedSku) {
                             console.log(`[Converter] ${doorName}: Matched Stacked SKU: ${stackedSkuCode}`);
-                            newStack.push(createItemFromSku(stackedSku));
+                            newStack.push(withDetection(createItemFromSku(stackedSku), aiStackedItem));
                         } else {
-                            console.warn(`[Converter] ${doorName}: SKIPPED Stacked SKU (not found): ${stackedSkuCode}`);
+                            console.warn(`[Converter] ${doorName}: Unknown stacked SKU, adding placeholder: ${stackedSkuCode}`);
+                            newStack.push(withDetection(createPlaceholderItem(aiStackedItem, boundingBoxScale), aiStackedItem));
                         }
                     }
                 }
@@ -157,6 +297,19 @@ function convertSingleDoorData(
                     row.stacks.push(newStack);
                 }
             }
+
+            // Insert the gaps left to right, each clamped to the space still free
+            let insertedBlanks = 0;
+            for (const blank of pendingBlanks) {
+                const maxWidth = getMaxBlankWidth(row);
+                if (maxWidth < MIN_BLANK_WIDTH) {
+                    console.warn(`[Converter] ${doorName}: No room left on ${rowId} for a ${Math.round(blank.width / PIXELS_PER_MM)}mm gap`);
+                    continue;
+                }
+                const blankItem = createBlankItem(blankSku, generateUniqueId(BLANK_SKU_ID), clampBlankWidth(blank.width, maxWidth), row);
+                row.stacks.splice(blank.stackIndex + insertedBlanks, 0, [blankItem]);
+                insertedBlanks++;
+            }
         });
     });
 
@@ -170,20 +323,20 @@ function convertSingleDoorData(
  * @param aiData The raw JSON data from the AI backend (with Door-1 and Door-2).
  * @param availableSkus The list of all available SKUs.
  * @param chosenLayout The layout data with multi-door configuration.
+ * @param aliases Remembered SKU-Code aliases; codes matching neither become placeholder items.
  * @returns A fully formed MultiDoorRefrigerator object.
  */
 export function convertMultiDoorBackendToFrontend(
     aiData: AIBackendData,
     availableSkus: Sku[],
-    chosenLayout: LayoutData
+    chosenLayout: LayoutData,
+    aliases: SkuAliases = {}
 ): MultiDoorRefrigerator {
     console.log(`[Multi-Door Converter] Starting conversion using layout: ${chosenLayout.name}`);
     
-    // 1. Create a SKU Map for fast lookups
-    const skuMap = new Map<string, Sku>();
-    for (const sku of availableSkus) {
-        skuMap.set(sku.skuId, sku);
-    }
+    // 1. Create a SKU lookup (catalog ids, then aliases)
+    const findSku = createSkuLookup(availableSkus, aliases);
+    const boundingBoxScale = aiData.dimensions?.BoundingBoxScale || PIXEL_RATIO;
     
     // 2. Get door configurations from layout
     const doorConfigs = chosenLayout.doors;
@@ -222,7 +375,8 @@ export function convertMultiDoorBackendToFrontend(
         const doorLayout = convertSingleDoorData(
             aiDoor.Sections,
             doorConfig.layout,
-            skuMap,
+            findSku,
+            boundingBoxScale,
             aiDoorKey
         );
         
@@ -241,21 +395,20 @@ export function convertMultiDoorBackendToFrontend(
  * @param aiData The raw JSON data from the AI backend.
  * @param availableSkus The list of all available SKUs (from demo-sku.ts).
  * @param chosenLayout The specific layout (e.g., 'g-7f') chosen by the user or matched automatically.
+ * @param aliases Remembered SKU-Code aliases; codes matching neither become placeholder items.
  * @returns A fully formed Refrigerator object for the Zustand store.
  */
 export function convertBackendToFrontend(
     aiData: AIBackendData,
     availableSkus: Sku[],
-    chosenLayout: LayoutData
+    chosenLayout: LayoutData,
+    aliases: SkuAliases = {}
 ): Refrigerator {
 
     console.log(`[Converter] Starting conversion using layout: ${chosenLayout.name}`);
 
-    // 1. Create a SKU Map for fast lookups
-    const skuMap = new Map<string, Sku>();
-    for (const sku of availableSkus) {
-        skuMap.set(sku.skuId, sku);
-    }
+    // 1. Create a SKU lookup (catalog ids, then aliases)
+    const findSku = createSkuLookup(availableSkus, aliases);
 
     const aiSections = aiData.Cooler["Door-1"].Sections;
 
@@ -268,70 +421,194 @@ export function convertBackendToFrontend(
         console.error('[Converter] No layout template found');
         return {};
     }
-    
-    const layoutRowIds = Object.keys(layoutTemplate).sort();
 
-    // 3. Create the new refrigerator state using Immer for safe mutation
-    const newRefrigerator = produce(layoutTemplate, draft => {
-        if (!draft) return;
-        
-        // Clear all existing stacks from the template
-        for (const rowId of layoutRowIds) {
-            if (draft[rowId]) {
-                draft[rowId].stacks = [];
-            }
-        }
+    // 3. Fill the template's shelves from the AI sections
+    const newRefrigerator = convertSingleDoorData(
+        aiSections,
+        layoutTemplate,
+        findSku,
+        aiData.dimensions?.BoundingBoxScale || PIXEL_RATIO,
+        'Door-1'
+    );
 
-        // 4. Iterate over each AI Section (Shelf)
-        aiSections.forEach((section, index) => {
-            const rowId = layoutRowIds[index];
+    console.log("[Converter] Conversion complete. Final state:", newRefrigerator);
+    return newRefrigerator;
+}
 
-            // This should not happen if our layout matching is correct, but good to check.
-            if (!rowId) {
-                console.warn(`[Converter] AI sent shelf at index ${index}, but layout ${chosenLayout.name} only has ${layoutRowIds.length} rows. Ignoring extra shelf.`);
-                return;
-            }            const row = draft[rowId];
-            if (!row) return;
+// --- Re-importing Our Own Exports ---
+// convertFrontendToBackend / convertMultiDoorFrontendToBackend output, optionally
+// scaled by scaleBackendBoundingBoxes. Unlike AI detections, every product
+// carries its frontend width and height, so the shelves can be rebuilt exactly.
 
-            // 5. Iterate over each "product" (which represents one stack)
-            for (const aiProductStack of section.products) {
+// How far off the cooler width may be for a template to match an export (fraction)
+const MAX_EXPORT_WIDTH_ERROR = 0.05;
 
-                const newStack: Item[] = [];
+export interface BackendOutputMatch {
+    layoutId: string;
+    layout: LayoutData;
+    scale: number; // 1 for an unscaled export, else its BoundingBoxScale
+}
 
-                // 6. Check the main (bottom) product
-                const bottomSkuCode = aiProductStack["SKU-Code"];
-                const bottomSku = skuMap.get(bottomSkuCode);
+/**
+ * Detects an export of ours, as opposed to AI detections.
+ */
+export function isBackendOutput(data: unknown): data is BackendOutput {
+    if (!isRecord(data) || !isRecord(data.Cooler) || !isRecord(data.dimensions)) return false;
+    const doors = Object.values(data.Cooler);
+    if (doors.length === 0 || typeof data.dimensions.width !== 'number') return false;
+    return doors.every(door => isRecord(door) && Array.isArray(door.Sections) && door.Sections.every((section: unknown) =>
+        isRecord(section) && Array.isArray(section.products) && section.products.every((product: unknown) =>
+            isRecord(product) && typeof product.width === 'number' && typeof product.height === 'number')));
+}
 
-                if (bottomSku) {
-                    console.log(`[Converter] Matched SKU: ${bottomSkuCode}`);
-                    newStack.push(createItemFromSku(bottomSku));
-                } else {
-                    console.warn(`[Converter] SKIPPED SKU (not found): ${bottomSkuCode}`);
-                }
+// Single-door templates may list their door without 'doorCount'
+const getTemplateDoors = (layout: LayoutData): DoorConfig[] =>
+    layout.doors?.length ? layout.doors : getDoorConfigs(layout);
 
-                // 7. Check the stacked items
-                if (aiProductStack.stacked && Array.isArray(aiProductStack.stacked)) {
-                    for (const aiStackedItem of aiProductStack.stacked) {
-                        const stackedSkuCode = aiStackedItem["SKU-Code"];
-                        const stackedSku = skuMap.get(stackedSkuCode);
+const getExportDoorKeys = (output: BackendOutput) =>
+    Object.keys(output.Cooler).filter(key => /^Door-\d+$/.test(key)).sort(compareRowIds);
 
-                        if (stackedSku) {
-                            console.log(`[Converter] Matched Stacked SKU: ${stackedSkuCode}`);
-                            newStack.push(createItemFromSku(stackedSku));
-                        } else {
-                            console.warn(`[Converter] SKIPPED Stacked SKU (not found): ${stackedSkuCode}`);
-                        }
-                    }
-                }
+/**
+ * Which scale the export is at on these doors, judged by the cooler width:
+ * BoundingBoxScale is recorded whether or not the boxes were scaled.
+ * `error` is how far the width is from the doors' at that scale.
+ */
+function fitExportScale(output: BackendOutput, doorConfigs: DoorConfig[]): { scale: number; error: number } {
+    const expectedWidth = getTotalWidth(doorConfigs);
+    const boundingBoxScale = output.dimensions.BoundingBoxScale || PIXEL_RATIO;
+    const fits = [1, boundingBoxScale].map(scale => ({
+        scale,
+        error: Math.abs(output.dimensions.width / (expectedWidth * scale) - 1),
+    }));
+    return fits.reduce((best, fit) => fit.error < best.error ? fit : best);
+}
 
-                // 8. Add the new stack to the row *if* we found any valid items
-                if (newStack.length > 0) {
-                    row.stacks.push(newStack);
+/**
+ * The scale of an export made on `layout`: 1 as converted, or its
+ * BoundingBoxScale once scaleBackendBoundingBoxes has run.
+ */
+export const getBackendOutputScale = (output: BackendOutput, layout: LayoutData): number =>
+    fitExportScale(output, getTemplateDoors(layout)).scale;
+
+/**
+ * Finds the template an export was made on: the same doors with the same
+ * number of shelves, and the closest cooler width. Ties go to `preferredLayoutId`.
+ * @returns The template and the export's scale, or null when none fits.
+ */
+export function matchBackendOutputLayout(
+    output: BackendOutput,
+    layouts: { [layoutId: string]: LayoutData },
+    preferredLayoutId?: string
+): BackendOutputMatch | null {
+    const doorKeys = getExportDoorKeys(output);
+    const candidates = Object.entries(layouts).flatMap(([layoutId, layout]) => {
+        const doorConfigs = getTemplateDoors(layout);
+        const hasSameShelves = doorConfigs.length === doorKeys.length && doorConfigs.every((door, index) =>
+            Object.keys(door.layout).length === output.Cooler[doorKeys[index]].Sections.length);
+        if (!hasSameShelves) return [];
+        const { scale, error } = fitExportScale(output, doorConfigs);
+        return error <= MAX_EXPORT_WIDTH_ERROR ? [{ layoutId, layout, scale, error }] : [];
+    });
+
+    candidates.sort((a, b) => a.error - b.error || Number(b.layoutId === preferredLayoutId) - Number(a.layoutId === preferredLayoutId));
+    const best = candidates[0];
+    return best ? { layoutId: best.layoutId, layout: best.layout, scale: best.scale } : null;
+}
+
+/**
+ * Rebuilds an exported item. Catalog sizes are kept when they round to the
+ * exported ones (the export is scaled and rounded); otherwise the exported size wins.
+ */
+function restoreExportedItem(
+    product: BackendProduct,
+    id: string,
+    row: Row,
+    findSku: (skuCode: string) => Sku | undefined,
+    tolerance: number
+): Item {
+    const skuCode = product["SKU-Code"];
+    const sku = findSku(skuCode);
+    const confidence = product["Review-Status"] ? parseConfidence(product.Confidence) : undefined;
+    const review: Partial<Item> = confidence === undefined ? {} : { confidence, reviewStatus: product["Review-Status"] };
+
+    if (sku?.productType === 'BLANK') {
+        return { ...createBlankItem(sku, id, Math.round(product.width), row), ...review };
+    }
+    if (sku) {
+        const width = Math.abs(sku.width - product.width) <= tolerance ? sku.width : product.width;
+        const height = Math.abs(sku.height - product.height) <= tolerance ? sku.height : product.height;
+        return { ...sku, id, width, height, ...review };
+    }
+
+    // Not in the catalog: it was a placeholder for an unknown detection, sized in whole pixels
+    const width = Math.round(product.width);
+    const height = Math.round(product.height);
+    return {
+        id,
+        skuId: skuCode,
+        name: product.product?.trim() || `Unknown ${skuCode}`,
+        width,
+        height,
+        widthMM: Math.round(width / PIXELS_PER_MM),
+        heightMM: Math.round(height / PIXELS_PER_MM),
+        imageUrl: DEFAULT_SKU_IMAGE,
+        productType: UNKNOWN_PRODUCT_TYPE,
+        constraints: { stackable: true, deletable: true },
+        detectedSkuCode: skuCode,
+        ...review,
+    };
+}
+
+/**
+ * Converts a BackendOutput exported by the editor back into its shelves, so
+ * export -> import is lossless: the same stacks in the same order, stacked
+ * items' ids, blank widths and review state. Front items get new ids; the export doesn't keep theirs.
+ *
+ * @param output The export, scaled or not.
+ * @param layout The template it was made on (see matchBackendOutputLayout).
+ * @param availableSkus The catalog, for everything but the sizes.
+ * @param scale 1 for an unscaled export, else its BoundingBoxScale (see getBackendOutputScale).
+ * @returns A MultiDoorRefrigerator keyed by the template's door ids.
+ */
+export function convertBackendOutputToFrontend(
+    output: BackendOutput,
+    layout: LayoutData,
+    availableSkus: Sku[],
+    scale: number
+): MultiDoorRefrigerator {
+    const unscaled = scale === 1 ? output : unscaleBackendBoundingBoxes(output, scale);
+    const findSku = createSkuLookup(availableSkus, {});
+    // Unscaled sizes are exact; scaled ones were rounded to whole scaled pixels
+    const tolerance = scale === 1 ? 1e-6 : 0.5 / scale;
+    const doorKeys = getExportDoorKeys(unscaled);
+    const result: MultiDoorRefrigerator = {};
+
+    getTemplateDoors(layout).forEach((doorConfig, doorIndex) => {
+        const sections = unscaled.Cooler[doorKeys[doorIndex]]?.Sections ?? [];
+        const rowIds = Object.keys(doorConfig.layout).sort(compareRowIds);
+
+        result[doorConfig.id] = produce(doorConfig.layout, draft => {
+            rowIds.forEach((rowId, rowIndex) => {
+                const row = draft[rowId];
+                row.stacks = [];
+                const section = sections.find(candidate => candidate.position === rowIndex + 1) ?? sections[rowIndex];
+
+                // One stack per product, in export order
+                for (const product of section?.products ?? []) {
+                    const front = restoreExportedItem(product, generateUniqueId(product["SKU-Code"]), row, findSku, tolerance);
+                    const stacked = (product.stacked ?? []).map(stackedProduct => {
+                        // Stacked Positions are the item id, prefixed with the door id on multi-door exports
+                        const doorPrefix = `${doorConfig.id}-`;
+                        const position = stackedProduct.Position ?? '';
+                        const id = (position.startsWith(doorPrefix) ? position.slice(doorPrefix.length) : position)
+                            || generateUniqueId(stackedProduct["SKU-Code"]);
+                        return restoreExportedItem(stackedProduct, id, row, findSku, tolerance);
+                    });
+                    row.stacks.push([front, ...stacked]);
                 }
-            }
+            });
         });
     });
 
-    console.log("[Converter] Conversion complete. Final state:", newRefrigerator);
-    return newRefrigerator;
-}
\ No newline at end of file
+    return result;
+}
@@ -2,13 +2,16 @@ import { Refrigerator, Row, Item, MultiDoorRefrigerator, DoorConfig } from './ty
 import { 
   generateBoundingBox, 
   generateSectionPolygon,
-  scaleBackendBoundingBoxes
+  scaleBackendBoundingBoxes,
+  unscaleBackendBoundingBoxes
 } from './bounding-box-utils';
 import { PIXEL_RATIO, DOOR_GAP, HEADER_HEIGHT, GRILLE_HEIGHT, FRAME_BORDER } from './config';
 import { getDoorXOffset, getDoorConfigs } from './multi-door-utils';
+import { compareRowIds } from './layout-templates';
+import { ReviewStatus } from './detection-review';
 
 // Re-export for convenience
-export { scaleBackendBoundingBoxes };
+export { scaleBackendBoundingBoxes, unscaleBackendBoundingBoxes };
 
 // --- Define types for the Backend structure ---
 
@@ -22,10 +25,11 @@ export interface BackendProduct {
   "Bounding-Box": number[][];
   width: number;   // NEW: Width in pixels
   height: number;  // NEW: Height in pixels
+  "Review-Status"?: ReviewStatus; // Imported items only
 }
 
 // --- Row Metadata for coordinate calculation ---
-interface RowMetadata {
+export interface RowMetadata {
   rowId: string;
   yStart: number;
   yEnd: number;
@@ -62,6 +66,16 @@ export interface BackendOutput {
   };
 }
 
+/**
+ * Confidence fields of an exported product. Imported items report the
+ * detection's confidence and whether the user has reviewed it; items placed
+ * by hand are certain.
+ */
+function getConfidenceFields(item: Item): Pick<BackendProduct, 'Confidence' | 'Review-Status'> {
+  if (item.confidence === undefined) return { Confidence: "1.0" };
+  return { Confidence: String(item.confidence), "Review-Status": item.reviewStatus ?? 'unreviewed' };
+}
+
 // --- Helper Functions for Coordinate Calculation ---
 
 /**
@@ -76,8 +90,8 @@ function getStackWidth(stack: Item[]): number {
  * Calculate cumulative Y positions for all rows
  * MUST MATCH FRONTEND ROW STACKING EXACTLY
  */
-function calculateRowPositions(refrigerator: Refrigerator): RowMetadata[] {
-  const rowKeys = Object.keys(refrigerator).sort();
+export function calculateRowPositions(refrigerator: Refrigerator): RowMetadata[] {
+  const rowKeys = Object.keys(refrigerator).sort(compareRowIds);
   let currentY = 0; // Start from top
   const metadata: RowMetadata[] = [];
   
@@ -103,7 +117,7 @@ function calculateRowPositions(refrigerator: Refrigerator): RowMetadata[] {
  * Calculate X positions for all stacks in a row (accounting for 1px gaps)
  * MUST MATCH FRONTEND RENDERING EXACTLY
  */
-function calculateStackPositions(row: Row): number[] {
+export function calculateStackPositions(row: Row): number[] {
   let currentX = 0;
   const positions: number[] = [];
   
@@ -164,7 +178,7 @@ export function convertFrontendToBackend(
 
   // 2. Calculate row positions (Y coordinates)
   const rowMetadata = calculateRowPositions(frontendData);
-  const rowKeys = Object.keys(frontendData).sort();
+  const rowKeys = Object.keys(frontendData).sort(compareRowIds);
   
   rowKeys.forEach((rowKey, rowIndex) => {
     const currentRow: Row = frontendData[rowKey];
@@ -210,7 +224,7 @@ export function convertFrontendToBackend(
           Position: feProduct.id, 
           "SKU-Code": feProduct.skuId,
           stackSize: 0,
-          Confidence: "1.0",
+          ...getConfidenceFields(feProduct),
           "Bounding-Box": boundingBox,
           width: feProduct.width,   // NEW: Include width
           height: feProduct.height, // NEW: Include height
@@ -234,7 +248,7 @@ export function convertFrontendToBackend(
         Position: (stackIndex + 1).toString(), 
         "SKU-Code": frontProductFE.skuId,
         stackSize: stackArray.filter(p => p.skuId).length - 1,
-        Confidence: "1.0", 
+        ...getConfidenceFields(frontProductFE),
         "Bounding-Box": frontBoundingBox,
         width: frontProductFE.width,   // NEW: Include width
         height: frontProductFE.height, // NEW: Include height
@@ -317,7 +331,7 @@ export function convertMultiDoorFrontendToBackend(
     
     // Calculate row positions for this door
     const rowMetadata = calculateRowPositions(doorData);
-    const rowKeys = Object.keys(doorData).sort();
+    const rowKeys = Object.keys(doorData).sort(compareRowIds);
     
     rowKeys.forEach((rowKey, rowIndex) => {
       const currentRow: Row = doorData[rowKey];
@@ -372,7 +386,7 @@ export function convertMultiDoorFrontendToBackend(
             Position: `${doorId}-${feProduct.id}`,
             "SKU-Code": feProduct.skuId,
             stackSize: 0,
-            Confidence: "1.0",
+            ...getConfidenceFields(feProduct),
             "Bounding-Box": boundingBox,
             width: feProduct.width,
             height: feProduct.height,
@@ -394,7 +408,7 @@ export function convertMultiDoorFrontendToBackend(
           Position: `${doorId}-${stackIndex + 1}`,
           "SKU-Code": frontProductFE.skuId,
           stackSize: stackArray.filter(p => p.skuId).length - 1,
-          Confidence: "1.0",
+          ...getConfidenceFields(frontProductFE),
           "Bounding-Box": frontBoundingBox,
           width: frontProductFE.width,
           height: frontProductFE.height,
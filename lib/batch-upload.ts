@@ -0,0 +1,184 @@
+/**
+ * Batch Upload (client)
+ *
+ * A queue of shelf photos run through the scan import a few at a time. The
+ * queue lives in its own store so the results survive opening one of them in
+ * the editor and coming back.
+ */
+
+import { create } from 'zustand';
+import { LayoutData, MultiDoorRefrigerator, SavedPlanogram, Sku, SourcePhoto } from './types';
+import { AIBackendData } from './backend-to-frontend';
+import { SkuAliases, getUnresolvedSkus } from './sku-catalog';
+import { LayoutMatch } from './layout-matching';
+import { convertScan, getScanShelfCount, matchScanLayouts, scanPhoto } from './scan-import';
+
+// Photos sent to the detection provider at once
+export const BATCH_CONCURRENCY = 3;
+
+export type BatchStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface BatchEntry {
+  id: string;
+  file: File;
+  previewUrl: string; // Object URL, revoked when the entry is removed
+  status: BatchStatus;
+  error?: string;
+  aiData?: AIBackendData;
+  photo?: SourcePhoto | null;
+  photoError?: string;
+  shelfCount?: number;
+  matches?: LayoutMatch[]; // Ranked best first
+  layoutId?: string; // Template the detections are laid out on
+  refrigerators?: MultiDoorRefrigerator;
+  unresolvedCount?: number; // Detected SKU codes the catalog doesn't know
+  savedPlanogram?: SavedPlanogram;
+}
+
+// What the conversion needs from the page
+export interface BatchContext {
+  skus: Sku[];
+  aliases: SkuAliases;
+  layouts: { [layoutId: string]: LayoutData };
+}
+
+interface BatchUploadState {
+  entries: BatchEntry[];
+  isProcessing: boolean;
+  actions: {
+    addFiles: (files: File[]) => void;
+    removeEntry: (entryId: string) => void;
+    clear: () => void;
+    retryFailed: () => void;
+    processQueue: (context: BatchContext) => Promise<void>;
+    chooseLayout: (entryId: string, layoutId: string, context: BatchContext) => void;
+    markSaved: (entryId: string, planogram: SavedPlanogram) => void;
+  };
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight.
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
+
+// Exact shelf count first, then the best geometry score
+const pickLayout = (matches: LayoutMatch[]): LayoutMatch | undefined =>
+  matches.find(match => match.isExactShelfCount) ?? matches[0];
+
+function convertEntry(entry: BatchEntry, layoutId: string, context: BatchContext): Partial<BatchEntry> {
+  const layout = context.layouts[layoutId];
+  if (!entry.aiData || !layout) {
+    return { status: 'failed', error: `Layout ${layoutId} is not available` };
+  }
+  try {
+    const refrigerators = convertScan(entry.aiData, layout, context.skus, context.aliases);
+    return {
+      status: 'done',
+      error: undefined,
+      layoutId,
+      refrigerators,
+      unresolvedCount: getUnresolvedSkus(refrigerators).length,
+      savedPlanogram: undefined,
+    };
+  } catch (error) {
+    return { status: 'failed', error: error instanceof Error ? error.message : String(error), layoutId, refrigerators: undefined };
+  }
+}
+
+let nextEntryId = 0;
+
+export const useBatchUploadStore = create<BatchUploadState>((set, get) => {
+  const updateEntry = (entryId: string, patch: Partial<BatchEntry>) =>
+    set(state => ({
+      entries: state.entries.map(entry => (entry.id === entryId ? { ...entry, ...patch } : entry)),
+    }));
+
+  const processEntry = async (entry: BatchEntry, context: BatchContext) => {
+    updateEntry(entry.id, { status: 'processing', error: undefined });
+    try {
+      const { aiData, photo, photoError } = await scanPhoto(entry.file);
+      const shelfCount = getScanShelfCount(aiData);
+      if (shelfCount === 0) {
+        throw new Error('AI did not detect any shelves in the image.');
+      }
+      const matches = matchScanLayouts(aiData, context.skus, context.layouts);
+      const scanned = { aiData, photo, photoError, shelfCount, matches };
+      const best = pickLayout(matches);
+      updateEntry(entry.id, best
+        ? { ...scanned, ...convertEntry({ ...entry, ...scanned }, best.id, context) }
+        : { ...scanned, status: 'failed', error: 'No cooler templates are available' });
+    } catch (error) {
+      console.error(`[Batch Upload] ${entry.file.name} failed`, error);
+      updateEntry(entry.id, { status: 'failed', error: (error instanceof Error && error.message) || 'Detection failed' });
+    }
+  };
+
+  return {
+    entries: [],
+    isProcessing: false,
+    actions: {
+      addFiles: (files) => {
+        const added = files.map((file): BatchEntry => ({
+          id: `batch-${Date.now()}-${nextEntryId++}`,
+          file,
+          previewUrl: URL.createObjectURL(file),
+          status: 'queued',
+        }));
+        set(state => ({ entries: [...state.entries, ...added] }));
+      },
+
+      removeEntry: (entryId) => {
+        const entry = get().entries.find(candidate => candidate.id === entryId);
+        if (!entry || entry.status === 'processing') return;
+        URL.revokeObjectURL(entry.previewUrl);
+        set(state => ({ entries: state.entries.filter(candidate => candidate.id !== entryId) }));
+      },
+
+      // Keeps photos still being processed; their results would have nowhere to go otherwise
+      clear: () => {
+        const [busy, removed] = get().entries.reduce<[BatchEntry[], BatchEntry[]]>(
+          ([keep, drop], entry) => (entry.status === 'processing' ? [[...keep, entry], drop] : [keep, [...drop, entry]]),
+          [[], []]
+        );
+        removed.forEach(entry => URL.revokeObjectURL(entry.previewUrl));
+        set({ entries: busy });
+      },
+
+      retryFailed: () =>
+        set(state => ({
+          entries: state.entries.map(entry => (entry.status === 'failed' ? { ...entry, status: 'queued', error: undefined } : entry)),
+        })),
+
+      processQueue: async (context) => {
+        if (get().isProcessing) return;
+        set({ isProcessing: true });
+        try {
+          // Photos added while a run is going are picked up by the next pass
+          let queued = get().entries.filter(entry => entry.status === 'queued');
+          while (queued.length > 0) {
+            await runWithConcurrency(queued, BATCH_CONCURRENCY, entry => processEntry(entry, context));
+            queued = get().entries.filter(entry => entry.status === 'queued');
+          }
+        } finally {
+          set({ isProcessing: false });
+        }
+      },
+
+      chooseLayout: (entryId, layoutId, context) => {
+        const entry = get().entries.find(candidate => candidate.id === entryId);
+        if (!entry?.aiData || entry.status === 'processing') return;
+        updateEntry(entryId, convertEntry(entry, layoutId, context));
+      },
+
+      markSaved: (entryId, planogram) => updateEntry(entryId, { savedPlanogram: planogram }),
+    },
+  };
+});
@@ -0,0 +1,53 @@
+/**
+ * Blank Spaces
+ *
+ * 'BLANK' items keep a gap on a shelf open. They always fill the shelf height,
+ * and their width is user-sized between MIN_BLANK_WIDTH_MM and whatever the
+ * other stacks leave free. Resizing in the editor and gaps measured on an
+ * imported scan follow the same limits.
+ */
+
+import { Item, Row, Sku } from './types';
+import { PIXELS_PER_MM } from './config';
+import { demoSkus } from './demo-sku';
+
+export const BLANK_SKU_ID = 'sku-blank-space';
+
+export const MIN_BLANK_WIDTH_MM = 25;
+export const MIN_BLANK_WIDTH = Math.round(MIN_BLANK_WIDTH_MM * PIXELS_PER_MM);
+
+// Used when the catalog no longer has the blank space SKU
+export const DEFAULT_BLANK_SKU: Sku = demoSkus.find(sku => sku.skuId === BLANK_SKU_ID)!;
+
+/**
+ * Widest a blank can be in `row` (pixels): the capacity left by the other
+ * stacks and the 1px gaps between all stacks, the blank included.
+ * Pass `blankItemId` to leave out the blank's own stack when resizing it.
+ */
+export function getMaxBlankWidth(row: Row, blankItemId?: string): number {
+  const otherStacks = row.stacks.filter(stack => stack.length > 0 && !stack.some(item => item.id === blankItemId));
+
+  // Stacked items don't take horizontal space: only the bottom item counts
+  const usedWidth = otherStacks.reduce((sum, stack) => sum + stack[0].width, 0);
+  const gapWidth = otherStacks.length;
+
+  return row.capacity - usedWidth - gapWidth;
+}
+
+export const clampBlankWidth = (width: number, maxWidth: number) =>
+  Math.max(MIN_BLANK_WIDTH, Math.min(Math.round(width), maxWidth));
+
+/**
+ * A blank of `width` pixels sized to the shelf height of `row`.
+ */
+export function createBlankItem(blankSku: Sku, id: string, width: number, row: Row): Item {
+  return {
+    ...blankSku,
+    id,
+    width,
+    widthMM: width / PIXELS_PER_MM,
+    customWidth: width,
+    height: row.maxHeight,
+    heightMM: row.maxHeight / PIXELS_PER_MM,
+  };
+}
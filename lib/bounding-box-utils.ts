@@ -199,3 +199,43 @@ export function scaleBackendBoundingBoxes(
   
   return scaledOutput;
 }
+
+/**
+ * Undo scaleBackendBoundingBoxes, e.g. to re-import a scaled export.
+ * Coordinates and sizes are divided by `pixelRatio` and left unrounded, so a
+ * size rounded when scaling comes back within 0.5 / pixelRatio of the original.
+ *
+ * @param backendData - Backend output scaled by `pixelRatio`
+ * @param pixelRatio - The pixel ratio it was scaled by (usually its dimensions.BoundingBoxScale)
+ * @returns New backend output in frontend pixels
+ */
+export function unscaleBackendBoundingBoxes(
+  backendData: BackendOutput,
+  pixelRatio: number = PIXEL_RATIO
+): BackendOutput {
+  const unscaledOutput: BackendOutput = JSON.parse(JSON.stringify(backendData));
+  const unscalePoints = (points: number[][]) => points.map(([x, y]) => [x / pixelRatio, y / pixelRatio]);
+  const unscaleProduct = (product: BackendProduct) => {
+    product["Bounding-Box"] = unscalePoints(product["Bounding-Box"] || []);
+    product.width = product.width / pixelRatio;
+    product.height = product.height / pixelRatio;
+    product.stacked?.forEach(unscaleProduct);
+  };
+
+  Object.values(unscaledOutput.Cooler).forEach(door => {
+    if (door.data && door.data.length > 0) door.data = unscalePoints(door.data);
+    door.Sections.forEach(section => {
+      if (section.data && section.data.length > 0) section.data = unscalePoints(section.data);
+      section.products.forEach(unscaleProduct);
+    });
+  });
+
+  const { dimensions } = unscaledOutput;
+  dimensions.width = dimensions.width / pixelRatio;
+  dimensions.height = dimensions.height / pixelRatio;
+  for (const key of ['totalWidth', 'totalHeight', 'headerHeight', 'grilleHeight', 'frameBorder'] as const) {
+    if (dimensions[key]) dimensions[key] = dimensions[key]! / pixelRatio;
+  }
+
+  return unscaledOutput;
+}
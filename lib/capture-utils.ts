@@ -22,6 +22,51 @@ export function getElementDimensions(elementId: string): { width: number; height
   };
 }
 
+/**
+ * Render a DOM element to a PNG at PIXEL_RATIO, the ratio exported bounding boxes are scaled by
+ * @param elementId - The ID of the element to render
+ * @returns The image and the element's size in CSS pixels (the image is PIXEL_RATIO times larger)
+ */
+export async function renderElementToBlob(
+  elementId: string
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const element = document.getElementById(elementId);
+
+  if (!element) {
+    throw new Error('Could not find refrigerator element to capture');
+  }
+
+  // Wait a brief moment for any animations to settle and images to load
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  const rect = element.getBoundingClientRect();
+  const width = Math.round(rect.width);
+  const height = Math.round(rect.height);
+
+  console.log('📸 Capture dimensions:', {
+    width,
+    height,
+    offsetWidth: element.offsetWidth,
+    offsetHeight: element.offsetHeight,
+    scaledWidth: width * PIXEL_RATIO,
+    scaledHeight: height * PIXEL_RATIO
+  });
+
+  const blob = await htmlToImage.toBlob(element, {
+    cacheBust: true,
+    pixelRatio: PIXEL_RATIO, // 3x quality for crisp image
+    backgroundColor: '#f3f4f6',
+    width,
+    height,
+  });
+
+  if (!blob) {
+    throw new Error('Failed to create image');
+  }
+
+  return { blob, width, height };
+}
+
 /**
  * Capture a DOM element as an image and download it
  * @param elementId - The ID of the element to capture
@@ -33,41 +78,14 @@ export async function captureElementAsImage(
   filename: string = 'refrigerator-planogram'
 ): Promise<{ width: number; height: number } | null> {
   try {
-    const element = document.getElementById(elementId);
-    
-    if (!element) {
+    if (!document.getElementById(elementId)) {
       toast.error('Could not find refrigerator element to capture');
       return null;
     }
 
     toast.loading('Capturing image...', { id: 'capture-toast' });
 
-    // Wait a brief moment for any animations to settle and images to load
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const rect = element.getBoundingClientRect();
-    const width = Math.round(rect.width);
-    const height = Math.round(rect.height);
-
-    console.log('📸 Capture dimensions:', { 
-      width, 
-      height, 
-      offsetWidth: element.offsetWidth,
-      offsetHeight: element.offsetHeight,
-      scaledWidth: width * PIXEL_RATIO,
-      scaledHeight: height * PIXEL_RATIO
-    });
-
-    const blob = await htmlToImage.toBlob(element, {
-      cacheBust: true,
-      pixelRatio: PIXEL_RATIO, // 3x quality for crisp image
-      backgroundColor: '#f3f4f6',
-      width,  
-      height,
-    });    if (!blob) {
-      toast.error('Failed to create image', { id: 'capture-toast' });
-      return null;
-    }
+    const { blob, width, height } = await renderElementToBlob(elementId);
 
     // Create download link
     const url = URL.createObjectURL(blob);
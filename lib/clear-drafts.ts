@@ -5,7 +5,7 @@
 
 export function clearAllPlanogramDrafts() {
   const keys = Object.keys(localStorage);
-  const draftKeys = keys.filter(key => key.startsWith('planogram-draft-'));
+  const draftKeys = keys.filter(key => key.startsWith('planogram-draft-') || key.startsWith('planogram-link-'));
   
   console.log(`Found ${draftKeys.length} draft(s) to clear:`, draftKeys);
   
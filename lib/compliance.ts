@@ -0,0 +1,204 @@
+/**
+ * Planogram Compliance
+ *
+ * Compares a scanned cooler (AI import) with the reference planogram it should
+ * match. Each shelf is aligned facing by facing (a facing is one stack, keyed by
+ * its bottom item's SKU), so one missing product doesn't shift every facing after
+ * it into a "wrong SKU". Blank spaces are ignored on both sides.
+ */
+
+import { Item, MultiDoorRefrigerator } from './types';
+import { compareRowIds } from './layout-templates';
+
+export type DiscrepancyType = 'missing' | 'wrong-sku' | 'extra' | 'wrong-shelf';
+
+export interface ComplianceDiscrepancy {
+  type: DiscrepancyType;
+  doorId: string;
+  rowId: string;
+  position: number; // Facing index on the shelf (scanned shelf; reference shelf for 'missing')
+  expected?: { skuId: string; name: string }; // Not set for 'extra'
+  actual?: { skuId: string; name: string }; // Not set for 'missing'
+  itemIds: string[]; // Scanned items to highlight (empty for 'missing')
+  expectedLocation?: { doorId: string; rowId: string }; // Where a 'wrong-shelf' facing belongs
+}
+
+export interface ComplianceReport {
+  compliancePercent: number; // Correctly placed reference facings / all reference facings
+  expectedFacings: number;
+  scannedFacings: number;
+  matchedFacings: number;
+  counts: Record<DiscrepancyType, number>;
+  discrepancies: ComplianceDiscrepancy[];
+}
+
+// Canvas highlighting derived from a report
+export interface ComplianceHighlights {
+  itemTypes: { [itemId: string]: DiscrepancyType };
+  missingByRow: { [doorRowKey: string]: ComplianceDiscrepancy[] }; // Keyed 'door-1:row-2'
+}
+
+interface Facing {
+  skuId: string;
+  name: string;
+  itemIds: string[];
+}
+
+const toFacings = (stacks: Item[][]): Facing[] =>
+  stacks
+    .filter(stack => stack.length > 0 && stack[0].productType !== 'BLANK')
+    .map(stack => ({ skuId: stack[0].skuId, name: stack[0].name, itemIds: stack.map(item => item.id) }));
+
+type AlignmentStep =
+  | { op: 'match' | 'substitute'; expected: Facing; actual: Facing; position: number }
+  | { op: 'delete'; expected: Facing; position: number }
+  | { op: 'insert'; actual: Facing; position: number };
+
+// A substitution costs more than one insert/delete but less than both, so the
+// alignment keeps as many matching facings in place as it can
+const SUBSTITUTION_COST = 1.5;
+
+/**
+ * Minimum edit alignment of two facing sequences (weighted Levenshtein with backtracking).
+ */
+function alignFacings(expected: Facing[], actual: Facing[]): AlignmentStep[] {
+  const n = expected.length;
+  const m = actual.length;
+  const cost: number[][] = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const same = expected[i - 1].skuId === actual[j - 1].skuId;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (same ? 0 : SUBSTITUTION_COST),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  const steps: AlignmentStep[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same = expected[i - 1].skuId === actual[j - 1].skuId;
+      if (cost[i][j] === cost[i - 1][j - 1] + (same ? 0 : SUBSTITUTION_COST)) {
+        steps.push({ op: same ? 'match' : 'substitute', expected: expected[i - 1], actual: actual[j - 1], position: j - 1 });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      steps.push({ op: 'delete', expected: expected[i - 1], position: i - 1 });
+      i--;
+    } else {
+      steps.push({ op: 'insert', actual: actual[j - 1], position: j - 1 });
+      j--;
+    }
+  }
+  return steps.reverse();
+}
+
+/**
+ * Diff a scanned cooler against its reference planogram.
+ * Shelves are matched by door and row id; a shelf missing from the scan counts
+ * all of its reference facings as missing.
+ */
+export function compareToReference(scanned: MultiDoorRefrigerator, reference: MultiDoorRefrigerator): ComplianceReport {
+  const discrepancies: ComplianceDiscrepancy[] = [];
+  let expectedFacings = 0;
+  let scannedFacings = 0;
+  let matchedFacings = 0;
+
+  const doorIds = Array.from(new Set([...Object.keys(reference), ...Object.keys(scanned)])).sort(compareRowIds);
+  for (const doorId of doorIds) {
+    const rowIds = Array.from(new Set([
+      ...Object.keys(reference[doorId] || {}),
+      ...Object.keys(scanned[doorId] || {}),
+    ])).sort(compareRowIds);
+
+    for (const rowId of rowIds) {
+      const expected = toFacings(reference[doorId]?.[rowId]?.stacks || []);
+      const actual = toFacings(scanned[doorId]?.[rowId]?.stacks || []);
+      expectedFacings += expected.length;
+      scannedFacings += actual.length;
+
+      for (const step of alignFacings(expected, actual)) {
+        if (step.op === 'match') {
+          matchedFacings++;
+        } else if (step.op === 'substitute') {
+          discrepancies.push({
+            type: 'wrong-sku', doorId, rowId, position: step.position,
+            expected: { skuId: step.expected.skuId, name: step.expected.name },
+            actual: { skuId: step.actual.skuId, name: step.actual.name },
+            itemIds: step.actual.itemIds,
+          });
+        } else if (step.op === 'delete') {
+          discrepancies.push({
+            type: 'missing', doorId, rowId, position: step.position,
+            expected: { skuId: step.expected.skuId, name: step.expected.name },
+            itemIds: [],
+          });
+        } else {
+          discrepancies.push({
+            type: 'extra', doorId, rowId, position: step.position,
+            actual: { skuId: step.actual.skuId, name: step.actual.name },
+            itemIds: step.actual.itemIds,
+          });
+        }
+      }
+    }
+  }
+
+  // An extra facing whose SKU is missing from another shelf is on the wrong shelf;
+  // report it once (on the scanned facing) instead of as a missing + extra pair
+  for (const extra of discrepancies.filter(d => d.type === 'extra')) {
+    const missingIndex = discrepancies.findIndex(d =>
+      d.type === 'missing' &&
+      d.expected!.skuId === extra.actual!.skuId &&
+      (d.doorId !== extra.doorId || d.rowId !== extra.rowId)
+    );
+    if (missingIndex === -1) continue;
+
+    const [missing] = discrepancies.splice(missingIndex, 1);
+    extra.type = 'wrong-shelf';
+    extra.expected = missing.expected;
+    extra.expectedLocation = { doorId: missing.doorId, rowId: missing.rowId };
+  }
+
+  const counts: Record<DiscrepancyType, number> = { 'missing': 0, 'wrong-sku': 0, 'extra': 0, 'wrong-shelf': 0 };
+  discrepancies.forEach(d => { counts[d.type]++; });
+
+  return {
+    compliancePercent: expectedFacings > 0 ? (matchedFacings / expectedFacings) * 100 : (scannedFacings === 0 ? 100 : 0),
+    expectedFacings,
+    scannedFacings,
+    matchedFacings,
+    counts,
+    discrepancies,
+  };
+}
+
+export function getComplianceHighlights(report: ComplianceReport): ComplianceHighlights {
+  const highlights: ComplianceHighlights = { itemTypes: {}, missingByRow: {} };
+  for (const discrepancy of report.discrepancies) {
+    if (discrepancy.type === 'missing') {
+      const key = `${discrepancy.doorId}:${discrepancy.rowId}`;
+      highlights.missingByRow[key] = [...(highlights.missingByRow[key] || []), discrepancy];
+    } else {
+      discrepancy.itemIds.forEach(itemId => { highlights.itemTypes[itemId] = discrepancy.type; });
+    }
+  }
+  return highlights;
+}
+
+export const DISCREPANCY_LABELS: Record<DiscrepancyType, string> = {
+  'missing': 'Missing',
+  'wrong-sku': 'Wrong SKU',
+  'extra': 'Extra facing',
+  'wrong-shelf': 'Wrong shelf',
+};
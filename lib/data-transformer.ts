@@ -1,41 +1,44 @@
 import { Sku, Refrigerator, Item } from './types';
 import { PIXELS_PER_MM } from './config';
+import { buildSku, DEFAULT_SKU_IMAGE } from './sku-catalog';
 
 // This is a simplified representation of the raw backend data structure.
 // In a real app, you would generate more precise types from your API schema.
 type BackendSku = any;
 type BackendPlanogram = any;
 
+// Used when a backend record has no dimensions yet
+const PLACEHOLDER_WIDTH_MM = 60;
+const PLACEHOLDER_HEIGHT_MM = 150;
+
 const generateUniqueId = (skuId: string) => `${skuId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
 /**
  * Transforms the raw 'skuDetails' array from the backend into the clean Sku[] format
  * our application's SKU Palette component expects.
+ * Pixel sizes are derived from the millimetre dimensions (see buildSku); records without
+ * dimensions get a 60x150mm placeholder so they still render at a sensible size.
  */
 export function transformSkus(backendSkus: BackendSku[]): Sku[] {
   return backendSkus.map(sku => {
-    // Since widthMM and heightMM are now part of the type, we'll add them, even if they are placeholders
-    const widthMM = 0;
-    const heightMM = 0;
+    const widthMM = parseFloat(sku.widthMM ?? sku.width) || PLACEHOLDER_WIDTH_MM;
+    const heightMM = parseFloat(sku.heightMM ?? sku.height) || PLACEHOLDER_HEIGHT_MM;
 
-    return {
-      skuId: sku.code || sku.skuId, // Use 'code' as the unique identifier
+    return buildSku({
+      skuId: String(sku.code || sku.skuId), // Use 'code' as the unique identifier
       name: sku.name,
-      widthMM: widthMM, // Add the missing property
-      heightMM: heightMM, // Add the missing property
-      // Use placeholder dimensions for now, as they are "0" in the backend data
-      width: 60,
-      height: 15,
-      imageUrl: Array.isArray(sku.thumbnails) ? sku.thumbnails[0] : 'https://placehold.co/60x150?text=No+Img',
+      widthMM,
+      heightMM,
+      imageUrl: Array.isArray(sku.thumbnails) ? sku.thumbnails[0] : (sku.imageUrl || DEFAULT_SKU_IMAGE),
       // We'll use packCategory as the productType, with a fallback
-      productType: sku.packCategory || 'GENERAL',
+      productType: sku.packCategory || sku.packType || 'GENERAL',
       constraints: {
         // For now, we'll assume all items are stackable and deletable.
         // This could be driven by backend data in the future.
         stackable: sku.packType === 'PET' || sku.packType === 'CAN' ? false : true,
         deletable: true,
       },
-    }
+    });
   });
 }
 
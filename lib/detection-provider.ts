@@ -0,0 +1,135 @@
+/**
+ * Detection Providers (server only)
+ *
+ * Turn a shelf photo into the AI backend's cooler detections. The provider is
+ * picked per environment with DETECTION_PROVIDER:
+ *
+ * - `local` (default): no network and no secrets. Returns the detections of a
+ *   saved planogram when a planogram id is given (request field or
+ *   SCAN_PLANOGRAM_ID), otherwise replays the fixture at SCAN_FIXTURE
+ *   (defaults to demo-shelfScan.json). The image itself is ignored.
+ * - `cloud`: uploads the image to SCAN_UPLOAD_URL with SCAN_API_TOKEN, then
+ *   sends the returned image URL to the detection endpoint at SCAN_AI_URL.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AIBackendData } from './backend-to-frontend';
+import { convertMultiDoorFrontendToBackend } from './backend-transform';
+import { getDoorConfigs } from './multi-door-utils';
+import { getPlanogram } from './planogram-repository';
+import { getLayout } from './layout-repository';
+
+export const DETECTION_PROVIDER_NAMES = ['local', 'cloud'] as const;
+export type DetectionProviderName = typeof DETECTION_PROVIDER_NAMES[number];
+
+export interface DetectionRequest {
+  image: File | null; // Required by the cloud provider only
+  planogramId?: string; // Local provider: build detections from this saved planogram
+}
+
+export interface DetectionProvider {
+  name: DetectionProviderName;
+  description: string; // Shown on the upload page
+  detect(request: DetectionRequest): Promise<AIBackendData>;
+}
+
+const DEFAULT_FIXTURE = 'demo-shelfScan.json';
+
+async function readFixture(fixturePath: string): Promise<AIBackendData> {
+  const resolved = path.resolve(process.cwd(), fixturePath);
+  try {
+    return JSON.parse(await fs.readFile(resolved, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read detection fixture ${fixturePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Lay a saved planogram out the way the AI backend would have detected it
+async function detectFromPlanogram(planogramId: string): Promise<AIBackendData> {
+  const planogram = await getPlanogram(planogramId);
+  if (!planogram) throw new Error(`Planogram "${planogramId}" not found`);
+
+  const layout = await getLayout(planogram.layoutId);
+  if (!layout) throw new Error(`Layout "${planogram.layoutId}" of planogram "${planogram.name}" not found`);
+
+  const output = convertMultiDoorFrontendToBackend(planogram.refrigerators, getDoorConfigs(layout));
+  if (!output.Cooler['Door-1']) throw new Error(`Planogram "${planogram.name}" has no shelves`);
+  // Same JSON the AI backend sends; BackendOutput just types the doors more loosely
+  return output as unknown as AIBackendData;
+}
+
+function createLocalProvider(): DetectionProvider {
+  const fixture = process.env.SCAN_FIXTURE || DEFAULT_FIXTURE;
+  const defaultPlanogramId = process.env.SCAN_PLANOGRAM_ID;
+
+  return {
+    name: 'local',
+    description: defaultPlanogramId
+      ? `Local: detections from saved planogram ${defaultPlanogramId}`
+      : `Local: replaying ${path.basename(fixture)}`,
+    detect: async ({ planogramId }) => {
+      const sourcePlanogramId = planogramId || defaultPlanogramId;
+      return sourcePlanogramId ? detectFromPlanogram(sourcePlanogramId) : readFixture(fixture);
+    },
+  };
+}
+
+function createCloudProvider(): DetectionProvider {
+  const uploadUrl = process.env.SCAN_UPLOAD_URL;
+  const aiUrl = process.env.SCAN_AI_URL;
+  const token = process.env.SCAN_API_TOKEN;
+
+  return {
+    name: 'cloud',
+    description: 'Cloud detection',
+    detect: async ({ image }) => {
+      if (!uploadUrl || !aiUrl) {
+        throw new Error('Cloud detection is not configured: set SCAN_UPLOAD_URL and SCAN_AI_URL');
+      }
+      if (!image) throw new Error('An image is required');
+
+      // Step 1: upload the image to get a URL the AI backend can read
+      const formData = new FormData();
+      formData.append('images', image, image.name);
+      const uploadHeaders: Record<string, string> = { accept: 'application/json, text/plain, */*' };
+      if (token) uploadHeaders.authorization = `Bearer ${token}`;
+
+      const uploadResponse = await fetch(uploadUrl, { method: 'POST', headers: uploadHeaders, body: formData });
+      if (!uploadResponse.ok) {
+        throw new Error(`Image upload failed: ${uploadResponse.statusText}`);
+      }
+      const uploadResult = await uploadResponse.json();
+      if (!uploadResult.status || !uploadResult.urls || uploadResult.urls.length === 0) {
+        throw new Error('Image upload succeeded but did not return a valid URL.');
+      }
+
+      // Step 2: run detection on the uploaded image
+      const aiResponse = await fetch(aiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image_url: uploadResult.urls[0] }),
+      });
+      if (!aiResponse.ok) {
+        throw new Error(`AI processing failed: ${aiResponse.statusText}`);
+      }
+      return aiResponse.json();
+    },
+  };
+}
+
+/**
+ * The provider configured for this environment. Throws on an unknown
+ * DETECTION_PROVIDER so a typo doesn't silently fall back to fixtures.
+ */
+export function getDetectionProvider(): DetectionProvider {
+  const name = process.env.DETECTION_PROVIDER || 'local';
+  switch (name) {
+    case 'local':
+      return createLocalProvider();
+    case 'cloud':
+      return createCloudProvider();
+    default:
+      throw new Error(`Unknown DETECTION_PROVIDER "${name}" (expected ${DETECTION_PROVIDER_NAMES.join(' or ')})`);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Detection Review
+ *
+ * Imported items keep the confidence the AI reported for them. Items below the
+ * review threshold are queued for the user to confirm, replace or delete.
+ * Confirmed items leave the queue and export as reviewed.
+ */
+
+import { Item, MultiDoorRefrigerator } from './types';
+import { compareRowIds } from './layout-templates';
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+
+export type ReviewStatus = 'unreviewed' | 'confirmed';
+
+export interface ReviewQueueEntry {
+  itemId: string;
+  name: string;
+  skuId: string;
+  confidence: number;
+  doorId: string;
+  rowId: string;
+  stackIndex: number;
+}
+
+/**
+ * Parse the AI's `Confidence` string ("0.87", or "87" as a percentage) into 0-1.
+ * Returns undefined when there is no usable value.
+ */
+export function parseConfidence(value: string | number | null | undefined): number | undefined {
+  const confidence = typeof value === 'number' ? value : parseFloat(value ?? '');
+  if (!Number.isFinite(confidence) || confidence < 0) return undefined;
+  return confidence > 1 ? Math.min(confidence / 100, 1) : confidence;
+}
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+export const needsReview = (item: Item, threshold: number) =>
+  item.confidence !== undefined && item.reviewStatus !== 'confirmed' && item.confidence < threshold;
+
+/**
+ * Items that need review, in shelf order (door, shelf from the top, stack from the left).
+ */
+export function getReviewQueue(refrigerators: MultiDoorRefrigerator, threshold: number): ReviewQueueEntry[] {
+  const queue: ReviewQueueEntry[] = [];
+  for (const doorId of Object.keys(refrigerators).sort(compareRowIds)) {
+    for (const rowId of Object.keys(refrigerators[doorId]).sort(compareRowIds)) {
+      refrigerators[doorId][rowId].stacks.forEach((stack, stackIndex) => {
+        for (const item of stack) {
+          if (!needsReview(item, threshold)) continue;
+          queue.push({
+            itemId: item.id,
+            name: item.name,
+            skuId: item.skuId,
+            confidence: item.confidence!,
+            doorId, rowId, stackIndex,
+          });
+        }
+      });
+    }
+  }
+  return queue;
+}
@@ -0,0 +1,40 @@
+// Utility functions for downloading generated files (CSV exports etc.)
+
+/**
+ * Trigger a browser download for a Blob.
+ * @param filename - The name of the downloaded file (without extension); a timestamp is appended
+ * @param extension - File extension without the dot, e.g. 'csv'
+ */
+export function downloadBlob(blob: Blob, filename: string, extension: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+  link.download = `${filename}-${timestamp}.${extension}`;
+  link.href = url;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+const escapeCsvCell = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows (first row = header) as RFC 4180 CSV.
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Download rows as a CSV file. A BOM is prepended so Excel reads UTF-8 names correctly.
+ */
+export function downloadCsv(rows: (string | number | null | undefined)[][], filename: string): void {
+  const blob = new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, filename, 'csv');
+}
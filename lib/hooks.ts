@@ -1,6 +1,8 @@
 
 import useSWR from 'swr';
-import { Sku, LayoutData } from '@/lib/types';
+import { Sku, LayoutData, PlanogramSummary } from '@/lib/types';
+import { RuleSet } from '@/lib/merchandising-rules';
+import { SkuAliases } from '@/lib/sku-catalog';
 
 // const API_BASE_URL = 'https://your-backend-api.com/api'; // Placeholder for production
 const API_BASE_URL = '/api'; // For local development
@@ -46,6 +48,17 @@ export function useSkus() {
   };
 }
 
+// Hook to get the remembered aliases for unknown detected SKU-Codes
+export function useSkuAliases() {
+  const { data, error } = useSWR<{ aliases: SkuAliases }>(`${API_BASE_URL}/skus/aliases`, fetcher);
+
+  return {
+    aliases: data?.aliases,
+    isLoading: !error && !data,
+    isError: error,
+  };
+}
+
 // Hook to search for SKUs
 export function useSearchSkus(query: string) {
   const { data, error } = useSWR<{ skus: Sku[] }>(
@@ -59,3 +72,29 @@ export function useSearchSkus(query: string) {
     isError: error,
   };
 }
+
+// Hook to list saved planograms, optionally only those built on one layout
+export function usePlanograms(layoutId?: string) {
+  const query = layoutId ? `?layoutId=${encodeURIComponent(layoutId)}` : '';
+  const { data, error } = useSWR<{ planograms: PlanogramSummary[] }>(
+    `${API_BASE_URL}/planograms${query}`,
+    fetcher
+  );
+
+  return {
+    planograms: data?.planograms,
+    isLoading: !error && !data,
+    isError: error,
+  };
+}
+
+// Hook to get the merchandising rule set
+export function useRules() {
+  const { data, error } = useSWR<RuleSet>(`${API_BASE_URL}/rules`, fetcher);
+
+  return {
+    ruleSet: data,
+    isLoading: !error && !data,
+    isError: error,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * JSON File Store (server only)
+ *
+ * Tiny persistence layer used by the API routes. Each collection lives in its
+ * own JSON file inside DATA_DIR. Writes go through a temp file + rename so a
+ * crash mid-write never leaves a half-written collection behind.
+ *
+ * Configure the location with PLANOGRAM_DATA_DIR (defaults to ./data).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DATA_DIR = process.env.PLANOGRAM_DATA_DIR || path.join(process.cwd(), 'data');
+
+// Serialize writes per file so concurrent requests don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+const getFilePath = (fileName: string) => path.join(DATA_DIR, fileName);
+
+/**
+ * Read a JSON file from the data directory.
+ * Returns the fallback when the file does not exist yet.
+ */
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(getFilePath(fileName), 'utf-8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file to the data directory (atomic replace).
+ */
+export async function writeJsonFile<T>(fileName: string, data: T): Promise<void> {
+  const filePath = getFilePath(fileName);
+  await fs.mkdir(DATA_DIR, { recursive: true });
+
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Read-modify-write a JSON file while holding a per-file lock.
+ * The updater receives the current contents and returns the new contents
+ * plus an arbitrary result that is handed back to the caller.
+ * Return `data: undefined` to skip the write (e.g. on a validation failure).
+ */
+export async function updateJsonFile<T, R>(
+  fileName: string,
+  fallback: T,
+  updater: (current: T) => { data?: T; result: R } | Promise<{ data?: T; result: R }>
+): Promise<R> {
+  const previous = writeQueues.get(fileName) ?? Promise.resolve();
+
+  const next = previous.catch(() => { }).then(async () => {
+    const current = await readJsonFile<T>(fileName, fallback);
+    const { data, result } = await updater(current);
+    if (data !== undefined) {
+      await writeJsonFile(fileName, data);
+    }
+    return result;
+  });
+
+  writeQueues.set(fileName, next);
+  return next;
+}
+
+/**
+ * Read a binary file (e.g. an uploaded photo) from the data directory.
+ * Returns null when the file does not exist.
+ */
+export async function readDataFile(fileName: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(getFilePath(fileName));
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a binary file to the data directory (atomic replace).
+ * Sub-directories in the file name are created as needed.
+ */
+export async function writeDataFile(fileName: string, data: Buffer): Promise<void> {
+  const filePath = getFilePath(fileName);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
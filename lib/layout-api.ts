@@ -0,0 +1,63 @@
+import { LayoutData } from './types';
+
+// Client-side helpers for the /api/layouts routes
+const API_BASE_URL = '/api';
+
+type LayoutResponse = LayoutData & { id: string };
+
+const readError = async (response: Response): Promise<string> => {
+  const body = await response.json().catch(() => null);
+  return body?.error || response.statusText || `Request failed (${response.status})`;
+};
+
+const stripId = ({ id, ...layout }: LayoutResponse): LayoutData => layout;
+
+/**
+ * Fetch every cooler template with its full door/row data, keyed by layout id.
+ */
+export async function fetchLayouts(): Promise<{ [layoutId: string]: LayoutData }> {
+  const response = await fetch(`${API_BASE_URL}/layouts?expand=true`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+
+  const body: { layouts: LayoutResponse[] } = await response.json();
+  return body.layouts.reduce((acc, layout) => {
+    acc[layout.id] = stripId(layout);
+    return acc;
+  }, {} as { [layoutId: string]: LayoutData });
+}
+
+export async function createLayoutTemplate(layout: LayoutData, layoutId?: string): Promise<{ id: string; layout: LayoutData }> {
+  const response = await fetch(`${API_BASE_URL}/layouts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...layout, id: layoutId }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+
+  const body: LayoutResponse = await response.json();
+  return { id: body.id, layout: stripId(body) };
+}
+
+export async function updateLayoutTemplate(layoutId: string, layout: LayoutData): Promise<LayoutData> {
+  const response = await fetch(`${API_BASE_URL}/layouts/${layoutId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(layout),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+
+  return stripId(await response.json());
+}
+
+export async function deleteLayoutTemplate(layoutId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/layouts/${layoutId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+}
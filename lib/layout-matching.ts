@@ -0,0 +1,249 @@
+/**
+ * Layout Matching
+ *
+ * Ranks cooler templates against a scan. Shelf count alone can't tell two
+ * 5-shelf coolers apart, so each template is scored on several measurements
+ * of the scan:
+ *
+ * - shelf count and door count
+ * - the shelf height profile (section polygons, or the bottoms of the
+ *   detected products when the AI sends no polygons)
+ * - the door aspect ratio (door polygon, or the photo's `dimensions`)
+ * - the door width in mm, calibrated from the catalog widths of the
+ *   products the AI recognised
+ *
+ * Measurements the scan doesn't allow are left out of the score instead of
+ * counting against a template.
+ */
+
+import { DoorConfig, LayoutData, Refrigerator, Sku } from './types';
+import { AIBackendData } from './backend-to-frontend';
+import { compareRowIds } from './layout-templates';
+import { PIXELS_PER_MM } from './config';
+
+type AIDoor = NonNullable<AIBackendData['Cooler'][string]>;
+type AISection = AIDoor['Sections'][number];
+type AIProduct = AISection['products'][number];
+
+export interface ScanGeometry {
+  doorCount: number;
+  shelfCount: number;
+  // Height of each shelf as a share of the measured total, top to bottom across doors; null where unknown
+  shelfHeightShares: (number | null)[];
+  doorAspectRatio: number | null; // Width / height of one door
+  doorWidthMM: number | null; // Estimated from the catalog widths of recognised products
+}
+
+export interface MatchCriterion {
+  label: string;
+  score: number; // 0-1
+  weight: number;
+  detail: string; // Why the template scored this way
+}
+
+export interface LayoutMatch {
+  id: string;
+  layout: LayoutData;
+  score: number; // 0-100, weighted over the criteria the scan could measure
+  criteria: MatchCriterion[];
+  isExactShelfCount: boolean;
+}
+
+const WEIGHTS = { shelves: 3, doors: 2, shelfHeights: 2, aspectRatio: 1, doorWidth: 2 };
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const getExtent = (points: number[][] | undefined, axis: 0 | 1): number | null => {
+  const values = (points || []).map(point => point[axis]);
+  return values.length > 1 ? Math.max(...values) - Math.min(...values) : null;
+};
+
+const isEmptyDetection = (product: AIProduct) => product["SKU-Code"] === "shelfscan_0000" || product.product === "Empty";
+
+// --- Template side ---
+
+/**
+ * Doors of a template, for both the unified 'doors' format and legacy single-door data.
+ */
+function getLayoutDoors(layout: LayoutData): { width: number; height: number; layout: Refrigerator }[] {
+  if (layout.doors && layout.doors.length > 0) {
+    return layout.doors.filter((door): door is DoorConfig => !!door.layout);
+  }
+  return layout.layout ? [{ width: layout.width ?? 0, height: layout.height ?? 0, layout: layout.layout }] : [];
+}
+
+/**
+ * Total shelves of a template across all of its doors.
+ */
+export const getLayoutShelfCount = (layout: LayoutData): number =>
+  getLayoutDoors(layout).reduce((sum, door) => sum + Object.keys(door.layout).length, 0);
+
+const getLayoutShelfHeights = (layout: LayoutData): number[] =>
+  getLayoutDoors(layout).flatMap(door =>
+    Object.keys(door.layout).sort(compareRowIds).map(rowId => door.layout[rowId].maxHeight));
+
+// --- Scan side ---
+
+const getScanDoors = (aiData: AIBackendData): AIDoor[] =>
+  Object.keys(aiData.Cooler)
+    .filter(key => key.startsWith('Door-'))
+    .sort(compareRowIds)
+    .map(key => aiData.Cooler[key])
+    .filter((door): door is AIDoor => !!door && Array.isArray(door.Sections) && door.Sections.length > 0);
+
+// Shelf heights of one door: section polygons, else the distance between the bottoms of consecutive shelves' products
+function measureShelfHeights(door: AIDoor): (number | null)[] {
+  const polygonHeights = door.Sections.map(section => getExtent(section.data, 1));
+  if (polygonHeights.every(height => height !== null)) return polygonHeights;
+
+  const bottoms = door.Sections.map(section => {
+    const ys = section.products
+      .filter(product => !isEmptyDetection(product))
+      .flatMap(product => (product["Bounding-Box"] || []).map(point => point[1]));
+    return ys.length > 0 ? Math.max(...ys) : null;
+  });
+  return bottoms.map((bottom, index) => {
+    const previous = index > 0 ? bottoms[index - 1] : null;
+    // The top shelf has no shelf above to measure from
+    return bottom !== null && previous !== null && bottom > previous ? bottom - previous : null;
+  });
+}
+
+// Millimetres per photo pixel, from products the catalog knows the width of
+function measureMMPerPixel(doors: AIDoor[], skus: Sku[]): number | null {
+  const skuWidths = new Map(skus.filter(sku => sku.productType !== 'BLANK').map(sku => [sku.skuId, sku.widthMM]));
+  const ratios: number[] = [];
+  for (const door of doors) {
+    for (const section of door.Sections) {
+      for (const product of section.products) {
+        const widthMM = skuWidths.get(product["SKU-Code"]);
+        const widthPx = getExtent(product["Bounding-Box"], 0);
+        if (widthMM && widthPx) ratios.push(widthMM / widthPx);
+      }
+    }
+  }
+  return median(ratios);
+}
+
+/**
+ * Measures the parts of a scan that tell cooler models apart.
+ */
+export function measureScan(aiData: AIBackendData, skus: Sku[]): ScanGeometry {
+  const doors = getScanDoors(aiData);
+  const doorCount = doors.length;
+  const shelfCount = doors.reduce((sum, door) => sum + door.Sections.length, 0);
+
+  const heights = doors.flatMap(measureShelfHeights);
+  const measuredTotal = heights.reduce<number>((sum, height) => sum + (height ?? 0), 0);
+  const shelfHeightShares = heights.map(height => height !== null && measuredTotal > 0 ? height / measuredTotal : null);
+
+  // One door's outline: its polygon, else the photo split evenly between the doors
+  const doorPolygon = doors[0]?.data;
+  const doorWidthPx = getExtent(doorPolygon, 0) ?? (aiData.dimensions && doorCount > 0 ? aiData.dimensions.width / doorCount : null);
+  const doorHeightPx = getExtent(doorPolygon, 1) ?? aiData.dimensions?.height ?? null;
+  const doorAspectRatio = doorWidthPx && doorHeightPx ? doorWidthPx / doorHeightPx : null;
+
+  const mmPerPixel = measureMMPerPixel(doors, skus);
+  const doorWidthMM = mmPerPixel && doorWidthPx ? doorWidthPx * mmPerPixel : null;
+
+  return { doorCount, shelfCount, shelfHeightShares, doorAspectRatio, doorWidthMM };
+}
+
+// --- Scoring ---
+
+function scoreLayout(scan: ScanGeometry, layout: LayoutData): MatchCriterion[] {
+  const doors = getLayoutDoors(layout);
+  const shelfCount = getLayoutShelfCount(layout);
+  const criteria: MatchCriterion[] = [];
+
+  const shelfDifference = Math.abs(shelfCount - scan.shelfCount);
+  criteria.push({
+    label: 'Shelves',
+    score: clamp01(1 - shelfDifference / 3),
+    weight: WEIGHTS.shelves,
+    detail: shelfDifference === 0
+      ? `${shelfCount} shelves, as detected`
+      : `${shelfCount} shelves, ${scan.shelfCount} detected`,
+  });
+
+  criteria.push({
+    label: 'Doors',
+    score: doors.length === scan.doorCount ? 1 : 0,
+    weight: WEIGHTS.doors,
+    detail: doors.length === scan.doorCount
+      ? `${doors.length} door${doors.length === 1 ? '' : 's'}, as detected`
+      : `${doors.length} door${doors.length === 1 ? '' : 's'}, ${scan.doorCount} detected`,
+  });
+
+  // Compare the height profiles over the shelves the scan could measure
+  const measured = scan.shelfHeightShares
+    .map((share, index) => ({ share, index }))
+    .filter((entry): entry is { share: number; index: number } => entry.share !== null);
+  if (shelfDifference === 0 && measured.length >= 2) {
+    const templateHeights = getLayoutShelfHeights(layout);
+    const templateTotal = measured.reduce((sum, { index }) => sum + templateHeights[index], 0);
+    const scanTotal = measured.reduce((sum, { share }) => sum + share, 0);
+    // Total variation distance between the two profiles: 0 when identical, 1 when disjoint
+    const distance = measured.reduce((sum, { share, index }) =>
+      sum + Math.abs(share / scanTotal - templateHeights[index] / templateTotal), 0) / 2;
+    criteria.push({
+      label: 'Shelf heights',
+      score: clamp01(1 - distance * 4),
+      weight: WEIGHTS.shelfHeights,
+      detail: `Height profile ${Math.round((1 - distance) * 100)}% alike over ${measured.length} shelves`,
+    });
+  }
+
+  const templateDoor = doors[0];
+  if (scan.doorAspectRatio && templateDoor?.width && templateDoor?.height) {
+    const templateRatio = templateDoor.width / templateDoor.height;
+    // Ratios half or twice the template's score 0
+    const error = Math.abs(Math.log(scan.doorAspectRatio / templateRatio)) / Math.log(2);
+    criteria.push({
+      label: 'Door shape',
+      score: clamp01(1 - error),
+      weight: WEIGHTS.aspectRatio,
+      detail: `Width:height ${templateRatio.toFixed(2)}, ${scan.doorAspectRatio.toFixed(2)} in the photo`,
+    });
+  }
+
+  if (scan.doorWidthMM && templateDoor?.width) {
+    const templateWidthMM = templateDoor.width / PIXELS_PER_MM;
+    const error = Math.abs(scan.doorWidthMM - templateWidthMM) / templateWidthMM;
+    criteria.push({
+      label: 'Door width',
+      score: clamp01(1 - error * 2),
+      weight: WEIGHTS.doorWidth,
+      detail: `${Math.round(templateWidthMM)}mm wide, about ${Math.round(scan.doorWidthMM)}mm judging by product widths`,
+    });
+  }
+
+  return criteria;
+}
+
+/**
+ * Scores every template against the scan, best match first.
+ */
+export function rankLayouts(scan: ScanGeometry, layouts: { [layoutId: string]: LayoutData }): LayoutMatch[] {
+  return Object.entries(layouts)
+    .map(([id, layout]) => {
+      const criteria = scoreLayout(scan, layout);
+      const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+      const weighted = criteria.reduce((sum, criterion) => sum + criterion.score * criterion.weight, 0);
+      return {
+        id,
+        layout,
+        score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0,
+        criteria,
+        isExactShelfCount: getLayoutShelfCount(layout) === scan.shelfCount,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.layout.name.localeCompare(b.layout.name));
+}
@@ -0,0 +1,82 @@
+/**
+ * Layout Repository (server only)
+ *
+ * Cooler model templates live in data/layouts.json, keyed by layout id.
+ * Until the first template is saved the built-in models from
+ * `availableLayoutsData` are served, and they seed the file on the first write.
+ */
+
+import { LayoutData } from './types';
+import { availableLayoutsData } from './planogram-data';
+import { readJsonFile, updateJsonFile } from './json-file-store';
+import { normalizeLayoutData } from './layout-templates';
+
+const LAYOUTS_FILE = 'layouts.json';
+
+type LayoutCollection = { [layoutId: string]: LayoutData };
+
+export type LayoutMutationResult =
+  | { status: 'ok'; layoutId: string; layout: LayoutData }
+  | { status: 'not-found' }
+  | { status: 'exists' };
+
+/**
+ * Turn a display name into a layout id, e.g. "G-12 Double" -> "g-12-double".
+ */
+export const slugifyLayoutId = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export async function listLayouts(): Promise<LayoutCollection> {
+  return readJsonFile<LayoutCollection>(LAYOUTS_FILE, availableLayoutsData);
+}
+
+export async function getLayout(layoutId: string): Promise<LayoutData | null> {
+  const collection = await listLayouts();
+  return collection[layoutId] ?? null;
+}
+
+/**
+ * Creates a new cooler template.
+ * @param requestedId - Optional explicit id; derived from the name when omitted
+ */
+export async function createLayout(input: LayoutData, requestedId?: string): Promise<LayoutMutationResult> {
+  const layoutId = slugifyLayoutId(requestedId || input.name);
+
+  return updateJsonFile<LayoutCollection, LayoutMutationResult>(LAYOUTS_FILE, availableLayoutsData, collection => {
+    if (!layoutId || collection[layoutId]) {
+      return { result: { status: 'exists' } };
+    }
+
+    const layout = normalizeLayoutData(input);
+    return { data: { ...collection, [layoutId]: layout }, result: { status: 'ok', layoutId, layout } };
+  });
+}
+
+export async function updateLayout(layoutId: string, input: LayoutData): Promise<LayoutMutationResult> {
+  return updateJsonFile<LayoutCollection, LayoutMutationResult>(LAYOUTS_FILE, availableLayoutsData, collection => {
+    if (!collection[layoutId]) {
+      return { result: { status: 'not-found' } };
+    }
+
+    const layout = normalizeLayoutData(input);
+    return { data: { ...collection, [layoutId]: layout }, result: { status: 'ok', layoutId, layout } };
+  });
+}
+
+/**
+ * Deletes a cooler template. The last remaining template cannot be deleted,
+ * since the editor always needs at least one model to fall back to.
+ */
+export async function deleteLayout(layoutId: string): Promise<'ok' | 'not-found' | 'last-layout'> {
+  return updateJsonFile<LayoutCollection, 'ok' | 'not-found' | 'last-layout'>(LAYOUTS_FILE, availableLayoutsData, collection => {
+    if (!collection[layoutId]) {
+      return { result: 'not-found' };
+    }
+    if (Object.keys(collection).length === 1) {
+      return { result: 'last-layout' };
+    }
+
+    const { [layoutId]: _removed, ...rest } = collection;
+    return { data: rest, result: 'ok' };
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * Layout Templates
+ *
+ * Cooler models are stored as LayoutData (pixel units, rows keyed by 'row-N').
+ * The template editor works in millimetres, so these helpers convert between
+ * the two and validate layouts coming in through the API.
+ */
+
+import { LayoutData, Refrigerator } from './types';
+import { PIXELS_PER_MM } from './config';
+import { getDoorConfigs } from './multi-door-utils';
+import { isPositiveNumber, isRecord } from './utils';
+
+export interface LayoutTemplateRow {
+  capacityMM: number;
+  maxHeightMM: number;
+  allowedProductTypes: 'all' | string[];
+}
+
+export interface LayoutTemplateDoor {
+  widthMM: number;
+  heightMM: number;
+  rows: LayoutTemplateRow[]; // Top shelf first
+}
+
+export interface LayoutTemplate {
+  name: string;
+  doors: LayoutTemplateDoor[];
+}
+
+const toPixels = (mm: number) => Math.round(mm * PIXELS_PER_MM);
+const toMillimetres = (px: number) => Math.round(px / PIXELS_PER_MM);
+
+// 'row-2' before 'row-10' (also works for 'door-N')
+export const compareRowIds = (a: string, b: string) =>
+  (parseInt(a.split('-')[1], 10) || 0) - (parseInt(b.split('-')[1], 10) || 0);
+
+/**
+ * Build LayoutData (pixels) from a millimetre-based template.
+ * Doors are numbered 'door-1'..'door-N' and rows 'row-1'..'row-N' from the top.
+ */
+export function templateToLayoutData(template: LayoutTemplate): LayoutData {
+  return {
+    name: template.name.trim(),
+    doorCount: template.doors.length,
+    doors: template.doors.map((door, doorIndex) => {
+      const layout: Refrigerator = {};
+      door.rows.forEach((row, rowIndex) => {
+        const rowId = `row-${rowIndex + 1}`;
+        layout[rowId] = {
+          id: rowId,
+          capacity: toPixels(row.capacityMM),
+          maxHeight: toPixels(row.maxHeightMM),
+          allowedProductTypes: row.allowedProductTypes,
+          stacks: [],
+        };
+      });
+
+      return {
+        id: `door-${doorIndex + 1}`,
+        width: toPixels(door.widthMM),
+        height: toPixels(door.heightMM),
+        layout,
+      };
+    }),
+  };
+}
+
+/**
+ * Convert stored LayoutData back into a millimetre-based template for editing.
+ * Legacy single-door layouts (top-level width/height/layout) are handled too.
+ */
+export function layoutDataToTemplate(layoutData: LayoutData): LayoutTemplate {
+  return {
+    name: layoutData.name,
+    doors: (layoutData.doors?.length ? layoutData.doors : getDoorConfigs(layoutData)).map(door => ({
+      widthMM: toMillimetres(door.width),
+      heightMM: toMillimetres(door.height),
+      rows: Object.keys(door.layout)
+        .sort(compareRowIds)
+        .map(rowId => {
+          const row = door.layout[rowId];
+          return {
+            capacityMM: toMillimetres(row.capacity),
+            maxHeightMM: toMillimetres(row.maxHeight),
+            allowedProductTypes: row.allowedProductTypes,
+          };
+        }),
+    })),
+  };
+}
+
+/**
+ * Validates a LayoutData request body. Returns an error message or null.
+ */
+export function validateLayoutData(body: unknown): string | null {
+  if (!isRecord(body)) return 'Request body must be a JSON object';
+  if (typeof body.name !== 'string' || !body.name.trim()) return '"name" is required';
+  if (!Array.isArray(body.doors) || body.doors.length === 0) return '"doors" must be a non-empty array';
+  const doors: unknown[] = body.doors;
+
+  for (const [doorIndex, door] of doors.entries()) {
+    const doorLabel = `doors[${doorIndex}]`;
+    if (!isRecord(door) || !isPositiveNumber(door.width) || !isPositiveNumber(door.height)) {
+      return `${doorLabel}: width and height must be positive numbers`;
+    }
+    if (!isRecord(door.layout) || Object.keys(door.layout).length === 0) {
+      return `${doorLabel}: layout must contain at least one row`;
+    }
+
+    for (const [rowId, row] of Object.entries(door.layout)) {
+      const rowLabel = `${doorLabel}.layout.${rowId}`;
+      if (!/^row-\d+$/.test(rowId)) return `${rowLabel}: row ids must look like "row-1"`;
+      if (!isRecord(row) || !isPositiveNumber(row.capacity) || !isPositiveNumber(row.maxHeight)) {
+        return `${rowLabel}: capacity and maxHeight must be positive numbers`;
+      }
+      const types = row.allowedProductTypes;
+      if (types !== 'all' && !(Array.isArray(types) && types.every((t: unknown) => typeof t === 'string'))) {
+        return `${rowLabel}: allowedProductTypes must be "all" or an array of strings`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalise a validated LayoutData body: consistent door/row ids, empty stacks,
+ * doorCount derived from the doors array.
+ */
+export function normalizeLayoutData(body: LayoutData): LayoutData {
+  return {
+    name: body.name.trim(),
+    doorCount: body.doors.length,
+    doors: body.doors.map((door, doorIndex) => {
+      const layout: Refrigerator = {};
+      for (const rowId of Object.keys(door.layout).sort(compareRowIds)) {
+        const row = door.layout[rowId];
+        layout[rowId] = {
+          id: rowId,
+          capacity: Math.round(row.capacity),
+          maxHeight: Math.round(row.maxHeight),
+          allowedProductTypes: row.allowedProductTypes,
+          stacks: [],
+        };
+      }
+      return {
+        id: `door-${doorIndex + 1}`,
+        width: Math.round(door.width),
+        height: Math.round(door.height),
+        layout,
+      };
+    }),
+  };
+}
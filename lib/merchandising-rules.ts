@@ -0,0 +1,481 @@
+/**
+ * Merchandising Rules
+ *
+ * Declarative planogram rules that go beyond a shelf's allowedProductTypes.
+ * A rule set is plain JSON (stored in data/rules.json and edited on /rules):
+ *
+ *   {
+ *     "version": 1,
+ *     "rules": [
+ *       { "id": "cola-facings", "name": "2-6 facings per cola SKU", "type": "facings",
+ *         "severity": "error", "enabled": true, "selector": { "brands": ["PEPSI"] }, "min": 2, "max": 6 },
+ *       { "id": "premium-eye-level", "name": "Premium at eye level", "type": "row-restriction",
+ *         "severity": "warning", "enabled": true, "selector": { "productTypes": ["PREMIUM"] }, "rows": [2, 3] }
+ *     ]
+ *   }
+ *
+ * Shelves are numbered from 1 at the top of each door. A facing is one stack,
+ * as in the shelf analytics. Blank spaces are never subject to any rule.
+ *
+ * Severity decides how a violation is surfaced: 'error' items are flagged as
+ * conflicts and block drops while rules are enabled; 'warning' and 'info'
+ * violations are only listed in the conflict panel.
+ */
+
+import { Item, MultiDoorRefrigerator, Refrigerator, Row } from './types';
+import { getSkuBrand } from './sku-catalog';
+import { compareRowIds } from './layout-templates';
+import { STACK_GAP, getStackWidth } from './validation';
+import { isRecord } from './utils';
+
+export const RULE_SET_VERSION = 1;
+
+export const RULE_SEVERITIES = ['error', 'warning', 'info'] as const;
+export type RuleSeverity = typeof RULE_SEVERITIES[number];
+
+export const RULE_TYPES = ['facings', 'adjacency', 'row-restriction', 'max-skus-per-shelf', 'vertical-block'] as const;
+export type RuleType = typeof RULE_TYPES[number];
+
+/**
+ * Which products a rule applies to. Every listed criterion must match;
+ * an empty selector matches every product.
+ */
+export interface RuleSelector {
+  skuIds?: string[];
+  brands?: string[];
+  productTypes?: string[];
+}
+
+interface RuleBase {
+  id: string;
+  name: string;
+  severity: RuleSeverity;
+  enabled: boolean;
+}
+
+// Min and/or max facings for each SKU matched by the selector
+export interface FacingsRule extends RuleBase {
+  type: 'facings';
+  selector: RuleSelector;
+  min?: number;
+  max?: number;
+}
+
+// On every shelf holding brand A, at least one A stack sits next to a brand B stack
+export interface AdjacencyRule extends RuleBase {
+  type: 'adjacency';
+  brandA: string;
+  brandB: string;
+}
+
+// Matching products may only be placed on the listed shelves
+export interface RowRestrictionRule extends RuleBase {
+  type: 'row-restriction';
+  selector: RuleSelector;
+  rows: number[];
+}
+
+// No more than `max` different SKUs on any one shelf
+export interface MaxSkusPerShelfRule extends RuleBase {
+  type: 'max-skus-per-shelf';
+  max: number;
+}
+
+// Each brand (all brands when omitted) forms one block within a door: its stacks are
+// contiguous on each shelf, on consecutive shelves, and overlap the shelf above
+export interface VerticalBlockRule extends RuleBase {
+  type: 'vertical-block';
+  brands?: string[];
+}
+
+export type MerchandisingRule =
+  | FacingsRule
+  | AdjacencyRule
+  | RowRestrictionRule
+  | MaxSkusPerShelfRule
+  | VerticalBlockRule;
+
+export interface RuleSet {
+  version: number;
+  rules: MerchandisingRule[];
+}
+
+export const EMPTY_RULE_SET: RuleSet = { version: RULE_SET_VERSION, rules: [] };
+
+export interface RuleViolation {
+  ruleId: string;
+  ruleName: string;
+  severity: RuleSeverity;
+  message: string;
+  measured?: string; // Measured versus allowed value, for countable rules
+  allowed?: string;
+  itemIds: string[];
+  doorId?: string;
+  rowId?: string;
+}
+
+// --- Validation ---
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+function validateSelector(selector: unknown, label: string): string | null {
+  if (!isRecord(selector)) return `${label}: "selector" must be an object`;
+  for (const key of ['skuIds', 'brands', 'productTypes'] as const) {
+    if (selector[key] !== undefined && !isStringArray(selector[key])) {
+      return `${label}: selector.${key} must be an array of strings`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates a rule set body. Returns an error message or null.
+ */
+export function validateRuleSet(body: unknown): string | null {
+  if (!isRecord(body)) return 'Request body must be a JSON object';
+  if (body.version !== RULE_SET_VERSION) return `"version" must be ${RULE_SET_VERSION}`;
+  if (!Array.isArray(body.rules)) return '"rules" must be an array';
+  const rules: unknown[] = body.rules;
+
+  const ids = new Set<string>();
+  for (const [index, rule] of rules.entries()) {
+    const label = `rules[${index}]`;
+    if (!isRecord(rule)) return `${label}: must be an object`;
+    if (typeof rule.id !== 'string' || !rule.id.trim()) return `${label}: "id" is required`;
+    if (ids.has(rule.id)) return `${label}: duplicate id "${rule.id}"`;
+    ids.add(rule.id);
+    if (typeof rule.name !== 'string' || !rule.name.trim()) return `${label}: "name" is required`;
+    if (!RULE_SEVERITIES.some(severity => severity === rule.severity)) return `${label}: "severity" must be one of ${RULE_SEVERITIES.join(', ')}`;
+    if (typeof rule.enabled !== 'boolean') return `${label}: "enabled" must be true or false`;
+
+    switch (rule.type) {
+      case 'facings': {
+        const selectorError = validateSelector(rule.selector, label);
+        if (selectorError) return selectorError;
+        if (rule.min === undefined && rule.max === undefined) return `${label}: set "min", "max" or both`;
+        if (rule.min !== undefined && !isCount(rule.min)) return `${label}: "min" must be a whole number`;
+        if (rule.max !== undefined && !isCount(rule.max)) return `${label}: "max" must be a whole number`;
+        if (rule.min !== undefined && rule.max !== undefined && rule.min > rule.max) return `${label}: "min" is greater than "max"`;
+        break;
+      }
+      case 'adjacency':
+        if (typeof rule.brandA !== 'string' || !rule.brandA.trim() || typeof rule.brandB !== 'string' || !rule.brandB.trim()) {
+          return `${label}: "brandA" and "brandB" are required`;
+        }
+        break;
+      case 'row-restriction': {
+        const selectorError = validateSelector(rule.selector, label);
+        if (selectorError) return selectorError;
+        if (!Array.isArray(rule.rows) || rule.rows.length === 0 || !rule.rows.every((row: unknown) => isCount(row) && row > 0)) {
+          return `${label}: "rows" must be a non-empty array of shelf numbers (1 = top)`;
+        }
+        break;
+      }
+      case 'max-skus-per-shelf':
+        if (!isCount(rule.max) || rule.max < 1) return `${label}: "max" must be a whole number of at least 1`;
+        break;
+      case 'vertical-block':
+        if (rule.brands !== undefined && !isStringArray(rule.brands)) return `${label}: "brands" must be an array of strings`;
+        break;
+      default:
+        return `${label}: "type" must be one of ${RULE_TYPES.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+// --- Evaluation helpers ---
+
+const normalizeBrand = (brand: string) => brand.trim().toUpperCase();
+
+const isBlank = (item: Item) => item.productType === 'BLANK';
+
+function matchesSelector(item: Pick<Item, 'skuId' | 'name' | 'brand' | 'productType'>, selector: RuleSelector): boolean {
+  if (selector.skuIds && !selector.skuIds.includes(item.skuId)) return false;
+  if (selector.brands && !selector.brands.map(normalizeBrand).includes(getSkuBrand(item))) return false;
+  if (selector.productTypes && !selector.productTypes.includes(item.productType)) return false;
+  return true;
+}
+
+// Non-blank items of a stack
+const productsOf = (stack: Item[]) => stack.filter(item => !isBlank(item));
+
+interface ShelfRef {
+  doorId: string;
+  rowId: string;
+  shelfNumber: number; // 1 = top shelf of the door
+  row: Row;
+}
+
+function getShelves(refrigerators: MultiDoorRefrigerator): ShelfRef[] {
+  const shelves: ShelfRef[] = [];
+  Object.keys(refrigerators).sort(compareRowIds).forEach(doorId => {
+    const door: Refrigerator = refrigerators[doorId];
+    Object.keys(door).sort(compareRowIds).forEach((rowId, index) => {
+      shelves.push({ doorId, rowId, shelfNumber: index + 1, row: door[rowId] });
+    });
+  });
+  return shelves;
+}
+
+const describeShelf = (shelf: Pick<ShelfRef, 'doorId' | 'shelfNumber'>, isMultiDoor: boolean) =>
+  `${isMultiDoor ? `${shelf.doorId.replace('door-', 'Door ')}, ` : ''}Shelf ${shelf.shelfNumber}`;
+
+const violation = (
+  rule: MerchandisingRule,
+  message: string,
+  itemIds: string[],
+  shelf?: ShelfRef,
+  values?: Pick<RuleViolation, 'measured' | 'allowed'>,
+): RuleViolation => ({
+  ruleId: rule.id,
+  ruleName: rule.name,
+  severity: rule.severity,
+  message,
+  ...values,
+  itemIds,
+  ...(shelf && { doorId: shelf.doorId, rowId: shelf.rowId }),
+});
+
+// --- Rule evaluators ---
+
+function evaluateFacings(rule: FacingsRule, shelves: ShelfRef[]): RuleViolation[] {
+  // SKU -> the stacks (facings) it appears in, in reading order
+  const facings = new Map<string, { name: string; stacks: Item[][] }>();
+  rule.selector.skuIds?.forEach(skuId => facings.set(skuId, { name: skuId, stacks: [] }));
+
+  for (const shelf of shelves) {
+    for (const stack of shelf.row.stacks) {
+      const seen = new Set<string>();
+      for (const item of productsOf(stack)) {
+        if (seen.has(item.skuId) || !matchesSelector(item, rule.selector)) continue;
+        seen.add(item.skuId);
+        const entry = facings.get(item.skuId) || { name: item.name, stacks: [] };
+        entry.name = item.name;
+        entry.stacks.push(stack);
+        facings.set(item.skuId, entry);
+      }
+    }
+  }
+
+  const allowed = rule.min !== undefined && rule.max !== undefined
+    ? `${rule.min}-${rule.max} facings`
+    : rule.min !== undefined ? `at least ${rule.min} facings` : `at most ${rule.max} facings`;
+  const violations: RuleViolation[] = [];
+  facings.forEach(({ name, stacks }, skuId) => {
+    const count = stacks.length;
+    const itemsOf = (list: Item[][]) => list.flatMap(stack => stack.filter(item => item.skuId === skuId).map(item => item.id));
+    if (rule.min !== undefined && count < rule.min) {
+      violations.push(violation(rule, `${name} has ${count} facing(s), needs at least ${rule.min}`, itemsOf(stacks), undefined,
+        { measured: `${count} facings`, allowed }));
+    }
+    if (rule.max !== undefined && count > rule.max) {
+      // The facings past the limit are the ones to remove
+      violations.push(violation(rule, `${name} has ${count} facings, at most ${rule.max} allowed`, itemsOf(stacks.slice(rule.max)), undefined,
+        { measured: `${count} facings`, allowed }));
+    }
+  });
+  return violations;
+}
+
+function evaluateAdjacency(rule: AdjacencyRule, shelves: ShelfRef[], isMultiDoor: boolean): RuleViolation[] {
+  const brandA = normalizeBrand(rule.brandA);
+  const brandB = normalizeBrand(rule.brandB);
+  const violations: RuleViolation[] = [];
+
+  for (const shelf of shelves) {
+    // Blank spaces don't separate neighbours
+    const stacks = shelf.row.stacks.map(productsOf).filter(stack => stack.length > 0);
+    const hasBrand = (stack: Item[] | undefined, brand: string) => !!stack?.some(item => getSkuBrand(item) === brand);
+
+    const stacksOfA = stacks.filter(stack => hasBrand(stack, brandA));
+    if (stacksOfA.length === 0) continue;
+
+    const isAdjacent = stacks.some((stack, index) =>
+      hasBrand(stack, brandA) && (hasBrand(stacks[index - 1], brandB) || hasBrand(stacks[index + 1], brandB)));
+    if (!isAdjacent) {
+      violations.push(violation(
+        rule,
+        `${brandA} is not next to ${brandB} on ${describeShelf(shelf, isMultiDoor)}`,
+        stacksOfA.flatMap(stack => stack.filter(item => getSkuBrand(item) === brandA).map(item => item.id)),
+        shelf,
+      ));
+    }
+  }
+  return violations;
+}
+
+function evaluateRowRestriction(rule: RowRestrictionRule, shelves: ShelfRef[], isMultiDoor: boolean): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  for (const shelf of shelves) {
+    if (rule.rows.includes(shelf.shelfNumber)) continue;
+    const itemIds = shelf.row.stacks
+      .flatMap(productsOf)
+      .filter(item => matchesSelector(item, rule.selector))
+      .map(item => item.id);
+    if (itemIds.length > 0) {
+      violations.push(violation(
+        rule,
+        `${itemIds.length} item(s) on ${describeShelf(shelf, isMultiDoor)} belong on shelf ${rule.rows.join(', ')}`,
+        itemIds,
+        shelf,
+        { measured: `shelf ${shelf.shelfNumber}`, allowed: `shelf ${rule.rows.join(', ')}` },
+      ));
+    }
+  }
+  return violations;
+}
+
+function evaluateMaxSkusPerShelf(rule: MaxSkusPerShelfRule, shelves: ShelfRef[], isMultiDoor: boolean): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  for (const shelf of shelves) {
+    const items = shelf.row.stacks.flatMap(productsOf);
+    const skuIds = Array.from(new Set(items.map(item => item.skuId)));
+    if (skuIds.length <= rule.max) continue;
+
+    // The SKUs beyond the limit, reading left to right, are the ones flagged
+    const extraSkuIds = new Set(skuIds.slice(rule.max));
+    violations.push(violation(
+      rule,
+      `${describeShelf(shelf, isMultiDoor)} has ${skuIds.length} different SKUs, at most ${rule.max} allowed`,
+      items.filter(item => extraSkuIds.has(item.skuId)).map(item => item.id),
+      shelf,
+      { measured: `${skuIds.length} SKUs`, allowed: `${rule.max} SKUs` },
+    ));
+  }
+  return violations;
+}
+
+function evaluateVerticalBlock(rule: VerticalBlockRule, refrigerators: MultiDoorRefrigerator, isMultiDoor: boolean): RuleViolation[] {
+  const brandFilter = rule.brands?.map(normalizeBrand);
+  const violations: RuleViolation[] = [];
+
+  for (const doorId of Object.keys(refrigerators).sort(compareRowIds)) {
+    const door = refrigerators[doorId];
+    const rowIds = Object.keys(door).sort(compareRowIds);
+    const doorLabel = isMultiDoor ? ` in ${doorId.replace('door-', 'Door ')}` : '';
+
+    // Brand -> per shelf: the horizontal extent it covers and its stack positions
+    const footprints = new Map<string, { shelfIndex: number; start: number; end: number; stackIndexes: number[]; itemIds: string[] }[]>();
+    rowIds.forEach((rowId, shelfIndex) => {
+      let x = 0;
+      door[rowId].stacks.forEach((stack, stackIndex) => {
+        const width = getStackWidth(stack);
+        const brands = new Set(productsOf(stack).map(item => getSkuBrand(item)));
+        brands.forEach(brand => {
+          if (brandFilter && !brandFilter.includes(brand)) return;
+          const shelves = footprints.get(brand) || [];
+          let entry = shelves.find(shelf => shelf.shelfIndex === shelfIndex);
+          if (!entry) {
+            entry = { shelfIndex, start: x, end: x + width, stackIndexes: [], itemIds: [] };
+            shelves.push(entry);
+          }
+          entry.end = x + width;
+          entry.stackIndexes.push(stackIndex);
+          entry.itemIds.push(...stack.filter(item => !isBlank(item) && getSkuBrand(item) === brand).map(item => item.id));
+          footprints.set(brand, shelves);
+        });
+        x += width + STACK_GAP;
+      });
+    });
+
+    footprints.forEach((shelves, brand) => {
+      const itemIds = shelves.flatMap(shelf => shelf.itemIds);
+
+      // Contiguous on each shelf: no other product between the first and last stack
+      const splitShelf = shelves.find(shelf => {
+        const row = door[rowIds[shelf.shelfIndex]];
+        const first = shelf.stackIndexes[0];
+        const last = shelf.stackIndexes[shelf.stackIndexes.length - 1];
+        return row.stacks.slice(first, last + 1).some((stack, offset) =>
+          !shelf.stackIndexes.includes(first + offset) && productsOf(stack).length > 0);
+      });
+      if (splitShelf) {
+        violations.push(violation(rule, `${brand} is split on shelf ${splitShelf.shelfIndex + 1}${doorLabel}`, itemIds));
+        return;
+      }
+
+      // Consecutive shelves that overlap horizontally
+      for (let i = 1; i < shelves.length; i++) {
+        const above = shelves[i - 1];
+        const below = shelves[i];
+        if (below.shelfIndex !== above.shelfIndex + 1) {
+          violations.push(violation(rule, `${brand} skips shelf ${above.shelfIndex + 2}${doorLabel}`, itemIds));
+          return;
+        }
+        if (below.start >= above.end || above.start >= below.end) {
+          violations.push(violation(rule, `${brand} on shelf ${below.shelfIndex + 1}${doorLabel} is not under the block above`, itemIds));
+          return;
+        }
+      }
+    });
+  }
+  return violations;
+}
+
+/**
+ * Evaluates every enabled rule against the whole cooler.
+ * @returns Violations ordered by rule, each with the offending item ids
+ */
+export function evaluateRules(refrigerators: MultiDoorRefrigerator, rules: MerchandisingRule[]): RuleViolation[] {
+  const shelves = getShelves(refrigerators);
+  const isMultiDoor = Object.keys(refrigerators).length > 1;
+
+  return rules.filter(rule => rule.enabled).flatMap(rule => {
+    switch (rule.type) {
+      case 'facings': return evaluateFacings(rule, shelves);
+      case 'adjacency': return evaluateAdjacency(rule, shelves, isMultiDoor);
+      case 'row-restriction': return evaluateRowRestriction(rule, shelves, isMultiDoor);
+      case 'max-skus-per-shelf': return evaluateMaxSkusPerShelf(rule, shelves, isMultiDoor);
+      case 'vertical-block': return evaluateVerticalBlock(rule, refrigerators, isMultiDoor);
+      default: return [];
+    }
+  });
+}
+
+/**
+ * Checks whether placing a product on a shelf would break an enabled 'error' rule.
+ * Only rules a single drop can break are checked (shelf restrictions, SKUs per
+ * shelf and max facings); layout rules like adjacency are reported afterwards.
+ * @param isNewFacing - false when stacking onto an existing stack
+ * @param movingStackId - id of a stack already on the planogram that is being moved;
+ *   it is left out of the counts
+ * @returns The first broken rule's name, or null when the placement is allowed
+ */
+export function getPlacementRuleViolation(
+  rules: MerchandisingRule[],
+  refrigerators: MultiDoorRefrigerator,
+  item: Pick<Item, 'skuId' | 'name' | 'brand' | 'productType'>,
+  target: { doorId: string; rowId: string },
+  isNewFacing: boolean,
+  movingStackId?: string,
+): string | null {
+  if (item.productType === 'BLANK') return null;
+
+  const door = refrigerators[target.doorId];
+  const row = door?.[target.rowId];
+  if (!row) return null;
+  const shelfNumber = Object.keys(door).sort(compareRowIds).indexOf(target.rowId) + 1;
+  const isMoving = (stack: Item[]) => !!movingStackId && stack.some(other => other.id === movingStackId);
+
+  for (const rule of rules) {
+    if (!rule.enabled || rule.severity !== 'error') continue;
+
+    if (rule.type === 'row-restriction') {
+      if (matchesSelector(item, rule.selector) && !rule.rows.includes(shelfNumber)) return rule.name;
+    } else if (rule.type === 'max-skus-per-shelf') {
+      const skuIds = new Set(row.stacks.filter(stack => !isMoving(stack)).flatMap(productsOf).map(other => other.skuId));
+      if (!skuIds.has(item.skuId) && skuIds.size >= rule.max) return rule.name;
+    } else if (rule.type === 'facings' && rule.max !== undefined && isNewFacing && matchesSelector(item, rule.selector)) {
+      const facings = Object.values(refrigerators)
+        .flatMap(otherDoor => Object.values(otherDoor).flatMap(otherRow => otherRow.stacks))
+        .filter(stack => !isMoving(stack) && stack.some(other => other.skuId === item.skuId))
+        .length;
+      if (facings >= rule.max) return rule.name;
+    }
+  }
+  return null;
+}
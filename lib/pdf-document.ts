@@ -0,0 +1,170 @@
+/**
+ * PDF Document
+ *
+ * A small PDF 1.4 writer for generated reports: pages of text, lines and
+ * rectangles in the standard Helvetica fonts, no images or embedded fonts.
+ * Coordinates are points from the top-left corner of the page, as on screen;
+ * they are flipped to PDF's bottom-left origin when written.
+ *
+ * Text is encoded as WinAnsi (Latin-1), so characters outside it print as '?'.
+ */
+
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export interface PdfTextOptions {
+  size?: number; // Points, default 10
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'center' | 'right'; // Relative to x
+}
+
+export interface PdfShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+export interface PdfDocument {
+  pageWidth: number;
+  pageHeight: number;
+  readonly pageCount: number;
+  addPage: () => void;
+  setPage: (index: number) => void; // 0-based; later drawing goes to this page
+  text: (x: number, y: number, value: string, options?: PdfTextOptions) => void; // y is the baseline
+  rect: (x: number, y: number, width: number, height: number, options?: PdfShapeOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: PdfShapeOptions) => void;
+  textWidth: (value: string, size?: number, bold?: boolean) => number;
+  fitText: (value: string, maxWidth: number, size?: number, bold?: boolean) => string; // Truncates with '...'
+  toBlob: () => Blob;
+}
+
+// A4 portrait in points
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+const BLACK: PdfColor = [0, 0, 0];
+
+// Approximate Helvetica advance widths (1/1000 em), close enough for layout and truncation
+const NARROW = new Set("il.,:;'|!`Ijtf()[] ");
+const WIDE = new Set('mwMW@%');
+function getCharWidth(char: string, bold: boolean): number {
+  let width = 556;
+  if (NARROW.has(char)) width = char === ' ' ? 278 : 250;
+  else if (WIDE.has(char)) width = 889;
+  else if (char >= 'A' && char <= 'Z') width = 667;
+  return bold ? width * 1.05 : width;
+}
+
+const formatNumber = (value: number) => (Math.round(value * 100) / 100).toString();
+const formatColor = (color: PdfColor) => color.map(formatNumber).join(' ');
+
+// Literal string in WinAnsi, with PDF escapes
+function encodeText(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') encoded += `\\${char}`;
+    else if (code >= 32 && code <= 126) encoded += char;
+    else if (code >= 160 && code <= 255) encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    else encoded += '?';
+  }
+  return encoded;
+}
+
+/**
+ * Starts an empty document; call addPage() before drawing.
+ */
+export function createPdfDocument(pageWidth = A4_WIDTH, pageHeight = A4_HEIGHT): PdfDocument {
+  const pages: string[][] = [];
+  let current = -1;
+
+  const draw = (operation: string) => {
+    if (current < 0) throw new Error('Add a page before drawing');
+    pages[current].push(operation);
+  };
+  const flipY = (y: number) => formatNumber(pageHeight - y);
+
+  const textWidth = (value: string, size = 10, bold = false) =>
+    Array.from(value).reduce((sum, char) => sum + getCharWidth(char, bold), 0) * size / 1000;
+
+  return {
+    pageWidth,
+    pageHeight,
+    get pageCount() {
+      return pages.length;
+    },
+
+    addPage: () => {
+      pages.push([]);
+      current = pages.length - 1;
+    },
+
+    setPage: (index) => {
+      if (index < 0 || index >= pages.length) throw new Error(`No page ${index}`);
+      current = index;
+    },
+
+    text: (x, y, value, { size = 10, bold = false, color = BLACK, align = 'left' } = {}) => {
+      const width = textWidth(value, size, bold);
+      const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+      draw(`BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatColor(color)} rg ${formatNumber(left)} ${flipY(y)} Td (${encodeText(value)}) Tj ET`);
+    },
+
+    rect: (x, y, width, height, { fill, stroke, lineWidth = 0.5 } = {}) => {
+      if (!fill && !stroke) return;
+      const operator = fill && stroke ? 'B' : fill ? 'f' : 'S';
+      draw([
+        fill ? `${formatColor(fill)} rg` : '',
+        stroke ? `${formatColor(stroke)} RG ${formatNumber(lineWidth)} w` : '',
+        `${formatNumber(x)} ${flipY(y + height)} ${formatNumber(width)} ${formatNumber(height)} re ${operator}`,
+      ].filter(Boolean).join(' '));
+    },
+
+    line: (x1, y1, x2, y2, { stroke = BLACK, lineWidth = 0.5 } = {}) => {
+      draw(`${formatColor(stroke)} RG ${formatNumber(lineWidth)} w ${formatNumber(x1)} ${flipY(y1)} m ${formatNumber(x2)} ${flipY(y2)} l S`);
+    },
+
+    textWidth,
+
+    fitText: (value, maxWidth, size = 10, bold = false) => {
+      if (textWidth(value, size, bold) <= maxWidth) return value;
+      let fitted = value;
+      while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > maxWidth) {
+        fitted = fitted.slice(0, -1);
+      }
+      return `${fitted}...`;
+    },
+
+    toBlob: () => {
+      // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+      const objects: string[] = [];
+      const pageIds = pages.map((_, index) => 5 + index * 2);
+      objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+      objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+      objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+      objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+      pages.forEach((operations, index) => {
+        const pageId = pageIds[index];
+        const content = operations.join('\n');
+        objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}] `
+          + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+        objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+      });
+
+      // Everything written is ASCII, so string length equals byte offset
+      let output = '%PDF-1.4\n';
+      const offsets: number[] = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = output.length;
+        output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+      }
+      const xrefOffset = output.length;
+      output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+      for (let id = 1; id < objects.length; id++) {
+        output += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+      }
+      output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+      return new Blob([output], { type: 'application/pdf' });
+    },
+  };
+}
@@ -0,0 +1,27 @@
+// Client-side helpers for the /api/photos routes
+const API_BASE_URL = '/api';
+
+const readError = async (response: Response): Promise<string> => {
+  const body = await response.json().catch(() => null);
+  return body?.error || response.statusText || `Request failed (${response.status})`;
+};
+
+export interface UploadedPhoto {
+  id: string;
+  url: string;
+}
+
+/**
+ * Store a shelf photo on the server so it can be kept with a planogram.
+ */
+export async function uploadPhoto(image: File): Promise<UploadedPhoto> {
+  const formData = new FormData();
+  formData.append('image', image, image.name);
+
+  const response = await fetch(`${API_BASE_URL}/photos`, { method: 'POST', body: formData });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = await response.json();
+  return body.photo;
+}
@@ -0,0 +1,94 @@
+/**
+ * Photo Repository (server only)
+ *
+ * Keeps the shelf photos planograms were imported from in data/photos/, so
+ * the editor can show the original photo next to the detections. Photos are
+ * immutable: every upload gets a new id.
+ */
+
+import { readDataFile, writeDataFile } from './json-file-store';
+
+const PHOTOS_DIR = 'photos';
+
+export const MAX_PHOTO_BYTES = 15 * 1024 * 1024;
+
+// Content type -> file extension of the formats browsers can display
+const PHOTO_TYPES: { [contentType: string]: string } = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const PHOTO_ID_PATTERN = /^photo-[a-z0-9-]+\.(jpg|png|webp)$/;
+
+export interface StoredPhoto {
+  id: string; // File name, including the extension
+  url: string;
+}
+
+export interface PhotoContent {
+  data: Buffer;
+  contentType: string;
+}
+
+const generatePhotoId = (extension: string) =>
+  `photo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${extension}`;
+
+export const getPhotoUrl = (photoId: string) => `/api/photos/${photoId}`;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+/**
+ * The content type the file's magic bytes identify, or null for anything but
+ * JPEG, PNG and WebP. The type a client sends is only a claim; photos are
+ * served from this origin, so what they are served as comes from the bytes.
+ */
+export function detectPhotoType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  // 'RIFF' <size> 'WEBP'
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  return null;
+}
+
+/**
+ * Validates an uploaded photo. Returns an error message or null.
+ */
+export async function validatePhoto(file: File | null): Promise<string | null> {
+  if (!file) return '"image" is required';
+  if (!PHOTO_TYPES[file.type]) return `Unsupported image type "${file.type || 'unknown'}" (expected JPEG, PNG or WebP)`;
+  if (file.size === 0) return 'The image is empty';
+  if (file.size > MAX_PHOTO_BYTES) return `The image is larger than ${MAX_PHOTO_BYTES / 1024 / 1024}MB`;
+  if (!detectPhotoType(new Uint8Array(await file.slice(0, 12).arrayBuffer()))) {
+    return 'The file is not a JPEG, PNG or WebP image';
+  }
+  return null;
+}
+
+/**
+ * Stores a photo that passed validatePhoto, under the type its bytes show.
+ */
+export async function savePhoto(file: File): Promise<StoredPhoto> {
+  const data = Buffer.from(await file.arrayBuffer());
+  const contentType = detectPhotoType(data);
+  if (!contentType) throw new Error('The file is not a JPEG, PNG or WebP image');
+
+  const id = generatePhotoId(PHOTO_TYPES[contentType]);
+  await writeDataFile(`${PHOTOS_DIR}/${id}`, data);
+  return { id, url: getPhotoUrl(id) };
+}
+
+export async function getPhoto(photoId: string): Promise<PhotoContent | null> {
+  // Ids come from the URL; anything but a generated id could point outside the photos directory
+  if (!PHOTO_ID_PATTERN.test(photoId)) return null;
+
+  const data = await readDataFile(`${PHOTOS_DIR}/${photoId}`);
+  if (!data) return null;
+
+  // Files stored before uploads were checked may not be images at all
+  const extension = photoId.slice(photoId.lastIndexOf('.') + 1);
+  const contentType = detectPhotoType(data);
+  if (!contentType || PHOTO_TYPES[contentType] !== extension) return null;
+  return { data, contentType };
+}
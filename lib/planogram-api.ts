@@ -0,0 +1,84 @@
+import { MultiDoorRefrigerator, PlanogramSummary, SavedPlanogram, SourcePhoto } from './types';
+
+// Client-side helpers for the /api/planograms routes
+const API_BASE_URL = '/api';
+
+export interface PlanogramSavePayload {
+  name: string;
+  author: string;
+  layoutId: string;
+  refrigerators: MultiDoorRefrigerator;
+  sourcePhoto?: SourcePhoto;
+}
+
+export type PlanogramSaveResult =
+  | { status: 'saved'; planogram: SavedPlanogram }
+  | { status: 'conflict'; planogram: SavedPlanogram; message: string }
+  | { status: 'error'; message: string };
+
+const readError = async (response: Response): Promise<string> => {
+  const body = await response.json().catch(() => null);
+  return body?.error || response.statusText || `Request failed (${response.status})`;
+};
+
+/**
+ * Creates a new planogram, or saves a new version of an existing one.
+ * @param existing - The planogram being edited and the version it was loaded at (null = create)
+ */
+export async function savePlanogram(
+  payload: PlanogramSavePayload,
+  existing: { id: string; version: number } | null
+): Promise<PlanogramSaveResult> {
+  try {
+    const response = existing
+      ? await fetch(`${API_BASE_URL}/planograms/${existing.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...payload, version: existing.version }),
+      })
+      : await fetch(`${API_BASE_URL}/planograms`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+    if (response.status === 409) {
+      const body = await response.json();
+      return { status: 'conflict', planogram: body.planogram, message: body.error };
+    }
+    if (!response.ok) {
+      return { status: 'error', message: await readError(response) };
+    }
+
+    const body = await response.json();
+    return { status: 'saved', planogram: body.planogram };
+  } catch (error) {
+    return { status: 'error', message: (error instanceof Error && error.message) || 'Network error' };
+  }
+}
+
+export async function fetchPlanograms(layoutId?: string): Promise<PlanogramSummary[]> {
+  const query = layoutId ? `?layoutId=${encodeURIComponent(layoutId)}` : '';
+  const response = await fetch(`${API_BASE_URL}/planograms${query}`);
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = await response.json();
+  return body.planograms;
+}
+
+export async function fetchPlanogram(planogramId: string): Promise<SavedPlanogram> {
+  const response = await fetch(`${API_BASE_URL}/planograms/${planogramId}`);
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = await response.json();
+  return body.planogram;
+}
+
+export async function deletePlanogram(planogramId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/planograms/${planogramId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+}
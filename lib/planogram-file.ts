@@ -0,0 +1,253 @@
+/**
+ * Planogram Files
+ *
+ * The `.planogram.json` format for saving a planogram to disk and opening it
+ * again, on this install or another one. A file is self-contained: it embeds
+ * the cooler geometry it was built on and every SKU it places, so it opens
+ * even where that template or those SKUs don't exist.
+ *
+ * Files carry `format: "planogram"` and a schema `version`. Older shapes are
+ * upgraded one version at a time by MIGRATIONS when they are read, so a
+ * reader only ever sees the current version. Version 0 is anything saved
+ * before the format existed: the editor's state dump, a saved planogram from
+ * the API, or bare shelves, including single-door shapes without door keys.
+ */
+
+import { DoorConfig, Item, LayoutData, MultiDoorRefrigerator, Refrigerator, Sku, SourcePhoto } from './types';
+import { getDoorConfigs } from './multi-door-utils';
+import { compareRowIds, normalizeLayoutData, validateLayoutData } from './layout-templates';
+import { isPositiveNumber, isRecord } from './utils';
+
+export const PLANOGRAM_FILE_FORMAT = 'planogram';
+export const PLANOGRAM_FILE_VERSION = 1;
+export const PLANOGRAM_FILE_EXTENSION = 'planogram.json';
+
+export interface PlanogramFile {
+  format: typeof PLANOGRAM_FILE_FORMAT;
+  version: typeof PLANOGRAM_FILE_VERSION;
+  exportedAt: string; // ISO timestamp
+  name: string;
+  author?: string;
+  planogramVersion?: number; // Version of the saved planogram it was exported from
+  layoutId: string;
+  layout: LayoutData; // Template geometry in the 'doors' format, with empty shelves
+  refrigerators: MultiDoorRefrigerator; // Keyed 'door-N', matching layout.doors
+  skus: Sku[]; // Every SKU on the shelves, as the catalog had it at export
+  sourcePhoto?: SourcePhoto;
+}
+
+export interface PlanogramFileInput {
+  name: string;
+  author?: string;
+  planogramVersion?: number;
+  layoutId: string;
+  layout: LayoutData; // Legacy single-door templates are converted
+  refrigerators: MultiDoorRefrigerator;
+  sourcePhoto?: SourcePhoto | null;
+}
+
+type KnownLayouts = { [layoutId: string]: LayoutData };
+
+const isRowKey = (key: string) => /^row-\d+$/.test(key);
+const isDoorKey = (key: string) => /^door-\d+$/.test(key);
+
+// Doors in the 'doors' format, whichever shape the template is in
+const getLayoutDoors = (layout: LayoutData): DoorConfig[] =>
+  layout.doors?.length ? layout.doors : getDoorConfigs(layout);
+
+const toFileLayout = (layout: LayoutData): LayoutData =>
+  normalizeLayoutData({ ...layout, doors: getLayoutDoors(layout) });
+
+// The catalog fields of an item; instance fields (id, custom width, detection data) are left out
+const toSku = ({ skuId, name, widthMM, heightMM, width, height, imageUrl, productType, brand, constraints }: Item): Sku => ({
+  skuId,
+  name,
+  widthMM: widthMM ?? 0,
+  heightMM: heightMM ?? 0,
+  width,
+  height,
+  imageUrl,
+  productType,
+  ...(brand && { brand }),
+  constraints,
+});
+
+/**
+ * The SKUs placed on the shelves, once each, in shelf order.
+ */
+export function collectFileSkus(refrigerators: MultiDoorRefrigerator): Sku[] {
+  const skus = new Map<string, Sku>();
+  for (const doorId of Object.keys(refrigerators).sort(compareRowIds)) {
+    const door = refrigerators[doorId];
+    for (const rowId of Object.keys(door).sort(compareRowIds)) {
+      // Tolerates malformed shelves so old files reach validation with a readable error
+      for (const stack of door[rowId]?.stacks ?? []) {
+        if (!Array.isArray(stack)) continue;
+        stack.forEach(item => {
+          if (item?.skuId && !skus.has(item.skuId)) skus.set(item.skuId, toSku(item));
+        });
+      }
+    }
+  }
+  return Array.from(skus.values());
+}
+
+/**
+ * Builds the file for a planogram open in the editor.
+ */
+export function createPlanogramFile(input: PlanogramFileInput): PlanogramFile {
+  return {
+    format: PLANOGRAM_FILE_FORMAT,
+    version: PLANOGRAM_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: input.name,
+    ...(input.author && { author: input.author }),
+    ...(input.planogramVersion !== undefined && { planogramVersion: input.planogramVersion }),
+    layoutId: input.layoutId,
+    layout: toFileLayout(input.layout),
+    refrigerators: input.refrigerators,
+    skus: collectFileSkus(input.refrigerators),
+    ...(input.sourcePhoto && { sourcePhoto: input.sourcePhoto }),
+  };
+}
+
+export const serializePlanogramFile = (file: PlanogramFile): string => JSON.stringify(file, null, 2);
+
+// --- Migrations ---
+
+// Shelves keyed 'door-N', from either door-keyed or single-door (row-keyed) data
+function toDoorKeyed(shelves: any): MultiDoorRefrigerator | null {
+  if (!shelves || typeof shelves !== 'object') return null;
+  const keys = Object.keys(shelves);
+  if (keys.length > 0 && keys.every(isDoorKey)) return shelves;
+  if (keys.length > 0 && keys.every(isRowKey)) return { 'door-1': shelves as Refrigerator };
+  return null;
+}
+
+// Geometry for shelves whose template isn't known: each door just fits its shelves
+function deriveLayout(name: string, refrigerators: MultiDoorRefrigerator): LayoutData {
+  const doors = Object.keys(refrigerators).sort(compareRowIds).map(doorId => {
+    const rows = Object.values(refrigerators[doorId]);
+    return {
+      id: doorId,
+      width: Math.max(0, ...rows.map(row => row.capacity)),
+      height: rows.reduce((sum, row) => sum + row.maxHeight, 0),
+      layout: Object.fromEntries(Object.entries(refrigerators[doorId]).map(([rowId, row]) => [rowId, { ...row, stacks: [] }])),
+    };
+  });
+  return { name, doorCount: doors.length, doors };
+}
+
+/**
+ * Upgrades version `n` to `n + 1`. `knownLayouts` fills in geometry that old
+ * files only reference by id.
+ */
+const MIGRATIONS: { [fromVersion: number]: (file: any, knownLayouts: KnownLayouts) => any } = {
+  // Unversioned data: { refrigerators | refrigerator, layoutId | currentLayoutId, layout?, name?, author?, version? } or bare shelves
+  0: (data, knownLayouts) => {
+    const isBareShelves = !!toDoorKeyed(data);
+    const refrigerators = isBareShelves ? toDoorKeyed(data) : toDoorKeyed(data.refrigerators ?? data.refrigerator);
+    if (!refrigerators) throw new Error('No shelves found in the file');
+
+    const layoutId: string = (!isBareShelves && (data.layoutId ?? data.currentLayoutId)) || 'imported';
+    const name: string = (!isBareShelves && typeof data.name === 'string' && data.name) || knownLayouts[layoutId]?.name || 'Imported planogram';
+    const layout: LayoutData = (!isBareShelves && data.layout && typeof data.layout === 'object' && 'name' in data.layout)
+      ? data.layout
+      : knownLayouts[layoutId] ?? deriveLayout(name, refrigerators);
+
+    return {
+      format: PLANOGRAM_FILE_FORMAT,
+      version: 1,
+      exportedAt: (!isBareShelves && (data.updatedAt ?? data.exportedAt)) || new Date().toISOString(),
+      name,
+      ...(typeof data.author === 'string' && { author: data.author }),
+      // A saved planogram's 'version' is its revision, not a file version
+      ...(typeof data.version === 'number' && { planogramVersion: data.version }),
+      layoutId,
+      layout: toFileLayout(layout),
+      refrigerators,
+      skus: collectFileSkus(refrigerators),
+      ...(data.sourcePhoto && { sourcePhoto: data.sourcePhoto }),
+    };
+  },
+};
+
+/**
+ * Brings any known file version up to PLANOGRAM_FILE_VERSION.
+ */
+export function migratePlanogramFile(data: any, knownLayouts: KnownLayouts = {}): PlanogramFile {
+  let file = data;
+  let version = file?.format === PLANOGRAM_FILE_FORMAT ? file.version : 0;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Unknown planogram file version: ${version}`);
+  }
+  if (version > PLANOGRAM_FILE_VERSION) {
+    throw new Error(`This file was written by a newer version of the editor (file version ${version})`);
+  }
+  while (version < PLANOGRAM_FILE_VERSION) {
+    file = MIGRATIONS[version](file, knownLayouts);
+    version = file.version;
+  }
+  return file;
+}
+
+// --- Validation ---
+
+function validateItem(item: unknown, label: string): string | null {
+  if (!isRecord(item)) return `${label}: must be an object`;
+  if (typeof item.id !== 'string' || typeof item.skuId !== 'string') return `${label}: id and skuId are required`;
+  if (!isPositiveNumber(item.width) || !isPositiveNumber(item.height)) return `${label}: width and height must be positive numbers`;
+  if (!isRecord(item.constraints)) return `${label}: constraints are required`;
+  return null;
+}
+
+/**
+ * Validates a migrated file. Returns an error message or null.
+ */
+export function validatePlanogramFile(file: PlanogramFile): string | null {
+  if (typeof file.name !== 'string' || typeof file.layoutId !== 'string') return '"name" and "layoutId" are required';
+  const layoutError = validateLayoutData(file.layout);
+  if (layoutError) return `layout: ${layoutError}`;
+
+  const doorIds = file.layout.doors.map(door => door.id);
+  for (const doorId of Object.keys(file.refrigerators)) {
+    if (!doorIds.includes(doorId)) return `refrigerators.${doorId}: the layout has no such door`;
+    const door = file.refrigerators[doorId];
+    for (const rowId of Object.keys(door)) {
+      const row = door[rowId];
+      const rowLabel = `refrigerators.${doorId}.${rowId}`;
+      if (!isRowKey(rowId)) return `${rowLabel}: row ids must look like "row-1"`;
+      if (!(row?.capacity > 0) || !(row?.maxHeight > 0)) return `${rowLabel}: capacity and maxHeight must be positive numbers`;
+      if (!Array.isArray(row.stacks) || !row.stacks.every(Array.isArray)) return `${rowLabel}: stacks must be an array of arrays`;
+      for (const [stackIndex, stack] of row.stacks.entries()) {
+        for (const [itemIndex, item] of stack.entries()) {
+          const itemError = validateItem(item, `${rowLabel}.stacks[${stackIndex}][${itemIndex}]`);
+          if (itemError) return itemError;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads a `.planogram.json` file of any version. Throws with a readable
+ * message when the file can't be used.
+ * @param knownLayouts Templates on this install, for old files that only name theirs
+ */
+export function parsePlanogramFile(text: string, knownLayouts: KnownLayouts = {}): PlanogramFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(data)) {
+    throw new Error('The file does not contain a planogram');
+  }
+
+  const file = migratePlanogramFile(data, knownLayouts);
+  const error = validatePlanogramFile(file);
+  if (error) throw new Error(`Invalid planogram file: ${error}`);
+  return file;
+}
@@ -0,0 +1,399 @@
+/**
+ * Planogram Report
+ *
+ * A printable PDF of the planogram, drawn from the shelf data rather than a
+ * screenshot so it works for every cooler template:
+ *
+ * 1. Cover page: planogram, layout, version, date and totals
+ * 2. Per door: the cooler drawn to scale with numbered positions, and the
+ *    position map listing what stands at each number
+ * 3. Per shelf: one line per SKU with its positions, facings and stack depth
+ * 4. Conflict summary
+ *
+ * Positions are numbered per door, top shelf first, left to right. A position
+ * is one stack, so it is also one facing.
+ */
+
+import { Item, MultiDoorRefrigerator, Row } from './types';
+import { PIXELS_PER_MM } from './config';
+import { compareRowIds } from './layout-templates';
+import { ConflictEntry, STACK_GAP, getStackWidth } from './validation';
+import { PdfColor, PdfDocument, createPdfDocument } from './pdf-document';
+
+export interface PlanogramReportInput {
+  refrigerators: MultiDoorRefrigerator;
+  layoutName: string;
+  planogram?: { name: string; version: number; author?: string } | null; // Unset for unsaved drafts
+  conflicts: ConflictEntry[];
+  generatedAt?: Date;
+}
+
+interface Position {
+  number: number;
+  doorId: string;
+  rowId: string;
+  stackIndex: number;
+  stack: Item[];
+}
+
+interface TableColumn {
+  header: string;
+  width: number; // Share of the content width, the columns add up to 1
+  align?: 'left' | 'right';
+}
+
+const MARGIN = 40;
+const LINE_HEIGHT = 14;
+const GRAY: PdfColor = [0.45, 0.45, 0.45];
+const LIGHT_GRAY: PdfColor = [0.9, 0.9, 0.9];
+const RED: PdfColor = [0.86, 0.15, 0.15];
+const BLANK_FILL: PdfColor = [0.97, 0.97, 0.97];
+
+// Pastel fills told apart by product type
+const TYPE_FILLS: PdfColor[] = [
+  [0.75, 0.86, 0.98], [0.8, 0.94, 0.8], [0.99, 0.9, 0.72], [0.92, 0.82, 0.97],
+  [0.98, 0.8, 0.82], [0.78, 0.93, 0.93], [0.94, 0.94, 0.78], [0.88, 0.88, 0.88],
+];
+
+const getTypeFill = (productType: string): PdfColor => {
+  const hash = Array.from(productType).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 7);
+  return TYPE_FILLS[hash % TYPE_FILLS.length];
+};
+
+const toMM = (px: number) => Math.round(px / PIXELS_PER_MM);
+const isBlank = (item: Item) => item.productType === 'BLANK';
+const formatDoor = (doorId: string) => doorId.replace('door-', 'Door ');
+const formatShelf = (rowId: string) => rowId.replace('row-', 'Shelf ');
+
+const getSortedRows = (refrigerators: MultiDoorRefrigerator, doorId: string): [string, Row][] =>
+  Object.keys(refrigerators[doorId] || {}).sort(compareRowIds).map(rowId => [rowId, refrigerators[doorId][rowId]]);
+
+/**
+ * Numbers every non-empty stack: per door, top shelf first, left to right.
+ */
+export function getReportPositions(refrigerators: MultiDoorRefrigerator): Position[] {
+  const positions: Position[] = [];
+  for (const doorId of Object.keys(refrigerators).sort(compareRowIds)) {
+    let number = 0;
+    for (const [rowId, row] of getSortedRows(refrigerators, doorId)) {
+      row.stacks.forEach((stack, stackIndex) => {
+        if (stack.length > 0) positions.push({ number: ++number, doorId, rowId, stackIndex, stack });
+      });
+    }
+  }
+  return positions;
+}
+
+// Positions as a compact list, e.g. "1-3, 7"
+function formatNumbers(numbers: number[]): string {
+  const ranges: string[] = [];
+  let start = numbers[0];
+  for (let index = 1; index <= numbers.length; index++) {
+    if (numbers[index] === numbers[index - 1] + 1) continue;
+    const end = numbers[index - 1];
+    ranges.push(start === end ? `${start}` : `${start}-${end}`);
+    start = numbers[index];
+  }
+  return ranges.join(', ');
+}
+
+// Draws top to bottom, starting new pages as it runs out of room
+function createReportWriter(pdf: PdfDocument) {
+  const contentWidth = pdf.pageWidth - MARGIN * 2;
+  const bottom = pdf.pageHeight - MARGIN - LINE_HEIGHT; // Room for the footer
+  let y = MARGIN;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+
+  const heading = (value: string, size = 14) => {
+    ensureSpace(size + LINE_HEIGHT * 2);
+    y += size;
+    pdf.text(MARGIN, y, value, { size, bold: true });
+    y += LINE_HEIGHT * 0.75;
+  };
+
+  const paragraph = (value: string, color: PdfColor = GRAY) => {
+    ensureSpace(LINE_HEIGHT);
+    y += LINE_HEIGHT;
+    pdf.text(MARGIN, y, pdf.fitText(value, contentWidth, 9), { size: 9, color });
+  };
+
+  const table = (columns: TableColumn[], rows: string[][], rowColors: (PdfColor | undefined)[] = []) => {
+    const widths = columns.map(column => column.width * contentWidth);
+    const drawRow = (cells: string[], bold: boolean, color?: PdfColor) => {
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const align = columns[index].align ?? 'left';
+        const text = pdf.fitText(cell, widths[index] - 6, 8, bold);
+        pdf.text(align === 'right' ? x + widths[index] - 3 : x + 3, y - 4, text, { size: 8, bold, align, color });
+        x += widths[index];
+      });
+    };
+    const drawHeader = () => {
+      y += LINE_HEIGHT;
+      pdf.rect(MARGIN, y - LINE_HEIGHT, contentWidth, LINE_HEIGHT, { fill: LIGHT_GRAY });
+      drawRow(columns.map(column => column.header), true);
+    };
+
+    ensureSpace(LINE_HEIGHT * 2);
+    drawHeader();
+    rows.forEach((cells, index) => {
+      if (y + LINE_HEIGHT > bottom) {
+        newPage();
+        drawHeader();
+      }
+      y += LINE_HEIGHT;
+      pdf.line(MARGIN, y, MARGIN + contentWidth, y, { stroke: LIGHT_GRAY });
+      drawRow(cells, false, rowColors[index]);
+    });
+    y += LINE_HEIGHT / 2;
+  };
+
+  const space = (height: number) => {
+    y += height;
+  };
+
+  return {
+    contentWidth,
+    newPage,
+    heading,
+    paragraph,
+    table,
+    space,
+    get y() { return y; },
+    set y(value: number) { y = value; },
+    bottom,
+  };
+}
+
+// The cooler door to scale, each stack labelled with its position number
+function drawDoor(
+  pdf: PdfDocument,
+  rows: [string, Row][],
+  positions: Map<string, number>,
+  conflictItemIds: Set<string>,
+  doorId: string,
+  area: { x: number; y: number; width: number; height: number }
+): number {
+  const labelWidth = 22;
+  const doorWidth = Math.max(...rows.map(([, row]) => row.capacity), 1);
+  const doorHeight = rows.reduce((sum, [, row]) => sum + row.maxHeight, 0) || 1;
+  const scale = Math.min((area.width - labelWidth) / doorWidth, area.height / doorHeight);
+  const left = area.x + labelWidth;
+  let top = area.y;
+
+  pdf.rect(left, top, doorWidth * scale, doorHeight * scale, { stroke: GRAY, lineWidth: 1 });
+  for (const [rowId, row] of rows) {
+    const shelfHeight = row.maxHeight * scale;
+    const shelfBottom = top + shelfHeight;
+    pdf.text(area.x, top + shelfHeight / 2 + 3, rowId.replace('row-', 'S'), { size: 8, bold: true, color: GRAY });
+    pdf.line(left, shelfBottom, left + row.capacity * scale, shelfBottom, { stroke: GRAY, lineWidth: 1 });
+
+    let x = left;
+    row.stacks.forEach((stack, stackIndex) => {
+      if (stack.length === 0) return;
+      const stackWidth = getStackWidth(stack) * scale;
+      let itemBottom = shelfBottom;
+      for (const item of stack) {
+        const itemHeight = Math.min(item.height * scale, itemBottom - top);
+        const isConflict = conflictItemIds.has(item.id);
+        pdf.rect(x, itemBottom - itemHeight, item.width * scale, itemHeight, {
+          fill: isBlank(item) ? BLANK_FILL : getTypeFill(item.productType),
+          stroke: isConflict ? RED : GRAY,
+          lineWidth: isConflict ? 1.2 : 0.3,
+        });
+        itemBottom -= itemHeight;
+      }
+      const number = positions.get(`${doorId}:${rowId}:${stackIndex}`);
+      if (number !== undefined) {
+        const size = Math.max(4, Math.min(8, stackWidth * 0.45));
+        pdf.text(x + stackWidth / 2, shelfBottom - 3, `${number}`, { size, bold: true, align: 'center' });
+      }
+      x += stackWidth + STACK_GAP * scale;
+    });
+    top = shelfBottom;
+  }
+  return doorHeight * scale;
+}
+
+/**
+ * Renders the report described at the top of this file.
+ */
+export function buildPlanogramReport({ refrigerators, layoutName, planogram, conflicts, generatedAt = new Date() }: PlanogramReportInput): Blob {
+  const pdf = createPdfDocument();
+  const writer = createReportWriter(pdf);
+  const doorIds = Object.keys(refrigerators).sort(compareRowIds);
+  const positions = getReportPositions(refrigerators);
+  const positionNumbers = new Map(positions.map(position => [`${position.doorId}:${position.rowId}:${position.stackIndex}`, position.number]));
+  const conflictItemIds = new Set(conflicts.filter(entry => entry.severity === 'error').flatMap(entry => entry.itemIds));
+  const title = planogram ? `${planogram.name} v${planogram.version}` : layoutName;
+  const shelfCount = doorIds.reduce((sum, doorId) => sum + Object.keys(refrigerators[doorId]).length, 0);
+  const facings = positions.filter(position => position.stack.some(item => !isBlank(item))).length;
+  const severityCounts = { error: 0, warning: 0, info: 0 };
+  conflicts.forEach(entry => severityCounts[entry.severity]++);
+
+  // --- Cover ---
+  writer.newPage();
+  writer.space(120);
+  pdf.text(MARGIN, writer.y, 'Planogram Report', { size: 28, bold: true });
+  writer.space(30);
+  pdf.text(MARGIN, writer.y, pdf.fitText(title, writer.contentWidth, 16), { size: 16, color: GRAY });
+  writer.space(40);
+  const coverFields: [string, string][] = [
+    ['Layout', layoutName],
+    ['Planogram', planogram ? planogram.name : 'Unsaved draft'],
+    ['Version', planogram ? `${planogram.version}` : '-'],
+    ...(planogram?.author ? [['Author', planogram.author] as [string, string]] : []),
+    ['Date', generatedAt.toLocaleString()],
+    ['Doors', `${doorIds.length}`],
+    ['Shelves', `${shelfCount}`],
+    ['Facings', `${facings}`],
+    ['Conflicts', `${severityCounts.error} errors, ${severityCounts.warning} warnings`],
+  ];
+  for (const [label, value] of coverFields) {
+    pdf.text(MARGIN, writer.y, label, { size: 11, bold: true });
+    pdf.text(MARGIN + 90, writer.y, pdf.fitText(value, writer.contentWidth - 90, 11), { size: 11 });
+    writer.space(LINE_HEIGHT * 1.4);
+  }
+
+  // --- Cooler and position map, per door ---
+  for (const doorId of doorIds) {
+    const rows = getSortedRows(refrigerators, doorId);
+    writer.newPage();
+    writer.heading(`${formatDoor(doorId)} of ${doorIds.length}`);
+    writer.space(LINE_HEIGHT);
+    const drawingHeight = drawDoor(pdf, rows, positionNumbers, conflictItemIds, doorId, {
+      x: MARGIN,
+      y: writer.y,
+      width: writer.contentWidth,
+      height: (writer.bottom - MARGIN) * 0.55,
+    });
+    writer.space(drawingHeight + LINE_HEIGHT);
+    writer.paragraph('Numbers mark positions, top shelf first, left to right. Red outlines are conflicts.');
+    writer.space(LINE_HEIGHT / 2);
+
+    const doorPositions = positions.filter(position => position.doorId === doorId);
+    writer.heading('Position map', 11);
+    writer.table(
+      [
+        { header: 'No.', width: 0.07, align: 'right' },
+        { header: 'Shelf', width: 0.1 },
+        { header: 'SKU', width: 0.2 },
+        { header: 'Product', width: 0.43 },
+        { header: 'Type', width: 0.1 },
+        { header: 'Units', width: 0.1, align: 'right' },
+      ],
+      doorPositions.map(({ number, rowId, stack }) => [
+        `${number}`,
+        formatShelf(rowId),
+        stack.map(item => item.skuId).filter((skuId, index, all) => all.indexOf(skuId) === index).join(', '),
+        stack.map(item => item.name).filter((name, index, all) => all.indexOf(name) === index).join(' / '),
+        stack[0].productType,
+        `${stack.length}`,
+      ]),
+      doorPositions.map(({ stack }) => (stack.some(item => conflictItemIds.has(item.id)) ? RED : undefined))
+    );
+  }
+
+  // --- Shelf contents ---
+  writer.newPage();
+  writer.heading('Shelf contents');
+  for (const doorId of doorIds) {
+    for (const [rowId, row] of getSortedRows(refrigerators, doorId)) {
+      const rowPositions = positions.filter(position => position.doorId === doorId && position.rowId === rowId);
+      const usedWidth = rowPositions.reduce((sum, { stack }) => sum + getStackWidth(stack), 0) + Math.max(0, rowPositions.length - 1) * STACK_GAP;
+      const blankWidth = rowPositions.reduce((sum, { stack }) => sum + (stack.every(isBlank) ? getStackWidth(stack) : 0), 0);
+
+      const bySku = new Map<string, { name: string; numbers: number[]; depths: number[] }>();
+      for (const { number, stack } of rowPositions) {
+        for (const item of stack.filter(candidate => !isBlank(candidate))) {
+          const entry = bySku.get(item.skuId) || { name: item.name, numbers: [], depths: [] };
+          // A facing per stack, however many units of the SKU it holds
+          if (!entry.numbers.includes(number)) {
+            entry.numbers.push(number);
+            entry.depths.push(stack.filter(candidate => candidate.skuId === item.skuId).length);
+          }
+          bySku.set(item.skuId, entry);
+        }
+      }
+
+      writer.heading(`${formatDoor(doorId)} / ${formatShelf(rowId)}`, 10);
+      writer.paragraph(
+        `${toMM(usedWidth)} of ${toMM(row.capacity)}mm used, ${toMM(row.maxHeight)}mm high`
+        + (blankWidth > 0 ? `, ${toMM(blankWidth)}mm blank space` : '')
+      );
+      if (bySku.size === 0) {
+        writer.paragraph('Empty shelf');
+        writer.space(LINE_HEIGHT / 2);
+        continue;
+      }
+      writer.table(
+        [
+          { header: 'SKU', width: 0.2 },
+          { header: 'Product', width: 0.4 },
+          { header: 'Positions', width: 0.16 },
+          { header: 'Facings', width: 0.12, align: 'right' },
+          { header: 'Stack depth', width: 0.12, align: 'right' },
+        ],
+        Array.from(bySku.entries()).map(([skuId, { name, numbers, depths }]) => {
+          const minDepth = Math.min(...depths);
+          const maxDepth = Math.max(...depths);
+          return [skuId, name, formatNumbers(numbers), `${numbers.length}`, minDepth === maxDepth ? `${maxDepth}` : `${minDepth}-${maxDepth}`];
+        })
+      );
+    }
+  }
+
+  // --- Conflicts ---
+  writer.newPage();
+  writer.heading('Conflict summary');
+  if (conflicts.length === 0) {
+    writer.paragraph('No conflicts.');
+  } else {
+    writer.paragraph(`${severityCounts.error} errors, ${severityCounts.warning} warnings, ${severityCounts.info} info.`);
+    const byRule = new Map<string, number>();
+    conflicts.forEach(entry => byRule.set(entry.rule, (byRule.get(entry.rule) ?? 0) + 1));
+    writer.space(LINE_HEIGHT / 2);
+    writer.table(
+      [{ header: 'Rule', width: 0.85 }, { header: 'Count', width: 0.15, align: 'right' }],
+      Array.from(byRule.entries()).sort((a, b) => b[1] - a[1]).map(([rule, count]) => [rule, `${count}`])
+    );
+    writer.space(LINE_HEIGHT / 2);
+    writer.table(
+      [
+        { header: 'Severity', width: 0.1 },
+        { header: 'Door', width: 0.09 },
+        { header: 'Shelf', width: 0.09 },
+        { header: 'Pos.', width: 0.06, align: 'right' },
+        { header: 'Rule', width: 0.22 },
+        { header: 'Details', width: 0.44 },
+      ],
+      conflicts.map(entry => [
+        entry.severity,
+        entry.doorId ? formatDoor(entry.doorId) : '-',
+        entry.rowId ? formatShelf(entry.rowId) : '-',
+        entry.stackIndex !== undefined ? `${positionNumbers.get(`${entry.doorId}:${entry.rowId}:${entry.stackIndex}`) ?? '-'}` : '-',
+        entry.rule,
+        entry.skuName ? `${entry.skuName}: ${entry.message}` : entry.message,
+      ]),
+      conflicts.map(entry => (entry.severity === 'error' ? RED : undefined))
+    );
+  }
+
+  // Footers once the page count is known
+  for (let index = 0; index < pdf.pageCount; index++) {
+    pdf.setPage(index);
+    const footerY = pdf.pageHeight - MARGIN / 2;
+    pdf.text(MARGIN, footerY, pdf.fitText(title, writer.contentWidth - 80, 8), { size: 8, color: GRAY });
+    pdf.text(pdf.pageWidth - MARGIN, footerY, `Page ${index + 1} of ${pdf.pageCount}`, { size: 8, color: GRAY, align: 'right' });
+  }
+
+  return pdf.toBlob();
+}
@@ -0,0 +1,128 @@
+/**
+ * Planogram Repository (server only)
+ *
+ * Stores named, versioned planograms in data/planograms.json.
+ * Every update must carry the version it was based on; if somebody else saved
+ * in the meantime the update is rejected as a conflict instead of overwriting.
+ */
+
+import { MultiDoorRefrigerator, PlanogramSummary, SavedPlanogram, SourcePhoto } from './types';
+import { readJsonFile, updateJsonFile } from './json-file-store';
+import { isPositiveNumber, isRecord } from './utils';
+
+const PLANOGRAMS_FILE = 'planograms.json';
+
+type PlanogramCollection = { [planogramId: string]: SavedPlanogram };
+
+export interface PlanogramInput {
+  name: string;
+  author: string;
+  layoutId: string;
+  refrigerators: MultiDoorRefrigerator;
+  sourcePhoto?: SourcePhoto;
+}
+
+export type PlanogramUpdateResult =
+  | { status: 'ok'; planogram: SavedPlanogram }
+  | { status: 'not-found' }
+  | { status: 'conflict'; planogram: SavedPlanogram };
+
+const generatePlanogramId = () => `pog-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const toSummary = ({ refrigerators, sourcePhoto, ...summary }: SavedPlanogram): PlanogramSummary => summary;
+
+/**
+ * Validates an incoming request body. Returns an error message or null.
+ */
+export function validatePlanogramInput(body: unknown): string | null {
+  if (!isRecord(body)) return 'Request body must be a JSON object';
+  if (typeof body.name !== 'string' || !body.name.trim()) return '"name" is required';
+  if (body.author !== undefined && typeof body.author !== 'string') return '"author" must be a string';
+  if (typeof body.layoutId !== 'string' || !body.layoutId) return '"layoutId" is required';
+  if (!isRecord(body.refrigerators)) return '"refrigerators" must be a MultiDoorRefrigerator object';
+  if (body.sourcePhoto !== undefined) {
+    const { url, width, height }: { [key: string]: unknown } = isRecord(body.sourcePhoto) ? body.sourcePhoto : {};
+    if (typeof url !== 'string' || !url) return '"sourcePhoto.url" is required';
+    if ((width !== undefined && !isPositiveNumber(width)) || (height !== undefined && !isPositiveNumber(height))) {
+      return '"sourcePhoto" width and height must be positive numbers';
+    }
+  }
+  return null;
+}
+
+export async function listPlanograms(layoutId?: string): Promise<PlanogramSummary[]> {
+  const collection = await readJsonFile<PlanogramCollection>(PLANOGRAMS_FILE, {});
+  return Object.values(collection)
+    .filter(planogram => !layoutId || planogram.layoutId === layoutId)
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getPlanogram(planogramId: string): Promise<SavedPlanogram | null> {
+  const collection = await readJsonFile<PlanogramCollection>(PLANOGRAMS_FILE, {});
+  return collection[planogramId] ?? null;
+}
+
+export async function createPlanogram(input: PlanogramInput): Promise<SavedPlanogram> {
+  return updateJsonFile<PlanogramCollection, SavedPlanogram>(PLANOGRAMS_FILE, {}, collection => {
+    const now = new Date().toISOString();
+    const planogram: SavedPlanogram = {
+      id: generatePlanogramId(),
+      name: input.name.trim(),
+      author: input.author?.trim() || 'anonymous',
+      version: 1,
+      layoutId: input.layoutId,
+      refrigerators: input.refrigerators,
+      ...(input.sourcePhoto && { sourcePhoto: input.sourcePhoto }),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return { data: { ...collection, [planogram.id]: planogram }, result: planogram };
+  });
+}
+
+/**
+ * Saves a new version of a planogram.
+ * @param baseVersion - The version the client started editing from
+ */
+export async function updatePlanogram(
+  planogramId: string,
+  input: PlanogramInput,
+  baseVersion: number
+): Promise<PlanogramUpdateResult> {
+  return updateJsonFile<PlanogramCollection, PlanogramUpdateResult>(PLANOGRAMS_FILE, {}, collection => {
+    const existing = collection[planogramId];
+    if (!existing) {
+      return { result: { status: 'not-found' } };
+    }
+
+    if (existing.version !== baseVersion) {
+      return { result: { status: 'conflict', planogram: existing } };
+    }
+
+    const planogram: SavedPlanogram = {
+      ...existing,
+      name: input.name.trim(),
+      author: input.author?.trim() || existing.author,
+      layoutId: input.layoutId,
+      refrigerators: input.refrigerators,
+      sourcePhoto: input.sourcePhoto ?? existing.sourcePhoto,
+      version: existing.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+
+    return { data: { ...collection, [planogramId]: planogram }, result: { status: 'ok', planogram } };
+  });
+}
+
+export async function deletePlanogram(planogramId: string): Promise<boolean> {
+  return updateJsonFile<PlanogramCollection, boolean>(PLANOGRAMS_FILE, {}, collection => {
+    if (!collection[planogramId]) {
+      return { result: false };
+    }
+
+    const { [planogramId]: _removed, ...rest } = collection;
+    return { data: rest, result: true };
+  });
+}
@@ -0,0 +1,29 @@
+import { RuleSet } from './merchandising-rules';
+
+// Client-side helpers for the /api/rules route
+const API_BASE_URL = '/api';
+
+const readError = async (response: Response): Promise<string> => {
+  const body = await response.json().catch(() => null);
+  return body?.error || response.statusText || `Request failed (${response.status})`;
+};
+
+export async function fetchRuleSet(): Promise<RuleSet> {
+  const response = await fetch(`${API_BASE_URL}/rules`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json();
+}
+
+export async function saveRuleSet(ruleSet: RuleSet): Promise<RuleSet> {
+  const response = await fetch(`${API_BASE_URL}/rules`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(ruleSet),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json();
+}
@@ -0,0 +1,24 @@
+/**
+ * Rules Repository (server only)
+ *
+ * The merchandising rule set lives in data/rules.json. Until it is first saved
+ * an empty rule set is served.
+ */
+
+import { readJsonFile, writeJsonFile } from './json-file-store';
+import { EMPTY_RULE_SET, RuleSet } from './merchandising-rules';
+
+const RULES_FILE = 'rules.json';
+
+export async function getRuleSet(): Promise<RuleSet> {
+  return readJsonFile<RuleSet>(RULES_FILE, EMPTY_RULE_SET);
+}
+
+/**
+ * Replaces the whole rule set. The body must already have passed validateRuleSet.
+ */
+export async function saveRuleSet(ruleSet: RuleSet): Promise<RuleSet> {
+  const saved: RuleSet = { version: ruleSet.version, rules: ruleSet.rules };
+  await writeJsonFile(RULES_FILE, saved);
+  return saved;
+}
@@ -0,0 +1,36 @@
+import { AIBackendData } from './backend-to-frontend';
+
+// Client-side helpers for the /api/scan route
+const API_BASE_URL = '/api';
+
+const readError = async (response: Response): Promise<string> => {
+  const body = await response.json().catch(() => null);
+  return body?.error || response.statusText || `Request failed (${response.status})`;
+};
+
+export interface ScanProviderInfo {
+  provider: 'local' | 'cloud';
+  description: string;
+}
+
+export async function fetchScanProvider(): Promise<ScanProviderInfo> {
+  const response = await fetch(`${API_BASE_URL}/scan`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json();
+}
+
+/**
+ * Run shelf detection on a photo through the server's configured provider.
+ */
+export async function scanShelfImage(image: File): Promise<AIBackendData> {
+  const formData = new FormData();
+  formData.append('image', image, image.name);
+
+  const response = await fetch(`${API_BASE_URL}/scan`, { method: 'POST', body: formData });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json();
+}
@@ -0,0 +1,86 @@
+/**
+ * Scan Import (client)
+ *
+ * The steps from a shelf photo to an editable planogram, shared by the single
+ * and the batch upload: detection through /api/scan, keeping the photo,
+ * ranking the cooler templates and laying the detections out on one.
+ */
+
+import { LayoutData, MultiDoorRefrigerator, Refrigerator, Sku, SourcePhoto } from './types';
+import {
+  AIBackendData,
+  convertBackendToFrontend,
+  convertMultiDoorBackendToFrontend,
+  isMultiDoorAIData,
+} from './backend-to-frontend';
+import { scanShelfImage } from './scan-api';
+import { uploadPhoto } from './photo-api';
+import { SkuAliases } from './sku-catalog';
+import { LayoutMatch, measureScan, rankLayouts } from './layout-matching';
+
+export interface ScannedPhoto {
+  aiData: AIBackendData;
+  photo: SourcePhoto | null;
+  photoError?: string; // Why the photo couldn't be kept; the detections are still usable
+}
+
+/**
+ * Detect the products on a photo and store the photo alongside.
+ * Losing the photo doesn't fail the scan.
+ */
+export async function scanPhoto(file: File): Promise<ScannedPhoto> {
+  let photoError: string | undefined;
+  const [aiData, uploadedPhoto] = await Promise.all([
+    scanShelfImage(file),
+    uploadPhoto(file).catch((error) => {
+      console.warn('[Scan Import] Could not store the photo', error);
+      photoError = error instanceof Error ? error.message : String(error);
+      return null;
+    }),
+  ]);
+
+  const photo: SourcePhoto | null = uploadedPhoto && {
+    url: uploadedPhoto.url,
+    width: aiData.dimensions?.width,
+    height: aiData.dimensions?.height,
+  };
+  return { aiData, photo, photoError };
+}
+
+/**
+ * Shelves detected across the doors the converters will read.
+ */
+export function getScanShelfCount(aiData: AIBackendData): number {
+  if (isMultiDoorAIData(aiData)) {
+    const door1Count = aiData.Cooler?.['Door-1']?.Sections?.length || 0;
+    const door2Count = aiData.Cooler?.['Door-2']?.Sections?.length || 0;
+    return door1Count + door2Count;
+  }
+  return aiData.Cooler?.['Door-1']?.Sections?.length || 0;
+}
+
+/**
+ * Templates ranked against the scan, best first.
+ */
+export const matchScanLayouts = (aiData: AIBackendData, skus: Sku[], layouts: { [layoutId: string]: LayoutData }): LayoutMatch[] =>
+  rankLayouts(measureScan(aiData, skus), layouts);
+
+/**
+ * Lay the detections out on a template. Throws when a multi-door scan is
+ * matched to a template without doors.
+ */
+export function convertScan(
+  aiData: AIBackendData,
+  layout: LayoutData,
+  skus: Sku[],
+  aliases: SkuAliases = {}
+): MultiDoorRefrigerator {
+  if (isMultiDoorAIData(aiData)) {
+    if (!layout.doors || layout.doors.length === 0) {
+      throw new Error('Selected layout does not support multi-door configuration');
+    }
+    return convertMultiDoorBackendToFrontend(aiData, skus, layout, aliases);
+  }
+  const door: Refrigerator = convertBackendToFrontend(aiData, skus, layout, aliases);
+  return { 'door-1': door };
+}
@@ -0,0 +1,127 @@
+/**
+ * Shelf Geometry
+ *
+ * Row-level edits inside one door: insert, remove and resize shelves. The door's
+ * internal height doesn't change when shelves move, so height is always traded
+ * with a neighbouring shelf. Rows are renumbered 'row-1'..'row-N' from the top
+ * after every insert/remove, which keeps row order (and the section positions in
+ * convertFrontendToBackend) in step with what is drawn.
+ */
+
+import { Refrigerator, Row } from './types';
+import { PIXELS_PER_MM } from './config';
+import { compareRowIds } from './layout-templates';
+
+// No shelf may be squeezed below this
+export const MIN_SHELF_HEIGHT_MM = 50;
+const MIN_SHELF_HEIGHT = Math.round(MIN_SHELF_HEIGHT_MM * PIXELS_PER_MM);
+
+export type ShelfEditResult = { door: Refrigerator } | { error: string };
+
+const getOrderedRows = (door: Refrigerator): Row[] =>
+  Object.keys(door).sort(compareRowIds).map(rowId => door[rowId]);
+
+// Blank spaces always fill the shelf height, so they follow it when it changes
+const withHeight = (row: Row, maxHeight: number): Row => ({
+  ...row,
+  maxHeight,
+  stacks: row.stacks.map(stack => stack.map(item => item.productType === 'BLANK'
+    ? { ...item, height: maxHeight, heightMM: maxHeight / PIXELS_PER_MM }
+    : item)),
+});
+
+/**
+ * Rebuild a door from rows in top-to-bottom order, numbering them 'row-1'..'row-N'.
+ */
+export function renumberShelves(rows: Row[]): Refrigerator {
+  const door: Refrigerator = {};
+  rows.forEach((row, index) => {
+    const rowId = `row-${index + 1}`;
+    door[rowId] = { ...row, id: rowId };
+  });
+  return door;
+}
+
+/**
+ * Split a shelf in two: the new, empty shelf takes half of its height.
+ * Items stay on the original shelf.
+ */
+export function insertShelf(door: Refrigerator, rowId: string, position: 'above' | 'below'): ShelfEditResult {
+  const rows = getOrderedRows(door);
+  const index = rows.findIndex(row => row.id === rowId);
+  if (index === -1) return { error: `Shelf ${rowId} not found` };
+
+  const row = rows[index];
+  const newHeight = Math.floor(row.maxHeight / 2);
+  if (newHeight < MIN_SHELF_HEIGHT || row.maxHeight - newHeight < MIN_SHELF_HEIGHT) {
+    return { error: `Shelf is too low to split (each part needs at least ${MIN_SHELF_HEIGHT_MM}mm)` };
+  }
+
+  const newRow: Row = {
+    id: '',
+    capacity: row.capacity,
+    maxHeight: newHeight,
+    allowedProductTypes: row.allowedProductTypes,
+    stacks: [],
+  };
+  rows[index] = withHeight(row, row.maxHeight - newHeight);
+  rows.splice(position === 'above' ? index : index + 1, 0, newRow);
+  return { door: renumberShelves(rows) };
+}
+
+/**
+ * Remove a shelf and its items. Its height goes to the shelf below it
+ * (or above it, for the bottom shelf).
+ */
+export function removeShelf(door: Refrigerator, rowId: string): ShelfEditResult {
+  const rows = getOrderedRows(door);
+  const index = rows.findIndex(row => row.id === rowId);
+  if (index === -1) return { error: `Shelf ${rowId} not found` };
+  if (rows.length === 1) return { error: 'A door needs at least one shelf' };
+
+  const neighbourIndex = index < rows.length - 1 ? index + 1 : index - 1;
+  rows[neighbourIndex] = withHeight(rows[neighbourIndex], rows[neighbourIndex].maxHeight + rows[index].maxHeight);
+  rows.splice(index, 1);
+  return { door: renumberShelves(rows) };
+}
+
+/**
+ * Set a shelf's height in mm. The shelf below gives or takes the difference
+ * (the shelf above, for the bottom shelf), so the door height is unchanged.
+ */
+export function resizeShelf(door: Refrigerator, rowId: string, heightMM: number): ShelfEditResult {
+  const rows = getOrderedRows(door);
+  const index = rows.findIndex(row => row.id === rowId);
+  if (index === -1) return { error: `Shelf ${rowId} not found` };
+  if (!Number.isFinite(heightMM)) return { error: 'Height must be a number' };
+
+  const newHeight = Math.round(heightMM * PIXELS_PER_MM);
+  if (rows.length === 1) {
+    return { error: 'The only shelf fills the door - add a shelf before resizing' };
+  }
+
+  const neighbourIndex = index < rows.length - 1 ? index + 1 : index - 1;
+  const combined = rows[index].maxHeight + rows[neighbourIndex].maxHeight;
+  const maxHeight = combined - MIN_SHELF_HEIGHT;
+  if (newHeight < MIN_SHELF_HEIGHT || newHeight > maxHeight) {
+    return { error: `Height must be between ${MIN_SHELF_HEIGHT_MM}mm and ${Math.floor(maxHeight / PIXELS_PER_MM)}mm` };
+  }
+
+  const updated: Refrigerator = { ...door };
+  updated[rows[index].id] = withHeight(rows[index], newHeight);
+  updated[rows[neighbourIndex].id] = withHeight(rows[neighbourIndex], combined - newHeight);
+  return { door: updated };
+}
+
+/**
+ * Height range (mm) a shelf can be resized to without squeezing its neighbour.
+ */
+export function getShelfHeightRange(door: Refrigerator, rowId: string): { minMM: number; maxMM: number } | null {
+  const rows = getOrderedRows(door);
+  const index = rows.findIndex(row => row.id === rowId);
+  if (index === -1 || rows.length === 1) return null;
+
+  const neighbourIndex = index < rows.length - 1 ? index + 1 : index - 1;
+  const combined = rows[index].maxHeight + rows[neighbourIndex].maxHeight;
+  return { minMM: MIN_SHELF_HEIGHT_MM, maxMM: Math.floor((combined - MIN_SHELF_HEIGHT) / PIXELS_PER_MM) };
+}
@@ -0,0 +1,102 @@
+import { Sku } from './types';
+import { SkuAliases, SkuInput } from './sku-catalog';
+import { SkuImportPreview } from './sku-import';
+
+// Client-side helpers for the /api/skus routes
+const API_BASE_URL = '/api';
+
+const readError = async (response: Response): Promise<string> => {
+  const body = await response.json().catch(() => null);
+  return body?.error || response.statusText || `Request failed (${response.status})`;
+};
+
+export async function fetchSkus(): Promise<Sku[]> {
+  const response = await fetch(`${API_BASE_URL}/skus`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = await response.json();
+  return body.skus;
+}
+
+export async function createCatalogSku(input: SkuInput): Promise<Sku> {
+  const response = await fetch(`${API_BASE_URL}/skus`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = await response.json();
+  return body.sku;
+}
+
+export async function updateCatalogSku(skuId: string, input: Omit<SkuInput, 'skuId'>): Promise<Sku> {
+  const response = await fetch(`${API_BASE_URL}/skus/${encodeURIComponent(skuId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = await response.json();
+  return body.sku;
+}
+
+export async function deleteCatalogSku(skuId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/skus/${encodeURIComponent(skuId)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+}
+
+/**
+ * Upload a CSV/XLSX master data file.
+ * 'preview' only diffs against the catalog; 'commit' applies the import when the file has no errors.
+ */
+export async function importSkuFile(
+  file: File,
+  mode: 'preview' | 'commit',
+  removeMissing: boolean
+): Promise<{ preview: SkuImportPreview; committed: boolean }> {
+  const formData = new FormData();
+  formData.append('file', file, file.name);
+  formData.append('mode', mode);
+  formData.append('removeMissing', String(removeMissing));
+
+  const response = await fetch(`${API_BASE_URL}/skus/import`, { method: 'POST', body: formData });
+  const body = await response.json().catch(() => null);
+
+  // 422 still carries the preview with the per-line errors
+  if (body?.preview) {
+    return { preview: body.preview, committed: !!body.committed };
+  }
+  throw new Error(body?.error || response.statusText || `Request failed (${response.status})`);
+}
+
+export async function fetchSkuAliases(): Promise<SkuAliases> {
+  const response = await fetch(`${API_BASE_URL}/skus/aliases`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = await response.json();
+  return body.aliases;
+}
+
+/**
+ * Remember detected SKU-Codes as aliases of catalog SKUs for future imports.
+ */
+export async function saveSkuAliases(aliases: SkuAliases): Promise<SkuAliases> {
+  const response = await fetch(`${API_BASE_URL}/skus/aliases`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ aliases }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = await response.json();
+  return body.aliases;
+}
@@ -0,0 +1,132 @@
+/**
+ * SKU Catalog helpers
+ *
+ * Catalog records are edited in millimetres. Pixel sizes are always derived
+ * from PIXELS_PER_MM here, so nobody has to hand-compute them.
+ */
+
+import { Sku, ItemConstraints, MultiDoorRefrigerator } from './types';
+import { compareRowIds } from './layout-templates';
+import { PIXELS_PER_MM } from './config';
+import { isPositiveNumber, isRecord } from './utils';
+
+/**
+ * The editable fields of a SKU (everything except the derived pixel sizes).
+ */
+export interface SkuInput {
+  skuId: string;
+  name: string;
+  productType: string;
+  brand?: string;
+  widthMM: number;
+  heightMM: number;
+  imageUrl: string;
+  constraints: ItemConstraints;
+}
+
+export const DEFAULT_SKU_IMAGE = 'https://placehold.co/60x150?text=No+Img';
+
+// Product type of placeholder items for unknown AI detections
+export const UNKNOWN_PRODUCT_TYPE = 'UNKNOWN';
+
+/**
+ * Detected SKU-Codes mapped to catalog SKU ids, remembered from earlier imports.
+ */
+export type SkuAliases = { [skuCode: string]: string };
+
+/**
+ * Build a full Sku record, deriving pixel width/height from the millimetre dimensions.
+ */
+export function buildSku(input: SkuInput): Sku {
+  return {
+    skuId: input.skuId.trim(),
+    name: input.name.trim(),
+    productType: input.productType.trim().toUpperCase(),
+    ...(input.brand?.trim() ? { brand: input.brand.trim().toUpperCase() } : {}),
+    widthMM: input.widthMM,
+    heightMM: input.heightMM,
+    width: Math.round(input.widthMM * PIXELS_PER_MM),
+    height: Math.round(input.heightMM * PIXELS_PER_MM),
+    imageUrl: input.imageUrl?.trim() || DEFAULT_SKU_IMAGE,
+    constraints: {
+      stackable: !!input.constraints?.stackable,
+      deletable: input.constraints?.deletable !== false,
+    },
+  };
+}
+
+/**
+ * Brand of a SKU or item. Falls back to the first word of the name ('PEPSI CAN' -> 'PEPSI').
+ */
+export const getSkuBrand = (sku: Pick<Sku, 'brand' | 'name'>): string =>
+  sku.brand?.trim().toUpperCase() || sku.name.trim().split(/\s+/)[0]?.toUpperCase() || 'UNBRANDED';
+
+/**
+ * Validates a SKU request body. Returns an error message or null.
+ * @param requireSkuId - false when the id comes from the URL instead of the body
+ */
+export function validateSkuInput(body: unknown, requireSkuId = true): string | null {
+  if (!isRecord(body)) return 'Request body must be a JSON object';
+  if (requireSkuId && (typeof body.skuId !== 'string' || !body.skuId.trim())) return '"skuId" is required';
+  if (typeof body.name !== 'string' || !body.name.trim()) return '"name" is required';
+  if (typeof body.productType !== 'string' || !body.productType.trim()) return '"productType" is required';
+  if (body.brand !== undefined && typeof body.brand !== 'string') return '"brand" must be a string';
+  if (!isPositiveNumber(body.widthMM)) return '"widthMM" must be a positive number';
+  if (!isPositiveNumber(body.heightMM)) return '"heightMM" must be a positive number';
+  if (body.imageUrl !== undefined && typeof body.imageUrl !== 'string') return '"imageUrl" must be a string';
+  if (body.constraints !== undefined && !isRecord(body.constraints)) return '"constraints" must be an object';
+  return null;
+}
+
+/**
+ * One detected SKU-Code the catalog doesn't know, with every placeholder item for it.
+ */
+export interface UnresolvedSku {
+  skuCode: string;
+  detectedName: string;
+  widthMM: number; // Detected size of the first placeholder
+  heightMM: number;
+  itemIds: string[];
+}
+
+/**
+ * Groups the placeholder items of an AI import by detected SKU-Code, in shelf order.
+ */
+export function getUnresolvedSkus(refrigerators: MultiDoorRefrigerator): UnresolvedSku[] {
+  const byCode = new Map<string, UnresolvedSku>();
+  for (const doorId of Object.keys(refrigerators).sort(compareRowIds)) {
+    for (const rowId of Object.keys(refrigerators[doorId]).sort(compareRowIds)) {
+      for (const item of refrigerators[doorId][rowId].stacks.flat()) {
+        if (!item.detectedSkuCode) continue;
+        const entry = byCode.get(item.detectedSkuCode);
+        if (entry) {
+          entry.itemIds.push(item.id);
+        } else {
+          byCode.set(item.detectedSkuCode, {
+            skuCode: item.detectedSkuCode,
+            detectedName: item.name,
+            widthMM: item.widthMM ?? Math.round(item.width / PIXELS_PER_MM),
+            heightMM: item.heightMM ?? Math.round(item.height / PIXELS_PER_MM),
+            itemIds: [item.id],
+          });
+        }
+      }
+    }
+  }
+  return Array.from(byCode.values());
+}
+
+/**
+ * Validates a body of SKU aliases (`{ "aliases": { "<detected code>": "<skuId>" } }`).
+ * Returns an error message or null.
+ */
+export function validateSkuAliases(body: unknown): string | null {
+  if (!isRecord(body)) return 'Request body must be a JSON object';
+  const aliases = body.aliases;
+  if (!isRecord(aliases)) return '"aliases" must be an object';
+  for (const [code, skuId] of Object.entries(aliases)) {
+    if (!code.trim()) return 'Alias codes must not be empty';
+    if (typeof skuId !== 'string' || !skuId.trim()) return `aliases["${code}"] must be a SKU id`;
+  }
+  return null;
+}
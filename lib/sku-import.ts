@@ -0,0 +1,330 @@
+/**
+ * SKU Master Data Import
+ *
+ * Parses product master data (CSV or XLSX) into catalog records and
+ * diffs them against the current catalog, so the import can be previewed
+ * (new / changed / removed SKUs plus per-line errors) before it is committed.
+ */
+
+import { ItemConstraints, Sku } from './types';
+import { buildSku } from './sku-catalog';
+import { readXlsxSheet } from './xlsx-sheet';
+
+export interface SkuImportError {
+  line: number; // 1-based file line or sheet row (line 1 is the header)
+  message: string;
+}
+
+// Fields an import can change; constraints are compared one flag at a time
+const DIFF_FIELDS = ['name', 'productType', 'brand', 'widthMM', 'heightMM', 'imageUrl'] as const satisfies readonly (keyof Sku)[];
+const CONSTRAINT_FIELDS = ['stackable', 'deletable'] as const satisfies readonly (keyof ItemConstraints)[];
+
+export type SkuImportField = (typeof DIFF_FIELDS)[number] | (typeof CONSTRAINT_FIELDS)[number];
+
+export interface SkuImportChange {
+  before: Sku;
+  after: Sku;
+  fields: SkuImportField[]; // The fields that differ
+}
+
+const isConstraintField = (field: SkuImportField): field is (typeof CONSTRAINT_FIELDS)[number] =>
+  (CONSTRAINT_FIELDS as readonly string[]).includes(field);
+
+/**
+ * The value of a diffed field, e.g. to show a change.
+ */
+export const getSkuField = (sku: Sku, field: SkuImportField) =>
+  isConstraintField(field) ? sku.constraints[field] : sku[field];
+
+export interface SkuImportPreview {
+  added: Sku[];
+  changed: SkuImportChange[];
+  removed: Sku[]; // Only applied when removeMissing is set
+  unchangedCount: number;
+  errors: SkuImportError[];
+}
+
+export interface SkuImportOptions {
+  removeMissing: boolean;
+}
+
+// A successfully parsed record; optional columns stay undefined when absent
+interface ParsedSkuRow {
+  line: number;
+  skuId: string;
+  name: string;
+  productType: string;
+  widthMM: number;
+  heightMM: number;
+  brand?: string;
+  imageUrl?: string;
+  stackable?: boolean;
+  deletable?: boolean;
+}
+
+// Accepted header spellings, compared after lower-casing and stripping non-alphanumerics
+const COLUMN_ALIASES: { [field: string]: string[] } = {
+  skuId: ['code', 'skucode', 'skuid', 'sku', 'productcode'],
+  name: ['name', 'skuname', 'productname', 'description'],
+  productType: ['packtype', 'producttype', 'type', 'packcategory', 'category'],
+  widthMM: ['widthmm', 'width'],
+  heightMM: ['heightmm', 'height'],
+  brand: ['brand', 'brandname', 'manufacturer'],
+  imageUrl: ['imageurl', 'image', 'imagelink', 'thumbnail', 'thumbnailurl'],
+  stackable: ['stackable'],
+  deletable: ['deletable'],
+};
+
+// Everything read from a file; fileSkuIds also covers lines with errors, so they don't count as removed
+export interface ParsedSkuFile {
+  rows: ParsedSkuRow[];
+  errors: SkuImportError[];
+  fileSkuIds: string[];
+}
+
+const REQUIRED_COLUMNS = ['skuId', 'name', 'productType', 'widthMM', 'heightMM'];
+
+// Catalog entries the editor relies on and that never come from master data
+const isInternalSku = (sku: Sku) => sku.productType === 'BLANK';
+
+const normalizeHeader = (header: unknown) => String(header ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * A dimension cell as a number, or an error message. A decimal comma ("66,5")
+ * is only read in files that use one, i.e. ';'-separated CSV as written by
+ * Excel in those locales; elsewhere "1,234" could mean 1234 and is rejected.
+ */
+function parseDimension(label: string, text: string, decimalComma: boolean): number | string {
+  if (text.includes(',') && (!decimalComma || !/^\d*,\d+$/.test(text))) {
+    return `${label} "${text}" is ambiguous: write it without thousands separators`;
+  }
+  const value = parseFloat(decimalComma ? text.replace(',', '.') : text);
+  return value > 0 ? value : `${label} "${text}" is not a positive number`;
+}
+
+const parseBoolean = (value: unknown): boolean | undefined => {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (!text) return undefined;
+  if (['true', 'yes', 'y', '1'].includes(text)) return true;
+  if (['false', 'no', 'n', '0'].includes(text)) return false;
+  return undefined;
+};
+
+// Records with the file line (or sheet row) each starts on; blank lines are skipped
+interface SheetRecord {
+  line: number;
+  cells: string[];
+}
+
+/**
+ * RFC 4180 CSV: quoted cells may hold delimiters, doubled quotes and line
+ * breaks. Cells stay text, so codes like "00315" keep their leading zeros.
+ * Excel writes ';' in locales with a decimal comma, so the delimiter is
+ * whichever of ',' and ';' the header line uses more.
+ */
+function parseCsvRecords(text: string): { records: SheetRecord[]; delimiter: ',' | ';' } {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+
+  const records: SheetRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) records.push({ line: recordLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) throw new Error(`Unclosed quote in the record starting on line ${recordLine}`);
+  endRecord();
+
+  return { records, delimiter };
+}
+
+// ZIP signature: XLSX files, which are ZIP archives
+const isZipFile = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+// OLE compound file signature: legacy binary .xls workbooks
+const isLegacyExcelFile = (bytes: Uint8Array) => bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0;
+
+// The first sheet of an XLSX workbook, or the records of a CSV file
+async function readSheetRecords(bytes: Uint8Array): Promise<{ records: SheetRecord[]; decimalComma: boolean }> {
+  // XLSX stores numbers in invariant form, so a comma is never a decimal separator there
+  if (isZipFile(bytes)) return { records: await readXlsxSheet(bytes), decimalComma: false };
+  // Strip a UTF-8 BOM, as Excel writes one
+  const { records, delimiter } = parseCsvRecords(new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, ''));
+  return { records, decimalComma: delimiter === ';' };
+}
+
+/**
+ * Read a CSV or XLSX file (first sheet) into parsed rows and per-line errors.
+ */
+export async function parseSkuFile(data: ArrayBuffer): Promise<ParsedSkuFile> {
+  const bytes = new Uint8Array(data);
+  if (isLegacyExcelFile(bytes)) {
+    return { rows: [], errors: [{ line: 1, message: 'Legacy .xls files are not supported: save the sheet as .xlsx or CSV' }], fileSkuIds: [] };
+  }
+
+  const { records, decimalComma } = await readSheetRecords(bytes);
+  const [header, ...dataRecords] = records;
+  const headerRow = header?.cells ?? [];
+
+  // Map each known field to its column index
+  const headers = headerRow.map(normalizeHeader);
+  const columns: { [field: string]: number } = {};
+  for (const field of Object.keys(COLUMN_ALIASES)) {
+    const index = headers.findIndex(header => COLUMN_ALIASES[field].includes(header));
+    if (index !== -1) columns[field] = index;
+  }
+
+  const missingColumns = REQUIRED_COLUMNS.filter(field => columns[field] === undefined);
+  if (missingColumns.length > 0) {
+    return {
+      rows: [],
+      errors: [{ line: 1, message: `Missing required column(s): ${missingColumns.join(', ')}` }],
+      fileSkuIds: [],
+    };
+  }
+
+  const rows: ParsedSkuRow[] = [];
+  const errors: SkuImportError[] = [];
+  const seenCodes = new Map<string, number>();
+  const fileSkuIds = new Set<string>();
+
+  dataRecords.forEach(({ line, cells }) => {
+    const cell = (field: string) => (columns[field] === undefined ? '' : cells[columns[field]]);
+    const text = (field: string) => String(cell(field) ?? '').trim();
+
+    const skuId = text('skuId');
+    if (skuId) fileSkuIds.add(skuId);
+    const name = text('name');
+    const productType = text('productType');
+    const widthMM = parseDimension('width', text('widthMM'), decimalComma);
+    const heightMM = parseDimension('height', text('heightMM'), decimalComma);
+
+    const problems: string[] = [];
+    if (!skuId) problems.push('code is empty');
+    if (!name) problems.push('name is empty');
+    if (!productType) problems.push('pack type is empty');
+    if (typeof widthMM === 'string') problems.push(widthMM);
+    if (typeof heightMM === 'string') problems.push(heightMM);
+    if (skuId && seenCodes.has(skuId)) problems.push(`duplicate code (first seen on line ${seenCodes.get(skuId)})`);
+
+    if (problems.length > 0 || typeof widthMM === 'string' || typeof heightMM === 'string') {
+      errors.push({ line, message: problems.join('; ') });
+      return;
+    }
+
+    seenCodes.set(skuId, line);
+    rows.push({
+      line,
+      skuId,
+      name,
+      productType,
+      widthMM,
+      heightMM,
+      brand: text('brand') || undefined,
+      imageUrl: text('imageUrl') || undefined,
+      stackable: parseBoolean(cell('stackable')),
+      deletable: parseBoolean(cell('deletable')),
+    });
+  });
+
+  return { rows, errors, fileSkuIds: Array.from(fileSkuIds) };
+}
+
+const diffSku = (before: Sku, after: Sku): SkuImportField[] =>
+  [...DIFF_FIELDS, ...CONSTRAINT_FIELDS].filter(field => getSkuField(before, field) !== getSkuField(after, field));
+
+/**
+ * Diff parsed rows against the current catalog.
+ * Columns missing from the file (brand, image, constraints) keep their current values.
+ * SKUs on lines with errors are still in the file, so they are never reported as removed.
+ */
+export function buildSkuImportPreview({ rows, errors, fileSkuIds }: ParsedSkuFile, currentSkus: Sku[]): SkuImportPreview {
+  const currentById = new Map(currentSkus.map(sku => [sku.skuId, sku]));
+  const fileIds = new Set(fileSkuIds);
+
+  const added: Sku[] = [];
+  const changed: SkuImportChange[] = [];
+  let unchangedCount = 0;
+
+  for (const row of rows) {
+    const existing = currentById.get(row.skuId);
+    const sku = buildSku({
+      skuId: row.skuId,
+      name: row.name,
+      productType: row.productType,
+      widthMM: row.widthMM,
+      heightMM: row.heightMM,
+      brand: row.brand ?? existing?.brand,
+      imageUrl: row.imageUrl ?? existing?.imageUrl ?? '',
+      constraints: {
+        stackable: row.stackable ?? existing?.constraints.stackable ?? false,
+        deletable: row.deletable ?? existing?.constraints.deletable ?? true,
+      },
+    });
+
+    if (!existing) {
+      added.push(sku);
+      continue;
+    }
+
+    const fields = diffSku(existing, sku);
+    if (fields.length > 0) {
+      changed.push({ before: existing, after: sku, fields });
+    } else {
+      unchangedCount++;
+    }
+  }
+
+  const removed = currentSkus.filter(sku => !fileIds.has(sku.skuId) && !isInternalSku(sku));
+
+  return { added, changed, removed, unchangedCount, errors };
+}
+
+/**
+ * Apply a preview to the catalog. Existing order is kept; new SKUs are appended.
+ */
+export function applySkuImportPreview(currentSkus: Sku[], preview: SkuImportPreview, options: SkuImportOptions): Sku[] {
+  const changedById = new Map(preview.changed.map(change => [change.after.skuId, change.after]));
+  const removedIds = new Set(options.removeMissing ? preview.removed.map(sku => sku.skuId) : []);
+
+  return [
+    ...currentSkus
+      .filter(sku => !removedIds.has(sku.skuId))
+      .map(sku => changedById.get(sku.skuId) ?? sku),
+    ...preview.added,
+  ];
+}
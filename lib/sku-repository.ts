@@ -0,0 +1,102 @@
+/**
+ * SKU Repository (server only)
+ *
+ * The SKU catalog lives in data/skus.json. Until the first edit the generated
+ * `demoSkus` list is served, and it seeds the file on the first write.
+ * Aliases for detected SKU-Codes the catalog doesn't know live in data/sku-aliases.json.
+ */
+
+import { Sku } from './types';
+import { demoSkus } from './demo-sku';
+import { readJsonFile, updateJsonFile } from './json-file-store';
+import { buildSku, SkuAliases, SkuInput } from './sku-catalog';
+import { applySkuImportPreview, buildSkuImportPreview, parseSkuFile, SkuImportOptions, SkuImportPreview } from './sku-import';
+
+const SKUS_FILE = 'skus.json';
+const SKU_ALIASES_FILE = 'sku-aliases.json';
+
+export type SkuMutationResult =
+  | { status: 'ok'; sku: Sku }
+  | { status: 'not-found' }
+  | { status: 'exists' };
+
+export async function listSkus(): Promise<Sku[]> {
+  return readJsonFile<Sku[]>(SKUS_FILE, demoSkus);
+}
+
+export async function getSku(skuId: string): Promise<Sku | null> {
+  const skus = await listSkus();
+  return skus.find(sku => sku.skuId === skuId) ?? null;
+}
+
+export async function createSku(input: SkuInput): Promise<SkuMutationResult> {
+  return updateJsonFile<Sku[], SkuMutationResult>(SKUS_FILE, demoSkus, skus => {
+    const sku = buildSku(input);
+    if (skus.some(existing => existing.skuId === sku.skuId)) {
+      return { result: { status: 'exists' } };
+    }
+    return { data: [...skus, sku], result: { status: 'ok', sku } };
+  });
+}
+
+export async function updateSku(skuId: string, input: Omit<SkuInput, 'skuId'>): Promise<SkuMutationResult> {
+  return updateJsonFile<Sku[], SkuMutationResult>(SKUS_FILE, demoSkus, skus => {
+    const index = skus.findIndex(existing => existing.skuId === skuId);
+    if (index === -1) {
+      return { result: { status: 'not-found' } };
+    }
+
+    const sku = buildSku({ ...input, skuId });
+    const updated = [...skus];
+    updated[index] = sku;
+    return { data: updated, result: { status: 'ok', sku } };
+  });
+}
+
+export async function deleteSku(skuId: string): Promise<boolean> {
+  return updateJsonFile<Sku[], boolean>(SKUS_FILE, demoSkus, skus => {
+    if (!skus.some(existing => existing.skuId === skuId)) {
+      return { result: false };
+    }
+    return { data: skus.filter(existing => existing.skuId !== skuId), result: true };
+  });
+}
+
+/**
+ * Preview (and optionally commit) a CSV/XLSX master data import.
+ * The diff is computed against the catalog while holding the write lock, so a
+ * commit always applies exactly what it reports. Nothing is written when the
+ * file has errors.
+ */
+export async function importSkus(
+  file: ArrayBuffer,
+  options: SkuImportOptions & { commit: boolean }
+): Promise<{ preview: SkuImportPreview; committed: boolean }> {
+  const parsed = await parseSkuFile(file);
+
+  return updateJsonFile<Sku[], { preview: SkuImportPreview; committed: boolean }>(SKUS_FILE, demoSkus, skus => {
+    const preview = buildSkuImportPreview(parsed, skus);
+
+    if (!options.commit || preview.errors.length > 0) {
+      return { result: { preview, committed: false } };
+    }
+    return { data: applySkuImportPreview(skus, preview, options), result: { preview, committed: true } };
+  });
+}
+
+export async function getSkuAliases(): Promise<SkuAliases> {
+  return readJsonFile<SkuAliases>(SKU_ALIASES_FILE, {});
+}
+
+/**
+ * Adds aliases, replacing any existing alias for the same code. Returns all aliases.
+ */
+export async function addSkuAliases(aliases: SkuAliases): Promise<SkuAliases> {
+  return updateJsonFile<SkuAliases, SkuAliases>(SKU_ALIASES_FILE, {}, existing => {
+    const updated = { ...existing };
+    for (const [code, skuId] of Object.entries(aliases)) {
+      updated[code.trim()] = skuId.trim();
+    }
+    return { data: updated, result: updated };
+  });
+}
@@ -1,12 +1,30 @@
 import { create } from 'zustand';
-import { Refrigerator, Item, Sku, MultiDoorRefrigerator } from './types';
+import { Refrigerator, Item, Row, Sku, MultiDoorRefrigerator, PlanogramSummary, SavedPlanogram, LayoutData, SourcePhoto } from './types';
 import { arrayMove } from '@dnd-kit/sortable';
 import { produce } from 'immer';
 import { PIXELS_PER_MM } from './config';
 import { toast } from 'sonner';
+import { savePlanogram } from './planogram-api';
+import { AutoFillOptions, generateAutoFill } from './auto-fill';
+import { compareRowIds } from './layout-templates';
+import { clampBlankWidth, getMaxBlankWidth } from './blank-space';
+import { ShelfEditResult, insertShelf, removeShelf, resizeShelf } from './shelf-geometry';
+import { HeldStack, RelocationResult, describeShelfLocation, placeHeldStacks, relocateConflicts } from './auto-resolve';
+import { MerchandisingRule } from './merchandising-rules';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from './detection-review';
+import { generateUniqueId, getStackWidth, getUsedWidth } from './validation';
 
 type StackLocation = { doorId: string; rowId: string; stackIndex: number; itemIndex: number; };
 
+// Copied content waiting to be pasted. Items keep their original ids until pasted.
+export type PlanogramClipboard =
+  | { kind: 'stacks'; stacks: Item[][] }
+  | { kind: 'row'; rowId: string; row: Row }
+  | { kind: 'door'; doorId: string; door: Refrigerator };
+
+// Where to paste: a stack position in a row ('stacks'), a row ('row') or a door ('door')
+export type PasteTarget = { doorId: string; rowId?: string; stackIndex?: number };
+
 interface PlanogramState {
   // NEW: Support for multi-door refrigerators
   isMultiDoor: boolean;
@@ -16,13 +34,22 @@ interface PlanogramState {
   refrigerator: Refrigerator;
 
   selectedItemId: string | null;
+  // Every selected item (shift-click, marquee, select-all-of-SKU). selectedItemId is the
+  // most recently selected of these and drives the single-item panels and menus.
+  selectedItemIds: string[];
   // History: Always use MultiDoorRefrigerator format for consistency
   // Single-door layouts are stored as { 'door-1': Refrigerator }
   history: MultiDoorRefrigerator[];
+  // Holding area contents at each history entry (same indexes as history), so undo/redo
+  // bring it back in step with the shelves
+  holdingHistory: HeldStack[][];
   historyIndex: number;
 
   // Persistence state
   currentLayoutId: string | null;
+  // Template (doors, dimensions, rows) of the current layout - templates can be user-defined,
+  // so components read it from here rather than from the built-in layout list
+  currentLayoutData: LayoutData | null;
   hasPendingDraft: boolean;
   draftMetadata: {
     layoutId: string;
@@ -30,18 +57,44 @@ interface PlanogramState {
   } | null;
 
   // Sync status for UI feedback
-  syncStatus: 'idle' | 'syncing' | 'synced';
+  syncStatus: 'idle' | 'syncing' | 'synced' | 'conflict' | 'error';
   lastSynced: Date | null;
+  syncError: string | null;
+
+  // Server-side planogram currently being edited (null = never saved to server)
+  currentPlanogram: PlanogramSummary | null;
+  // Newer server copy that rejected our last save (set while syncStatus is 'conflict')
+  conflictingPlanogram: SavedPlanogram | null;
+
+  // Copied stacks, row or door waiting to be pasted
+  clipboard: PlanogramClipboard | null;
+
+  // Stacks auto-resolve could not place anywhere. Not part of the saved planogram,
+  // but undo/redo restore it together with the shelves.
+  holdingArea: HeldStack[];
+
+  // Detection review: imported items below the threshold are queued for review
+  confidenceThreshold: number;
+  showConfidence: boolean; // Confidence badges on every imported item, not just those needing review
+
+  // Photo the current planogram was imported from, and the item hovered on either the photo or the shelves
+  sourcePhoto: SourcePhoto | null;
+  hoveredItemId: string | null;
 
   // NEW: Temporary holding for data passed from Upload Page -> Planogram Page
   pendingImportedData: {
     layoutId: string;
     layout: Refrigerator | MultiDoorRefrigerator;
     layoutData?: any;
+    referencePlanogramId?: string; // Open compliance mode against this saved planogram
+    sourcePhoto?: SourcePhoto; // Photo the detections came from
   } | null;
 
   findStackLocation: (itemIdOrStackId: string) => StackLocation | null; actions: {
     selectItem: (itemId: string | null) => void;
+    toggleItemSelection: (itemId: string) => void;
+    setSelection: (itemIds: string[]) => void;
+    selectAllOfSku: (skuId: string) => void;
     deleteSelectedItem: () => void;
     removeItemsById: (itemIds: string[]) => void;
     duplicateAndAddNew: () => void;
@@ -55,31 +108,87 @@ interface PlanogramState {
     redo: () => void;
 
     // NEW: Update blank space width
-    updateBlankWidth: (itemId: string, newWidthMM: number) => void;    // Persistence actions
-    initializeLayout: (layoutId: string, initialLayout: Refrigerator | MultiDoorRefrigerator, forceInit?: boolean, layoutData?: any) => void;
+    updateBlankWidth: (itemId: string, newWidthMM: number) => void;
+
+    // Group operations on selectedItemIds (each is one undo step)
+    moveSelectedItems: (targetRowId: string, targetDoorId?: string, isRulesEnabled?: boolean) => void;
+    duplicateSelectedItems: () => void;
+    replaceSelectedItems: (newSku: Sku, isRulesEnabled?: boolean) => void;
+
+    // Clipboard
+    copySelection: () => void;
+    copyRow: (doorId: string, rowId: string) => void;
+    copyDoor: (doorId: string) => void;
+    pasteClipboard: (target: PasteTarget, isRulesEnabled?: boolean) => void;
+
+    // Shelf geometry (rows are renumbered top to bottom after insert/remove)
+    insertShelf: (doorId: string, rowId: string, position: 'above' | 'below') => void;
+    removeShelf: (doorId: string, rowId: string) => void;
+    updateShelf: (doorId: string, rowId: string, changes: { heightMM?: number; allowedProductTypes?: 'all' | string[] }) => void;
+
+    // Replace every shelf with a generated planogram (one undo step)
+    autoFill: (skus: Sku[], options: AutoFillOptions) => void;
+
+    // Move conflicting stacks to shelves that take them; leftovers go to the holding area (one undo step)
+    autoResolveConflicts: (itemIds: string[], rules?: MerchandisingRule[]) => void;
+    placeHeldStacks: (heldIds?: string[], rules?: MerchandisingRule[]) => void;
+    discardHeldStack: (heldId: string) => void;
+
+    // Detection review
+    setConfidenceThreshold: (threshold: number) => void;
+    setShowConfidence: (show: boolean) => void;
+    confirmDetections: (itemIds: string[]) => void;
+
+    // Source photo
+    setSourcePhoto: (photo: SourcePhoto | null) => void;
+    setHoveredItem: (itemId: string | null) => void;
+
+    // Swap the placeholders of unknown AI detections for catalog SKUs, keyed by detected SKU-Code (one undo step)
+    resolveUnknownSkus: (resolutions: { [skuCode: string]: Sku }) => void;
+
+    // Persistence actions
+    initializeLayout: (layoutId: string, initialLayout: Refrigerator | MultiDoorRefrigerator, forceInit?: boolean, layoutData?: any, sourcePhoto?: SourcePhoto) => void;
     switchLayout: (layoutId: string, newLayout: Refrigerator | MultiDoorRefrigerator, layoutData?: any) => void;
     restoreDraft: () => void;
     dismissDraft: () => void;
     clearDraft: () => void;
-    manualSync: () => void;
-    setPendingImport: (data: { layoutId: string; layout: Refrigerator | MultiDoorRefrigerator; layoutData?: any } | null) => void;
+    manualSync: (details?: { name?: string; author?: string }) => Promise<void>;
+    resolveSyncConflict: (strategy: 'overwrite' | 'reload') => Promise<void>;
+    loadSavedPlanogram: (planogram: SavedPlanogram, layoutData?: any) => void;
+    setPendingImport: (data: { layoutId: string; layout: Refrigerator | MultiDoorRefrigerator; layoutData?: any; referencePlanogramId?: string; sourcePhoto?: SourcePhoto } | null) => void;
   }
 }
 
-const generateUniqueId = (skuId: string) => `${skuId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+/**
+ * Copy an item under a fresh id. Copies are placed by hand, so they don't
+ * inherit the confidence or photo position of the detection they were copied from.
+ */
+const copyItem = ({ confidence, reviewStatus, detectionBox, ...item }: Item): Item => ({
+  ...item,
+  id: generateUniqueId(item.skuId),
+});
 
-// ============================================================================
-// Helper: Get Stack Width (widest item in stack)
-// ============================================================================
+/**
+ * Copy stacks for pasting into `targetRow`: fresh item ids, and blank spaces
+ * resized to the target row's height (as when a blank is dropped there).
+ */
+const cloneStacksForRow = (stacks: Item[][], targetRow: Row): Item[][] =>
+  stacks.map(stack => stack.map(item => ({
+    ...copyItem(item),
+    ...(item.productType === 'BLANK' && {
+      height: targetRow.maxHeight,
+      heightMM: targetRow.maxHeight / PIXELS_PER_MM,
+    }),
+  })));
 
 /**
- * Get the width footprint of a stack.
- * For stacked items, we need the WIDEST item's width (max), not the first item.
- * This ensures proper width calculation regardless of stack order.
+ * Check a row's stacks against its capacity (1px gap between stacks) and maxHeight.
+ * Returns a reason when they don't fit, otherwise null.
  */
-const getStackWidth = (stack: Item[]): number => {
-  if (stack.length === 0) return 0;
-  return Math.max(...stack.map(item => item.width));
+const getRowFitError = (row: Row): string | null => {
+  if (getUsedWidth(row) > row.capacity) return 'not enough width';
+  if (row.stacks.some(stack => stack.reduce((acc, item) => acc + item.height, 0) > row.maxHeight)) return 'a stack is too tall';
+  return null;
 };
 
 // ============================================================================
@@ -95,6 +204,7 @@ interface StoredDraft {
   historyIndex: number;
   layoutId: string;
   timestamp: string;
+  sourcePhoto?: SourcePhoto | null;
 }
 
 // Save full state to localStorage
@@ -102,7 +212,8 @@ const saveToLocalStorage = (
   refrigerator: Refrigerator | MultiDoorRefrigerator,
   history: (Refrigerator | MultiDoorRefrigerator)[],
   historyIndex: number,
-  layoutId: string
+  layoutId: string,
+  sourcePhoto: SourcePhoto | null = usePlanogramStore.getState().sourcePhoto
 ): void => {
   try {
     const key = getStorageKey(layoutId);
@@ -111,6 +222,7 @@ const saveToLocalStorage = (
       history,
       historyIndex,
       layoutId,
+      sourcePhoto,
       timestamp: new Date().toISOString()
     };
     localStorage.setItem(key, JSON.stringify(draft));
@@ -156,6 +268,34 @@ const clearLocalStorage = (layoutId: string): void => {
   }
 };
 
+// Remember which server-side planogram a layout's draft belongs to,
+// so a page refresh keeps saving to the same planogram instead of creating a new one
+const getPlanogramLinkKey = (layoutId: string) => `planogram-link-${layoutId}`;
+
+const saveLinkedPlanogram = (layoutId: string, planogram: PlanogramSummary | null): void => {
+  try {
+    if (planogram) {
+      localStorage.setItem(getPlanogramLinkKey(layoutId), JSON.stringify(planogram));
+    } else {
+      localStorage.removeItem(getPlanogramLinkKey(layoutId));
+    }
+  } catch (error) {
+    console.error('Failed to save planogram link:', error);
+  }
+};
+
+const loadLinkedPlanogram = (layoutId: string): PlanogramSummary | null => {
+  try {
+    const data = localStorage.getItem(getPlanogramLinkKey(layoutId));
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Failed to load planogram link:', error);
+    return null;
+  }
+};
+
+const toPlanogramSummary = ({ refrigerators, sourcePhoto, ...summary }: SavedPlanogram): PlanogramSummary => summary;
+
 // Debounced auto-save (1 second delay)
 let saveTimeout: NodeJS.Timeout | null = null;
 const debouncedPersist = (
@@ -214,16 +354,26 @@ const normalizeToMultiDoor = (state: Refrigerator | MultiDoorRefrigerator): Mult
 };
 
 // Helper function to push new state after modification
-const pushToHistory = (newState: Refrigerator | MultiDoorRefrigerator, history: MultiDoorRefrigerator[], historyIndex: number, currentLayoutId: string | null): { history: MultiDoorRefrigerator[]; historyIndex: number } => {
+// holdingArea defaults to the current holding area (most edits don't touch it)
+// The parts of the store a history step is built from
+type HistorySource = Pick<PlanogramState, 'history' | 'holdingHistory' | 'historyIndex' | 'currentLayoutId' | 'holdingArea'>;
+
+const pushToHistory = (newState: Refrigerator | MultiDoorRefrigerator, state: HistorySource, holdingArea = state.holdingArea): { history: MultiDoorRefrigerator[]; holdingHistory: HeldStack[][]; historyIndex: number } => {
+  const { history, holdingHistory, historyIndex, currentLayoutId } = state;
+
   // Remove any future history if we're not at the end
   const newHistory = history.slice(0, historyIndex + 1);
+  const newHoldingHistory = holdingHistory.slice(0, historyIndex + 1);
 
-  // Normalize to MultiDoorRefrigerator format before adding to history
+  // Normalize to MultiDoorRefrigerator format before adding to history.
+  // Entries are deep copies, so no later edit can reach into one
   const normalizedState = normalizeToMultiDoor(newState);
-  newHistory.push(produce(normalizedState, () => { }));
+  newHistory.push(JSON.parse(JSON.stringify(normalizedState)));
+  newHoldingHistory.push(holdingArea);
 
   // Limit history to last 50 states to prevent memory issues
   const limitedHistory = newHistory.slice(-50);
+  const limitedHoldingHistory = newHoldingHistory.slice(-50);
 
   // Auto-save to localStorage with debounce (Phase 8)
   if (currentLayoutId) {
@@ -232,25 +382,87 @@ const pushToHistory = (newState: Refrigerator | MultiDoorRefrigerator, history:
 
   return {
     history: limitedHistory,
+    holdingHistory: limitedHoldingHistory,
     historyIndex: limitedHistory.length - 1
   };
 };
 
+/**
+ * Build the state update for a shelf geometry edit of one door (one history step).
+ * Returns null, after telling the user why, when the edit was rejected.
+ */
+const buildShelfEditUpdate = (
+  state: PlanogramState,
+  doorId: string,
+  result: ShelfEditResult,
+  clearSelection = false
+): Partial<PlanogramState> | null => {
+  if ('error' in result) {
+    toast.error(result.error);
+    return null;
+  }
+
+  const { refrigerators } = state;
+  const updatedRefrigerators = produce(refrigerators, draft => {
+    draft[doorId] = result.door;
+  });
+
+  // Dimension validation flags these too, but say so now since this edit caused it
+  const tooTall = Object.values(result.door).reduce((count, row) =>
+    count + row.stacks.filter(stack => stack.reduce((sum, item) => sum + item.height, 0) > row.maxHeight).length, 0);
+  if (tooTall > 0) {
+    toast.warning(`${tooTall} stack(s) are now taller than their shelf.`);
+  }
+
+  return {
+    refrigerators: updatedRefrigerators,
+    refrigerator: updatedRefrigerators['door-1'] || {},
+    ...(clearSelection && { selectedItemId: null, selectedItemIds: [] }),
+    ...pushToHistory(updatedRefrigerators, state)
+  };
+};
+
+// Toast text for an auto-resolve or holding-area placement
+const MAX_LISTED_MOVES = 5;
+const summarizeRelocation = (result: RelocationResult, isMultiDoor: boolean): { title: string; description: string } => {
+  const heldItemCount = result.held.reduce((sum, held) => sum + held.items.length, 0);
+  const lines = result.moves.slice(0, MAX_LISTED_MOVES).map(move =>
+    `${move.skuName}: ${describeShelfLocation(move.from, isMultiDoor)} → ${describeShelfLocation(move.to, isMultiDoor)}`);
+  if (result.moves.length > MAX_LISTED_MOVES) lines.push(`...and ${result.moves.length - MAX_LISTED_MOVES} more`);
+  if (result.unstackedCount > 0) lines.push(`${result.unstackedCount} stack(s) unstacked to fit`);
+  if (heldItemCount > 0) lines.push(`${heldItemCount} item(s) in the holding area`);
+  if (result.leftInPlaceCount > 0) lines.push(`${result.leftInPlaceCount} stack(s) left in place (moving would not help)`);
+  if (result.removedBlankCount > 0) lines.push(`${result.removedBlankCount} blank space(s) removed`);
+  return { title: `Moved ${result.moves.length} stack(s)`, description: lines.join('\n') };
+};
+
 export const usePlanogramStore = create<PlanogramState>((set, get) => ({
   isMultiDoor: false,
   refrigerators: {},
   refrigerator: {},
   selectedItemId: null,
+  selectedItemIds: [],
   history: [],
+  holdingHistory: [],
   historyIndex: -1,
 
   // Persistence state
   currentLayoutId: null,
+  currentLayoutData: null,
   hasPendingDraft: false,
   draftMetadata: null,
   syncStatus: 'idle',
   lastSynced: null,
+  syncError: null,
+  currentPlanogram: null,
+  conflictingPlanogram: null,
+  holdingArea: [],
+  confidenceThreshold: DEFAULT_CONFIDENCE_THRESHOLD,
+  showConfidence: false,
+  sourcePhoto: null,
+  hoveredItemId: null,
   pendingImportedData: null,
+  clipboard: null,
   findStackLocation: (itemIdOrStackId: string) => {
     const { isMultiDoor, refrigerators, refrigerator } = get();
 
@@ -292,15 +504,38 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
     }
     return null;
   }, actions: {
-    selectItem: (itemId) => set({ selectedItemId: itemId }),
+    selectItem: (itemId) => set({ selectedItemId: itemId, selectedItemIds: itemId ? [itemId] : [] }),
+    toggleItemSelection: (itemId) => {
+      const { selectedItemIds } = get();
+      const updatedIds = selectedItemIds.includes(itemId)
+        ? selectedItemIds.filter(id => id !== itemId)
+        : [...selectedItemIds, itemId];
+      set({ selectedItemIds: updatedIds, selectedItemId: updatedIds[updatedIds.length - 1] || null });
+    },
+    setSelection: (itemIds) => {
+      const uniqueIds = Array.from(new Set(itemIds));
+      set({ selectedItemIds: uniqueIds, selectedItemId: uniqueIds[uniqueIds.length - 1] || null });
+    },
+    selectAllOfSku: (skuId) => {
+      const { refrigerators, actions } = get();
+      const itemIds: string[] = [];
+      for (const doorId of Object.keys(refrigerators).sort(compareRowIds)) {
+        for (const rowId of Object.keys(refrigerators[doorId]).sort(compareRowIds)) {
+          refrigerators[doorId][rowId].stacks.forEach(stack => stack.forEach(item => {
+            if (item.skuId === skuId) itemIds.push(item.id);
+          }));
+        }
+      }
+      actions.setSelection(itemIds);
+    },
     setPendingImport: (data) => set({ pendingImportedData: data }),
     deleteSelectedItem: () => {
-      const { selectedItemId, actions } = get();
-      if (!selectedItemId) return;
-      actions.removeItemsById([selectedItemId]);
+      const { selectedItemIds, actions } = get();
+      if (selectedItemIds.length === 0) return;
+      actions.removeItemsById(selectedItemIds);
     }, removeItemsById: (itemIds) => {
       const state = get();
-      const { findStackLocation, refrigerators, history, historyIndex, currentLayoutId } = state;
+      const { findStackLocation, refrigerators } = state;
 
       // Find which door(s) contain these items
       const doorsToUpdate = new Set<string>();
@@ -336,17 +571,18 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       });
 
       if (itemsRemoved) {
-        const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+        const historyUpdate = pushToHistory(updatedRefrigerators, state);
         set({
           refrigerators: updatedRefrigerators,
           refrigerator: updatedRefrigerators['door-1'] || {},
           selectedItemId: null,
+          selectedItemIds: [],
           ...historyUpdate
         });
       }
     }, duplicateAndAddNew: () => {
       const state = get();
-      const { selectedItemId, findStackLocation, refrigerators, history, historyIndex, currentLayoutId } = state;
+      const { selectedItemId, findStackLocation, refrigerators } = state;
       if (!selectedItemId) return;
 
       const location = findStackLocation(selectedItemId);
@@ -359,7 +595,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       const item = stack.find((i: Item) => i.id === selectedItemId);
       if (!item) return;
 
-      const newItem = { ...item, id: generateUniqueId(item.skuId) };
+      const newItem = copyItem(item);
       const currentWidth = row.stacks.reduce((acc: number, s: Item[]) => acc + getStackWidth(s), 0);
 
       // Account for gaps between stacks (1px per gap)
@@ -370,7 +606,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           draft[doorId][location.rowId].stacks.push([newItem]);
         });
 
-        const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+        const historyUpdate = pushToHistory(updatedRefrigerators, state);
         set({
           refrigerators: updatedRefrigerators,
           refrigerator: updatedRefrigerators['door-1'] || {},
@@ -383,7 +619,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       }
     }, duplicateAndStack: () => {
       const state = get();
-      const { selectedItemId, findStackLocation, refrigerators, history, historyIndex, currentLayoutId } = state;
+      const { selectedItemId, findStackLocation, refrigerators } = state;
       if (!selectedItemId) return;
 
       const location = findStackLocation(selectedItemId);
@@ -396,7 +632,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       const item = stack.find((i: Item) => i.id === selectedItemId);
       if (!item || !item.constraints.stackable) return;
 
-      const newItem = { ...item, id: generateUniqueId(item.skuId) };
+      const newItem = copyItem(item);
       const currentStackHeight = stack.reduce((acc: number, i: Item) => acc + i.height, 0);
 
       if (currentStackHeight + newItem.height <= row.maxHeight) {
@@ -404,7 +640,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           draft[doorId][location.rowId].stacks[location.stackIndex].push(newItem);
         });
 
-        const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+        const historyUpdate = pushToHistory(updatedRefrigerators, state);
         set({
           refrigerators: updatedRefrigerators,
           refrigerator: updatedRefrigerators['door-1'] || {},
@@ -417,7 +653,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       }
     }, replaceSelectedItem: (newSku, isRulesEnabled = true) => {
       const state = get();
-      const { selectedItemId, findStackLocation, refrigerators, history, historyIndex, currentLayoutId } = state;
+      const { selectedItemId, findStackLocation, refrigerators } = state;
       if (!selectedItemId) return;
 
       const location = findStackLocation(selectedItemId);
@@ -429,7 +665,8 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       const stack = row.stacks[location.stackIndex];
       const itemIndex = stack.findIndex((i: Item) => i.id === selectedItemId);
       const oldItem = stack[itemIndex];
-      const newItem: Item = { ...newSku, id: generateUniqueId(newSku.skuId) };
+      // The replacement still stands where the detection was on the source photo
+      const newItem: Item = { ...newSku, id: generateUniqueId(newSku.skuId), ...(oldItem.detectionBox && { detectionBox: oldItem.detectionBox }) };
 
       // Only check product type rules if rules are enabled
       if (isRulesEnabled && row.allowedProductTypes !== 'all' && !row.allowedProductTypes.includes(newItem.productType)) {
@@ -460,18 +697,19 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
         draft[doorId][location.rowId].stacks[location.stackIndex][itemIndex] = newItem;
       });
 
-      const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
       set({
         refrigerators: updatedRefrigerators,
         refrigerator: updatedRefrigerators['door-1'] || {},
         selectedItemId: newItem.id,
+        selectedItemIds: [newItem.id],
         ...historyUpdate
       });
 
       toast.success('Item replaced successfully!');
     }, addItemFromSku: (sku, targetRowId, targetStackIndex = -1, doorId?: string) => {
       const state = get();
-      const { refrigerators, history, historyIndex, currentLayoutId } = state;
+      const { refrigerators } = state;
 
       // Use provided doorId, or default to door-1
       const finalDoorId = doorId || 'door-1';
@@ -508,7 +746,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
 
       console.log('✅ Item added, updating store:', { doorId: finalDoorId, newStacksCount: updatedRefrigerators[finalDoorId][targetRowId].stacks.length });
 
-      const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
       set({
         refrigerators: updatedRefrigerators,
         refrigerator: updatedRefrigerators['door-1'] || {},
@@ -516,7 +754,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       });
     }, moveItem: (itemId, targetRowId, targetStackIndex, targetDoorId?: string) => {
       const state = get();
-      const { findStackLocation, isMultiDoor, refrigerators, history, historyIndex, currentLayoutId } = state;
+      const { findStackLocation, isMultiDoor, refrigerators } = state;
       const location = findStackLocation(itemId);
       if (!location) return;
 
@@ -544,7 +782,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           }
         });
 
-        const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+        const historyUpdate = pushToHistory(updatedRefrigerators, state);
         set({
           refrigerators: updatedRefrigerators,
           refrigerator: updatedRefrigerators['door-1'] || {},
@@ -569,7 +807,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           }
         });
 
-        const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+        const historyUpdate = pushToHistory(updatedRefrigerators, state);
         set({
           refrigerators: updatedRefrigerators,
           refrigerator: updatedRefrigerators['door-1'] || {},
@@ -578,7 +816,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       }
     }, reorderStack: (rowId, oldIndex, newIndex, doorId?: string) => {
       const state = get();
-      const { isMultiDoor, refrigerators, history, historyIndex, currentLayoutId } = state;
+      const { isMultiDoor, refrigerators } = state;
 
       // Use provided doorId or try to find it
       const finalDoorId = doorId || (isMultiDoor
@@ -591,7 +829,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
         draft[finalDoorId][rowId].stacks = arrayMove(draft[finalDoorId][rowId].stacks, oldIndex, newIndex);
       });
 
-      const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
       set({
         refrigerators: updatedRefrigerators,
         refrigerator: updatedRefrigerators['door-1'] || {},
@@ -599,7 +837,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       });
     }, stackItem: (draggedStackId, targetStackId) => {
       const state = get();
-      const { findStackLocation, refrigerators, history, historyIndex, currentLayoutId } = state;
+      const { findStackLocation, refrigerators } = state;
       const draggedLocation = findStackLocation(draggedStackId);
       const targetLocation = findStackLocation(targetStackId);
 
@@ -631,7 +869,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
         draft[doorId][draggedLocation.rowId].stacks.splice(draggedLocation.stackIndex, 1);
       });
 
-      const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
       set({
         refrigerators: updatedRefrigerators,
         refrigerator: updatedRefrigerators['door-1'] || {},
@@ -648,8 +886,10 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           return {
             refrigerators: produce(previousMultiDoor, () => { }),
             refrigerator: produce(previousMultiDoor['door-1'] || {}, () => { }),
+            holdingArea: state.holdingHistory[newIndex] ?? [],
             historyIndex: newIndex,
-            selectedItemId: null
+            selectedItemId: null,
+            selectedItemIds: []
           };
         } else {
           toast.error('Nothing to undo');
@@ -667,8 +907,10 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           return {
             refrigerators: produce(nextMultiDoor, () => { }),
             refrigerator: produce(nextMultiDoor['door-1'] || {}, () => { }),
+            holdingArea: state.holdingHistory[newIndex] ?? [],
             historyIndex: newIndex,
-            selectedItemId: null
+            selectedItemId: null,
+            selectedItemIds: []
           };
         } else {
           toast.error('Nothing to redo');
@@ -681,7 +923,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
     // ========================================
     updateBlankWidth: (itemId: string, newWidthMM: number) => {
       const state = get();
-      const { findStackLocation, refrigerators, history, historyIndex, currentLayoutId } = state;
+      const { findStackLocation, refrigerators } = state;
       const location = findStackLocation(itemId);
 
       if (!location) {
@@ -701,39 +943,9 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
 
       const row = currentFridge[location.rowId];
 
-      // CRITICAL FIX: Only count the bottom (first) item of each stack
-      // Stacked items (index > 0) don't take horizontal space
-      const usedWidth = row.stacks.reduce((sum, stack) => {
-        // Only count the first item (bottom of stack)
-        const bottomItem = stack[0];
-        if (!bottomItem) return sum;
-
-        // If this is the selected item's stack, don't count it
-        if (stack.some(stackItem => stackItem.id === itemId)) {
-          return sum;
-        }
-
-        // Add the bottom item's width (stacked items don't take horizontal space)
-        return sum + bottomItem.width;
-      }, 0);
-
-      // CRITICAL FIX: Account for 1px gaps between OTHER stacks (excluding the selected one)
-      // We need to count gaps between OTHER stacks (excluding the selected one)
-      // Example: If there are 3 total stacks and we're editing one:
-      //   - Other stacks: 2
-      //   - Gaps between other stacks: 2 - 1 = 1px
-      const otherStacksCount = row.stacks.filter(stack => !stack.some(stackItem => stackItem.id === itemId)).length;
-      const gapWidth = otherStacksCount > 1 ? otherStacksCount - 1 : 0;
-
-      const availableWidth = row.capacity - usedWidth - gapWidth;
-
-      // Clamp to min/max (min: 25mm, max: available space)
-      const MIN_WIDTH_MM = 25;
-      const MIN_WIDTH = Math.round(MIN_WIDTH_MM * PIXELS_PER_MM);
-      const MAX_WIDTH = availableWidth;
-
+      // Clamp to min/max (min: 25mm, max: the space the other stacks leave free)
       const newWidth = Math.round(newWidthMM * PIXELS_PER_MM);
-      const clampedWidth = Math.max(MIN_WIDTH, Math.min(newWidth, MAX_WIDTH));
+      const clampedWidth = clampBlankWidth(newWidth, getMaxBlankWidth(row, itemId));
       const clampedWidthMM = clampedWidth / PIXELS_PER_MM;
 
       // If no change, don't update
@@ -749,16 +961,480 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
         targetItem.customWidth = clampedWidth;
       });
 
-      const historyUpdate = pushToHistory(updatedRefrigerators, history, historyIndex, currentLayoutId);
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
+      set({
+        refrigerators: updatedRefrigerators,
+        refrigerator: updatedRefrigerators['door-1'] || {},
+        ...historyUpdate
+      });
+    },
+    autoFill: (skus, options) => {
+      const state = get();
+      const { refrigerators } = state;
+      if (Object.keys(refrigerators).length === 0) return;
+
+      const result = generateAutoFill(refrigerators, skus, options);
+      if (result.facingCount === 0) {
+        toast.error('Auto-fill could not place any products on these shelves');
+        return;
+      }
+
+      const historyUpdate = pushToHistory(result.refrigerators, state);
+      set({
+        refrigerators: result.refrigerators,
+        refrigerator: result.refrigerators['door-1'] || {},
+        selectedItemId: null,
+        selectedItemIds: [],
+        ...historyUpdate
+      });
+
+      const shareSummary = Object.entries(result.achievedShare)
+        .sort(([, a], [, b]) => b - a)
+        .map(([group, share]) => `${group} ${Math.round(share)}%`)
+        .join(', ');
+      toast.success(`Auto-filled ${result.facingCount} facings`, { description: shareSummary });
+      if (result.missingMustStock.length > 0) {
+        toast.warning(`No room for must-stock SKU(s): ${result.missingMustStock.join(', ')}`);
+      }
+    },
+    autoResolveConflicts: (itemIds, rules = []) => {
+      const state = get();
+      const { refrigerators, isMultiDoor, holdingArea } = state;
+      if (itemIds.length === 0) return;
+
+      const result = relocateConflicts(refrigerators, itemIds, rules);
+      if (result.moves.length === 0 && result.held.length === 0 && result.removedBlankCount === 0) {
+        toast.info('No conflicting stacks could be relocated');
+        return;
+      }
+
+      const nextHoldingArea = [...holdingArea, ...result.held];
+      const historyUpdate = pushToHistory(result.refrigerators, state, nextHoldingArea);
+      set({
+        refrigerators: result.refrigerators,
+        refrigerator: result.refrigerators['door-1'] || {},
+        holdingArea: nextHoldingArea,
+        selectedItemId: null,
+        selectedItemIds: [],
+        ...historyUpdate
+      });
+
+      const { title, description } = summarizeRelocation(result, isMultiDoor);
+      toast.success(title, { description, descriptionClassName: 'whitespace-pre-line', duration: 8000 });
+    },
+    placeHeldStacks: (heldIds, rules = []) => {
+      const state = get();
+      const { refrigerators, isMultiDoor, holdingArea } = state;
+      const toPlace = heldIds ? holdingArea.filter(held => heldIds.includes(held.id)) : holdingArea;
+      if (toPlace.length === 0) return;
+
+      const result = placeHeldStacks(refrigerators, toPlace, rules);
+      if (result.moves.length === 0) {
+        toast.error('No shelf has room for these items yet');
+        return;
+      }
+
+      // Keep untouched entries in their place; leftovers of partly placed entries go to the end
+      const nextHoldingArea = [
+        ...holdingArea.filter(held => !toPlace.includes(held) || result.held.includes(held)),
+        ...result.held.filter(held => !holdingArea.includes(held)),
+      ];
+      const historyUpdate = pushToHistory(result.refrigerators, state, nextHoldingArea);
+      set({
+        refrigerators: result.refrigerators,
+        refrigerator: result.refrigerators['door-1'] || {},
+        holdingArea: nextHoldingArea,
+        ...historyUpdate
+      });
+
+      const { title, description } = summarizeRelocation(result, isMultiDoor);
+      toast.success(title, { description, descriptionClassName: 'whitespace-pre-line', duration: 8000 });
+    },
+    discardHeldStack: (heldId) => {
+      const state = get();
+      const { refrigerators, holdingArea } = state;
+      if (!holdingArea.some(held => held.id === heldId)) return;
+
+      const nextHoldingArea = holdingArea.filter(held => held.id !== heldId);
+      const historyUpdate = pushToHistory(refrigerators, state, nextHoldingArea);
+      set({ holdingArea: nextHoldingArea, ...historyUpdate });
+    },
+    setConfidenceThreshold: (threshold) => set({ confidenceThreshold: Math.min(1, Math.max(0, threshold)) }),
+    setShowConfidence: (show) => set({ showConfidence: show }),
+    setSourcePhoto: (photo) => set({ sourcePhoto: photo }),
+    setHoveredItem: (itemId) => set({ hoveredItemId: itemId }),
+    confirmDetections: (itemIds) => {
+      const state = get();
+      const { refrigerators } = state;
+      const ids = new Set(itemIds);
+      let confirmedCount = 0;
+
+      const updatedRefrigerators = produce(refrigerators, draft => {
+        for (const doorId in draft) {
+          for (const rowId in draft[doorId]) {
+            for (const item of draft[doorId][rowId].stacks.flat()) {
+              if (!ids.has(item.id) || item.confidence === undefined || item.reviewStatus === 'confirmed') continue;
+              item.reviewStatus = 'confirmed';
+              confirmedCount++;
+            }
+          }
+        }
+      });
+
+      if (confirmedCount === 0) return;
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
+      set({
+        refrigerators: updatedRefrigerators,
+        refrigerator: updatedRefrigerators['door-1'] || {},
+        ...historyUpdate
+      });
+    },
+    resolveUnknownSkus: (resolutions) => {
+      const state = get();
+      const { refrigerators } = state;
+      let resolvedCount = 0;
+
+      // Items keep their ids so the selection and conflict links stay valid
+      const updatedRefrigerators = produce(refrigerators, draft => {
+        for (const doorId in draft) {
+          for (const rowId in draft[doorId]) {
+            const row = draft[doorId][rowId];
+            row.stacks = row.stacks.map(stack => stack.map(item => {
+              const sku = item.detectedSkuCode ? resolutions[item.detectedSkuCode] : undefined;
+              if (!sku) return item;
+              resolvedCount++;
+              return { ...sku, id: item.id, ...(item.detectionBox && { detectionBox: item.detectionBox }) };
+            }));
+          }
+        }
+      });
+
+      if (resolvedCount === 0) return;
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
+      set({
+        refrigerators: updatedRefrigerators,
+        refrigerator: updatedRefrigerators['door-1'] || {},
+        ...historyUpdate
+      });
+
+      toast.success(`Resolved ${resolvedCount} placeholder item(s)`, {
+        description: 'Catalog sizes can differ from the detected ones; check the conflict panels.',
+      });
+    },
+    // ========================================
+    // Group Operations (multi-select)
+    // ========================================
+    moveSelectedItems: (targetRowId, targetDoorId, isRulesEnabled = true) => {
+      const state = get();
+      const { selectedItemIds, refrigerators } = state;
+      const finalDoorId = targetDoorId || 'door-1';
+      if (selectedItemIds.length === 0 || !refrigerators[finalDoorId]?.[targetRowId]) return;
+
+      const selected = new Set(selectedItemIds);
+      let movedCount = 0;
+      let disallowedType: string | null = null;
+
+      // Selected items leave their stacks; those that shared a stack stay stacked together
+      const updatedRefrigerators = produce(refrigerators, draft => {
+        const targetRow = draft[finalDoorId][targetRowId];
+        for (const doorId of Object.keys(draft).sort(compareRowIds)) {
+          for (const rowId of Object.keys(draft[doorId]).sort(compareRowIds)) {
+            if (doorId === finalDoorId && rowId === targetRowId) continue;
+            const row = draft[doorId][rowId];
+            row.stacks = row.stacks
+              .map(stack => {
+                const moved = stack.filter(item => selected.has(item.id));
+                if (moved.length > 0) {
+                  targetRow.stacks.push(moved);
+                  movedCount += moved.length;
+                  const invalid = moved.find(item => item.productType !== 'BLANK' && targetRow.allowedProductTypes !== 'all' && !targetRow.allowedProductTypes.includes(item.productType));
+                  if (invalid) disallowedType = invalid.productType;
+                }
+                return stack.filter(item => !selected.has(item.id));
+              })
+              .filter(stack => stack.length > 0);
+          }
+        }
+      });
+
+      if (movedCount === 0) {
+        toast.info('The selected items are already in that row.');
+        return;
+      }
+      if (isRulesEnabled && disallowedType) {
+        toast.error(`Cannot move: This row does not accept "${disallowedType}" products.`);
+        return;
+      }
+      const fitError = getRowFitError(updatedRefrigerators[finalDoorId][targetRowId]);
+      if (fitError) {
+        toast.error(`Cannot move: ${fitError} in the target row.`);
+        return;
+      }
+
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
+      set({
+        refrigerators: updatedRefrigerators,
+        refrigerator: updatedRefrigerators['door-1'] || {},
+        ...historyUpdate
+      });
+
+      toast.success(`Moved ${movedCount} item(s)`);
+    },
+    duplicateSelectedItems: () => {
+      const state = get();
+      const { selectedItemIds, refrigerators } = state;
+      if (selectedItemIds.length === 0) return;
+
+      const selected = new Set(selectedItemIds);
+      const copyIds: string[] = [];
+      const affectedRows: { doorId: string; rowId: string }[] = [];
+
+      // Each stack's selected items are copied as one new stack at the end of the same row
+      const updatedRefrigerators = produce(refrigerators, draft => {
+        for (const doorId in draft) {
+          for (const rowId in draft[doorId]) {
+            const row = draft[doorId][rowId];
+            const copies = row.stacks
+              .map(stack => stack
+                .filter(item => selected.has(item.id))
+                .map(copyItem))
+              .filter(stack => stack.length > 0);
+            if (copies.length === 0) continue;
+
+            row.stacks.push(...copies);
+            copies.forEach(stack => stack.forEach(item => copyIds.push(item.id)));
+            affectedRows.push({ doorId, rowId });
+          }
+        }
+      });
+
+      if (copyIds.length === 0) return;
+      if (affectedRows.some(({ doorId, rowId }) => getRowFitError(updatedRefrigerators[doorId][rowId]))) {
+        toast.error('Not enough space in the row to duplicate!');
+        return;
+      }
+
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
+      set({
+        refrigerators: updatedRefrigerators,
+        refrigerator: updatedRefrigerators['door-1'] || {},
+        selectedItemIds: copyIds,
+        selectedItemId: copyIds[copyIds.length - 1],
+        ...historyUpdate
+      });
+
+      toast.success(`Duplicated ${copyIds.length} item(s)`);
+    },
+    replaceSelectedItems: (newSku, isRulesEnabled = true) => {
+      const state = get();
+      const { selectedItemIds, refrigerators } = state;
+      if (selectedItemIds.length === 0) return;
+
+      const selected = new Set(selectedItemIds);
+      const newIds: string[] = [];
+      const affectedRows: { doorId: string; rowId: string }[] = [];
+
+      const updatedRefrigerators = produce(refrigerators, draft => {
+        for (const doorId in draft) {
+          for (const rowId in draft[doorId]) {
+            const row = draft[doorId][rowId];
+            let replaced = false;
+            row.stacks = row.stacks.map(stack => stack.map(item => {
+              if (!selected.has(item.id)) return item;
+              const newItem: Item = { ...newSku, id: generateUniqueId(newSku.skuId), ...(item.detectionBox && { detectionBox: item.detectionBox }) };
+              newIds.push(newItem.id);
+              replaced = true;
+              return newItem;
+            }));
+            if (replaced) affectedRows.push({ doorId, rowId });
+          }
+        }
+      });
+
+      if (newIds.length === 0) return;
+      if (isRulesEnabled) {
+        const blockedRow = affectedRows.find(({ doorId, rowId }) => {
+          const { allowedProductTypes } = refrigerators[doorId][rowId];
+          return allowedProductTypes !== 'all' && !allowedProductTypes.includes(newSku.productType);
+        });
+        if (blockedRow) {
+          toast.error(`Cannot replace: ${blockedRow.rowId} does not accept "${newSku.productType}" products.`);
+          return;
+        }
+      }
+      for (const { doorId, rowId } of affectedRows) {
+        const fitError = getRowFitError(updatedRefrigerators[doorId][rowId]);
+        if (fitError) {
+          toast.error(`Cannot replace: ${fitError} in ${rowId}${Object.keys(refrigerators).length > 1 ? ` of ${doorId}` : ''}.`);
+          return;
+        }
+      }
+
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
+      set({
+        refrigerators: updatedRefrigerators,
+        refrigerator: updatedRefrigerators['door-1'] || {},
+        selectedItemIds: newIds,
+        selectedItemId: newIds[newIds.length - 1],
+        ...historyUpdate
+      });
+
+      toast.success(`Replaced ${newIds.length} item(s)`);
+    },
+    // ========================================
+    // Clipboard
+    // ========================================
+    copySelection: () => {
+      const { selectedItemIds, refrigerators } = get();
+      if (selectedItemIds.length === 0) return;
+
+      // Selected items that share a stack are copied as one stack, in shelf order
+      const selected = new Set(selectedItemIds);
+      const stacks: Item[][] = [];
+      for (const doorId of Object.keys(refrigerators).sort(compareRowIds)) {
+        for (const rowId of Object.keys(refrigerators[doorId]).sort(compareRowIds)) {
+          for (const stack of refrigerators[doorId][rowId].stacks) {
+            const copied = stack.filter(item => selected.has(item.id));
+            if (copied.length > 0) stacks.push(copied);
+          }
+        }
+      }
+
+      set({ clipboard: { kind: 'stacks', stacks } });
+      toast.success(`Copied ${stacks.length} stack(s)`);
+    },
+    copyRow: (doorId, rowId) => {
+      const row = get().refrigerators[doorId]?.[rowId];
+      if (!row) return;
+      set({ clipboard: { kind: 'row', rowId, row } });
+      toast.success(`Copied shelf ${rowId.replace('row-', '')} (${row.stacks.length} stacks)`);
+    },
+    copyDoor: (doorId) => {
+      const door = get().refrigerators[doorId];
+      if (!door) return;
+      set({ clipboard: { kind: 'door', doorId, door } });
+      toast.success(`Copied ${doorId.replace('door-', 'door ')}`);
+    },
+    pasteClipboard: (target, isRulesEnabled = true) => {
+      const state = get();
+      const { clipboard, refrigerators } = state;
+      if (!clipboard) {
+        toast.error('Nothing to paste - copy a stack, shelf or door first.');
+        return;
+      }
+      const targetDoor = refrigerators[target.doorId];
+      if (!targetDoor) return;
+
+      // Row ids in the target door that receive content, with what goes where
+      const pastes: { rowId: string; stacks: Item[][]; mode: 'insert' | 'replace' }[] = [];
+      let skippedRows = 0;
+
+      if (clipboard.kind === 'door') {
+        // Shelves are matched top to bottom, so doors with different row ids still line up
+        const sourceRowIds = Object.keys(clipboard.door).sort(compareRowIds);
+        const targetRowIds = Object.keys(targetDoor).sort(compareRowIds);
+        sourceRowIds.forEach((sourceRowId, index) => {
+          if (index < targetRowIds.length) {
+            pastes.push({ rowId: targetRowIds[index], stacks: clipboard.door[sourceRowId].stacks, mode: 'replace' });
+          } else if (clipboard.door[sourceRowId].stacks.length > 0) {
+            skippedRows++;
+          }
+        });
+      } else {
+        if (!target.rowId || !targetDoor[target.rowId]) {
+          toast.error('Select an item on the target shelf to paste.');
+          return;
+        }
+        pastes.push({
+          rowId: target.rowId,
+          stacks: clipboard.kind === 'row' ? clipboard.row.stacks : clipboard.stacks,
+          mode: clipboard.kind === 'row' ? 'replace' : 'insert',
+        });
+      }
+
+      const pastedIds: string[] = [];
+      const updatedRefrigerators = produce(refrigerators, draft => {
+        for (const paste of pastes) {
+          const row = draft[target.doorId][paste.rowId];
+          const stacks = cloneStacksForRow(paste.stacks, row);
+          stacks.forEach(stack => stack.forEach(item => pastedIds.push(item.id)));
+
+          if (paste.mode === 'replace') {
+            row.stacks = stacks;
+          } else if (target.stackIndex !== undefined && target.stackIndex >= 0 && target.stackIndex <= row.stacks.length) {
+            row.stacks.splice(target.stackIndex, 0, ...stacks);
+          } else {
+            row.stacks.push(...stacks);
+          }
+        }
+      });
+
+      for (const paste of pastes) {
+        const row = updatedRefrigerators[target.doorId][paste.rowId];
+        const rowLabel = `shelf ${paste.rowId.replace('row-', '')}`;
+        if (isRulesEnabled && row.allowedProductTypes !== 'all') {
+          const allowed = row.allowedProductTypes;
+          const invalid = paste.stacks.flat().find(item => item.productType !== 'BLANK' && !allowed.includes(item.productType));
+          if (invalid) {
+            toast.error(`Cannot paste: ${rowLabel} does not accept "${invalid.productType}" products.`);
+            return;
+          }
+        }
+        const fitError = getRowFitError(row);
+        if (fitError) {
+          toast.error(`Cannot paste: ${fitError} on ${rowLabel}.`);
+          return;
+        }
+      }
+
+      const historyUpdate = pushToHistory(updatedRefrigerators, state);
       set({
         refrigerators: updatedRefrigerators,
         refrigerator: updatedRefrigerators['door-1'] || {},
+        selectedItemIds: pastedIds,
+        selectedItemId: pastedIds[pastedIds.length - 1] || null,
         ...historyUpdate
       });
-    },// ========================================
+
+      toast.success(`Pasted ${pastedIds.length} item(s)`);
+      if (skippedRows > 0) {
+        toast.warning(`${skippedRows} copied shelf(s) had no matching shelf in ${target.doorId} and were skipped.`);
+      }
+    },
+    // ========================================
+    // Shelf Geometry
+    // ========================================
+    insertShelf: (doorId, rowId, position) => {
+      const state = get();
+      const door = state.refrigerators[doorId];
+      if (!door) return;
+      const update = buildShelfEditUpdate(state, doorId, insertShelf(door, rowId, position));
+      if (update) set(update);
+    },
+    removeShelf: (doorId, rowId) => {
+      const state = get();
+      const door = state.refrigerators[doorId];
+      if (!door) return;
+      const update = buildShelfEditUpdate(state, doorId, removeShelf(door, rowId), true);
+      if (update) set(update);
+    },
+    updateShelf: (doorId, rowId, { heightMM, allowedProductTypes }) => {
+      const state = get();
+      const door = state.refrigerators[doorId];
+      if (!door?.[rowId]) return;
+
+      let result: ShelfEditResult = { door };
+      if (heightMM !== undefined) result = resizeShelf(door, rowId, heightMM);
+      if ('door' in result && allowedProductTypes !== undefined) {
+        result = { door: { ...result.door, [rowId]: { ...result.door[rowId], allowedProductTypes } } };
+      }
+      const update = buildShelfEditUpdate(state, doorId, result);
+      if (update) set(update);
+    },
+    // ========================================
     // Persistence Actions
     // ========================================
-    initializeLayout: (layoutId: string, initialLayout: Refrigerator | MultiDoorRefrigerator, forceInit = false, layoutData?: any) => {
+    initializeLayout: (layoutId: string, initialLayout: Refrigerator | MultiDoorRefrigerator, forceInit = false, layoutData?: any, sourcePhoto?: SourcePhoto) => {
       // If forceInit is true (e.g., from AI import), skip draft check and use provided layout
       if (forceInit) {
         const normalizedLayout = normalizeToMultiDoor(initialLayout);
@@ -770,14 +1446,25 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           refrigerators: normalizedLayout,
           refrigerator: normalizedLayout['door-1'] || {},
           history: initialHistory,
+          holdingHistory: [[]],
           historyIndex: 0,
           currentLayoutId: layoutId,
+          currentLayoutData: layoutData ?? null,
           hasPendingDraft: false,
           draftMetadata: null,
           syncStatus: 'synced', // Mark as synced immediately
-          selectedItemId: null
+          syncError: null,
+          currentPlanogram: null,
+          conflictingPlanogram: null,
+          selectedItemId: null,
+          selectedItemIds: [],
+          holdingArea: [],
+          sourcePhoto: sourcePhoto ?? null
         });
 
+        // Imported data starts a new planogram - forget any previous server link
+        saveLinkedPlanogram(layoutId, null);
+
         // 2. CRITICAL FIX: Save to LocalStorage IMMEDIATELY
         // This ensures the data survives a page refresh
         saveToLocalStorage(
@@ -805,15 +1492,23 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           refrigerators: draftNormalized,
           refrigerator: draftNormalized['door-1'] || {},
           history: normalizedHistory,
+          holdingHistory: normalizedHistory.map(() => []), // Drafts don't keep the holding area
           historyIndex: draft.historyIndex,
           currentLayoutId: layoutId,
+          currentLayoutData: layoutData ?? null,
           hasPendingDraft: true,
           draftMetadata: {
             layoutId: draft.layoutId,
             timestamp: draft.timestamp
           },
           syncStatus: 'idle',
-          selectedItemId: null
+          syncError: null,
+          currentPlanogram: loadLinkedPlanogram(layoutId),
+          conflictingPlanogram: null,
+          selectedItemId: null,
+          selectedItemIds: [],
+          holdingArea: [],
+          sourcePhoto: draft.sourcePhoto ?? null
         });
 
         toast.success('Draft found!', { duration: 4000 });
@@ -831,12 +1526,20 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           refrigerators: refrigerators,
           refrigerator: refrigerators['door-1'] || {},
           history: [JSON.parse(JSON.stringify(refrigerators))],
+          holdingHistory: [[]],
           historyIndex: 0,
           currentLayoutId: layoutId,
+          currentLayoutData: layoutData ?? null,
           hasPendingDraft: false,
           draftMetadata: null,
           syncStatus: 'idle',
-          selectedItemId: null
+          syncError: null,
+          currentPlanogram: null,
+          conflictingPlanogram: null,
+          selectedItemId: null,
+          selectedItemIds: [],
+          holdingArea: [],
+          sourcePhoto: null
         });
       }
     }, switchLayout: (layoutId: string, newLayout: Refrigerator | MultiDoorRefrigerator, layoutData?: any) => {
@@ -868,14 +1571,23 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           refrigerators: draftNormalized,
           refrigerator: draftNormalized['door-1'] || {},
           history: normalizedHistory,
+          holdingHistory: normalizedHistory.map(() => []), // Drafts don't keep the holding area
           historyIndex: draft.historyIndex,
           currentLayoutId: layoutId,
+          currentLayoutData: layoutData ?? null,
           hasPendingDraft: true,
           draftMetadata: {
             layoutId: draft.layoutId,
             timestamp: draft.timestamp
           },
-          selectedItemId: null
+          syncStatus: 'idle',
+          syncError: null,
+          currentPlanogram: loadLinkedPlanogram(layoutId),
+          conflictingPlanogram: null,
+          selectedItemId: null,
+          selectedItemIds: [],
+          holdingArea: [],
+          sourcePhoto: draft.sourcePhoto ?? null
         });
 
         toast.success('Draft found for this layout!', { duration: 3000 });
@@ -893,11 +1605,20 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           refrigerators: refrigerators,
           refrigerator: refrigerators['door-1'] || {},
           history: [JSON.parse(JSON.stringify(refrigerators))],
+          holdingHistory: [[]],
           historyIndex: 0,
           currentLayoutId: layoutId,
+          currentLayoutData: layoutData ?? null,
           hasPendingDraft: false,
           draftMetadata: null,
-          selectedItemId: null
+          syncStatus: 'idle',
+          syncError: null,
+          currentPlanogram: null,
+          conflictingPlanogram: null,
+          selectedItemId: null,
+          selectedItemIds: [],
+          holdingArea: [],
+          sourcePhoto: null
         });
       }
     }, restoreDraft: () => {
@@ -924,12 +1645,16 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
         refrigerators: draftNormalized,
         refrigerator: draftNormalized['door-1'] || {},
         history: normalizedHistory,
+        holdingHistory: normalizedHistory.map(() => []), // Drafts don't keep the holding area
         historyIndex: draft.historyIndex,
         hasPendingDraft: false,
         draftMetadata: null,
         syncStatus: 'synced',
         lastSynced: new Date(),
-        selectedItemId: null
+        selectedItemId: null,
+        selectedItemIds: [],
+        holdingArea: [],
+        sourcePhoto: draft.sourcePhoto ?? null
       });
 
       toast.success('Draft restored successfully!');
@@ -978,8 +1703,11 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
           refrigerators: emptyRefrigerators,
           refrigerator: emptyRefrigerators['door-1'] || {},
           history: [produce(emptyRefrigerators, () => { })], // Fresh history with only empty state
+          holdingHistory: [[]],
           historyIndex: 0,
           selectedItemId: null,
+          selectedItemIds: [],
+          holdingArea: [],
           hasPendingDraft: false,
           draftMetadata: null
         };
@@ -988,7 +1716,7 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
       toast.success('All items cleared - cannot undo', { duration: 3000 });
     },
 
-    manualSync: () => {
+    manualSync: async (details) => {
       const state = get();
 
       if (!state.currentLayoutId) {
@@ -996,31 +1724,114 @@ export const usePlanogramStore = create<PlanogramState>((set, get) => ({
         return;
       }
 
+      const { refrigerators, history, historyIndex, currentLayoutId, currentPlanogram, sourcePhoto } = state;
+
       // Set syncing status
-      set({ syncStatus: 'syncing' });
-
-      // Save immediately (no debounce)
-      saveToLocalStorage(
-        state.refrigerator,
-        state.history,
-        state.historyIndex,
-        state.currentLayoutId
+      set({ syncStatus: 'syncing', syncError: null });
+
+      // Keep the local draft in step with what we send to the server
+      saveToLocalStorage(refrigerators, history, historyIndex, currentLayoutId);
+
+      const result = await savePlanogram(
+        {
+          name: details?.name || currentPlanogram?.name || currentLayoutId,
+          author: details?.author || currentPlanogram?.author || '',
+          layoutId: currentLayoutId,
+          refrigerators,
+          ...(sourcePhoto && { sourcePhoto }),
+        },
+        currentPlanogram ? { id: currentPlanogram.id, version: currentPlanogram.version } : null
       );
 
-      // Simulate brief delay for UX (500ms)
-      setTimeout(() => {
+      // The user may have switched layouts while the request was in flight
+      if (get().currentLayoutId !== currentLayoutId) return;
+
+      if (result.status === 'conflict') {
         set({
-          syncStatus: 'synced',
-          lastSynced: new Date()
+          syncStatus: 'conflict',
+          syncError: result.message,
+          conflictingPlanogram: result.planogram
         });
+        toast.error(`Save conflict: "${result.planogram.name}" was saved as v${result.planogram.version} by ${result.planogram.author}`);
+        return;
+      }
 
-        toast.success('Changes synced!');
+      if (result.status === 'error') {
+        set({ syncStatus: 'error', syncError: result.message });
+        toast.error(`Save failed: ${result.message}`);
+        return;
+      }
 
-        // Reset to idle after 2 seconds
-        setTimeout(() => {
+      const summary = toPlanogramSummary(result.planogram);
+      saveLinkedPlanogram(currentLayoutId, summary);
+      set({
+        syncStatus: 'synced',
+        lastSynced: new Date(result.planogram.updatedAt),
+        currentPlanogram: summary,
+        conflictingPlanogram: null
+      });
+
+      toast.success(`Saved "${summary.name}" (v${summary.version})`);
+
+      // Reset to idle after 2 seconds
+      setTimeout(() => {
+        if (get().syncStatus === 'synced') {
           set({ syncStatus: 'idle' });
-        }, 2000);
-      }, 500);
+        }
+      }, 2000);
+    },
+
+    resolveSyncConflict: async (strategy) => {
+      const { conflictingPlanogram, currentPlanogram, actions } = get();
+      if (!conflictingPlanogram) return;
+
+      if (strategy === 'reload') {
+        // Discard local edits and continue from the server copy
+        actions.loadSavedPlanogram(conflictingPlanogram);
+        return;
+      }
+
+      // Overwrite: rebase onto the latest version and save again
+      set({
+        currentPlanogram: currentPlanogram
+          ? { ...currentPlanogram, version: conflictingPlanogram.version }
+          : toPlanogramSummary(conflictingPlanogram),
+        conflictingPlanogram: null
+      });
+      await actions.manualSync();
+    },
+
+    loadSavedPlanogram: (planogram, layoutData) => {
+      const refrigerators = normalizeToMultiDoor(planogram.refrigerators);
+      const initialHistory = [produce(refrigerators, () => { })];
+      const summary = toPlanogramSummary(planogram);
+
+      set({
+        isMultiDoor: layoutData ? layoutData.doorCount > 1 : Object.keys(refrigerators).length > 1,
+        refrigerators,
+        refrigerator: refrigerators['door-1'] || {},
+        history: initialHistory,
+        holdingHistory: [[]],
+        historyIndex: 0,
+        currentLayoutId: planogram.layoutId,
+        currentLayoutData: layoutData ?? (planogram.layoutId === get().currentLayoutId ? get().currentLayoutData : null),
+        hasPendingDraft: false,
+        draftMetadata: null,
+        syncStatus: 'idle',
+        syncError: null,
+        lastSynced: new Date(planogram.updatedAt),
+        currentPlanogram: summary,
+        conflictingPlanogram: null,
+        selectedItemId: null,
+        selectedItemIds: [],
+        holdingArea: [],
+        sourcePhoto: planogram.sourcePhoto ?? null
+      });
+
+      saveToLocalStorage(refrigerators, initialHistory, 0, planogram.layoutId);
+      saveLinkedPlanogram(planogram.layoutId, summary);
+
+      toast.success(`Loaded "${planogram.name}" (v${planogram.version})`);
     },
   },
 }));
\ No newline at end of file
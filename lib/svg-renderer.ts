@@ -0,0 +1,152 @@
+/**
+ * SVG Renderer
+ *
+ * Draws a planogram as a standalone SVG document without the DOM, so it works
+ * on the server and never trips over cross-origin SKU images the way
+ * html-to-image does. Shelves and products use the same geometry as the
+ * backend export (`calculateRowPositions` / `calculateStackPositions`), so the
+ * drawing lines up with the exported bounding boxes:
+ *
+ *   frame border | header | 10px | shelves | grille | frame border
+ *
+ * Doors sit side by side at `getDoorXOffset`.
+ */
+
+import { DoorConfig, Item, MultiDoorRefrigerator } from './types';
+import { FRAME_BORDER, GRILLE_HEIGHT, HEADER_HEIGHT, PIXELS_PER_MM } from './config';
+import { calculateRowPositions, calculateStackPositions } from './backend-transform';
+import { getDoorXOffset, getTotalWidth } from './multi-door-utils';
+
+export interface SvgRenderOptions {
+  includeImages?: boolean; // Draw SKU images; off by default so the SVG has no external references
+  showLabels?: boolean; // Product names on items wide enough to fit them
+  highlightItemIds?: string[]; // Outlined in red, e.g. conflicts
+  scale?: number; // Output size multiplier; the viewBox stays in layout pixels
+  headerHeight?: number;
+  grilleHeight?: number;
+}
+
+// generateBoundingBox starts the shelves this far below the header
+const SHELF_TOP_OFFSET = 10;
+
+// Fills told apart by product type
+const TYPE_FILLS = ['#bfdbfe', '#bbf7d0', '#fde68a', '#e9d5ff', '#fecaca', '#a5f3fc', '#fef08a', '#e5e7eb'];
+
+const getTypeFill = (productType: string) => {
+  const hash = Array.from(productType).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 7);
+  return TYPE_FILLS[hash % TYPE_FILLS.length];
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[char]!));
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function renderItem(item: Item, x: number, y: number, options: SvgRenderOptions, isHighlighted: boolean): string {
+  const width = round(item.width);
+  const height = round(item.height);
+  const title = `<title>${escapeXml(item.name)} (${escapeXml(item.skuId)})</title>`;
+
+  if (item.productType === 'BLANK') {
+    return `<g><rect x="${x}" y="${y}" width="${width}" height="${height}" fill="none" stroke="#9ca3af" stroke-width="1" stroke-dasharray="4 3"/>${title}</g>`;
+  }
+
+  const parts = [`<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${getTypeFill(item.productType)}"/>`];
+  if (options.includeImages && item.imageUrl) {
+    parts.push(`<image href="${escapeXml(item.imageUrl)}" x="${x}" y="${y}" width="${width}" height="${height}" preserveAspectRatio="xMidYMax meet"/>`);
+  }
+  if (options.showLabels && width >= 14) {
+    // Written bottom to top, like a label on the side of the product
+    const cx = round(x + width / 2);
+    const cy = round(y + height / 2);
+    const fontSize = Math.min(10, round(width * 0.45));
+    const maxChars = Math.max(1, Math.floor(height / (fontSize * 0.6)));
+    const label = item.name.length > maxChars ? `${item.name.slice(0, Math.max(1, maxChars - 1))}…` : item.name;
+    parts.push(`<text x="${cx}" y="${cy}" transform="rotate(-90 ${cx} ${cy})" font-size="${fontSize}" text-anchor="middle" dominant-baseline="middle" fill="#1f2937">${escapeXml(label)}</text>`);
+  }
+  parts.push(`<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="none" stroke="${isHighlighted ? '#dc2626' : '#6b7280'}" stroke-width="${isHighlighted ? 2 : 0.5}"/>`);
+  return `<g>${parts.join('')}${title}</g>`;
+}
+
+function renderDoor(
+  refrigerators: MultiDoorRefrigerator,
+  doorConfigs: DoorConfig[],
+  doorIndex: number,
+  options: Required<Pick<SvgRenderOptions, 'headerHeight' | 'grilleHeight'>> & SvgRenderOptions,
+  highlighted: Set<string>
+): string {
+  const { headerHeight, grilleHeight } = options;
+  const door = doorConfigs[doorIndex];
+  const refrigerator = refrigerators[door.id] || {};
+  const contentX = getDoorXOffset(doorConfigs, doorIndex);
+  const frameX = contentX - FRAME_BORDER;
+  const contentY = FRAME_BORDER + headerHeight + SHELF_TOP_OFFSET;
+  const totalHeight = door.height + headerHeight + grilleHeight + FRAME_BORDER * 2;
+  const grilleY = contentY + door.height;
+  const parts: string[] = [];
+
+  // Frame, header and shelf area
+  parts.push(`<rect x="${frameX}" y="0" width="${door.width + FRAME_BORDER * 2}" height="${totalHeight}" fill="url(#planogram-frame)"/>`);
+  parts.push(`<rect x="${contentX}" y="${FRAME_BORDER}" width="${door.width}" height="${headerHeight}" rx="8" fill="url(#planogram-header)"/>`);
+  parts.push(`<text x="${contentX + door.width / 2}" y="${FRAME_BORDER + headerHeight / 2 - 6}" font-size="14" font-weight="bold" text-anchor="middle" fill="#ffffff">${escapeXml(door.id.replace('door-', 'DOOR ').toUpperCase())}</text>`);
+  parts.push(`<text x="${contentX + door.width / 2}" y="${FRAME_BORDER + headerHeight / 2 + 14}" font-size="11" text-anchor="middle" fill="#dbeafe">${Math.ceil(door.width / PIXELS_PER_MM)}mm × ${Math.ceil(door.height / PIXELS_PER_MM)}mm</text>`);
+  parts.push(`<rect x="${contentX}" y="${contentY}" width="${door.width}" height="${door.height}" fill="#f1f5f9"/>`);
+
+  // Shelves and products, as in the backend export
+  const rowMetadata = calculateRowPositions(refrigerator);
+  for (const rowMeta of rowMetadata) {
+    const row = refrigerator[rowMeta.rowId];
+    const rowBottom = contentY + rowMeta.yEnd;
+    const stackPositions = calculateStackPositions(row);
+
+    row.stacks.forEach((stack, stackIndex) => {
+      const x = round(contentX + stackPositions[stackIndex]);
+      let stackHeightBelow = 0;
+      for (const item of stack) {
+        const y = round(rowBottom - stackHeightBelow - item.height);
+        parts.push(renderItem(item, x, y, options, highlighted.has(item.id)));
+        stackHeightBelow += item.height;
+      }
+    });
+
+    parts.push(`<rect x="${contentX}" y="${round(rowBottom - 2)}" width="${row.capacity}" height="2" fill="#94a3b8"/>`);
+  }
+
+  // Grille slats
+  const grilleHeightDrawn = Math.max(0, totalHeight - FRAME_BORDER - grilleY);
+  parts.push(`<rect x="${contentX}" y="${grilleY}" width="${door.width}" height="${grilleHeightDrawn}" fill="#111827"/>`);
+  for (let slatY = grilleY + 8; slatY < grilleY + grilleHeightDrawn - 4; slatY += 10) {
+    parts.push(`<line x1="${contentX + 8}" y1="${slatY}" x2="${contentX + door.width - 8}" y2="${slatY}" stroke="#374151" stroke-width="3" stroke-linecap="round"/>`);
+  }
+
+  return `<g data-door-id="${escapeXml(door.id)}">${parts.join('')}</g>`;
+}
+
+/**
+ * Renders the doors in `doorConfigs` with the shelves from `refrigerators` as an SVG document.
+ */
+export function renderPlanogramSvg(
+  refrigerators: MultiDoorRefrigerator,
+  doorConfigs: DoorConfig[],
+  options: SvgRenderOptions = {}
+): string {
+  const resolved = {
+    ...options,
+    headerHeight: options.headerHeight ?? HEADER_HEIGHT,
+    grilleHeight: options.grilleHeight ?? GRILLE_HEIGHT,
+  };
+  const highlighted = new Set(options.highlightItemIds ?? []);
+  const scale = options.scale ?? 1;
+
+  const width = getTotalWidth(doorConfigs);
+  const height = Math.max(0, ...doorConfigs.map(door => door.height)) + resolved.headerHeight + resolved.grilleHeight + FRAME_BORDER * 2;
+
+  const defs = '<defs>'
+    + '<linearGradient id="planogram-frame" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="#111827"/><stop offset="0.5" stop-color="#1f2937"/><stop offset="1" stop-color="#000000"/></linearGradient>'
+    + '<linearGradient id="planogram-header" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="#2563eb"/><stop offset="1" stop-color="#1d4ed8"/></linearGradient>'
+    + '</defs>';
+  const doors = doorConfigs.map((_, doorIndex) => renderDoor(refrigerators, doorConfigs, doorIndex, resolved, highlighted));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width * scale)}" height="${round(height * scale)}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`
+    + defs + doors.join('') + '</svg>';
+}
@@ -0,0 +1,169 @@
+/**
+ * Training Dataset Export
+ *
+ * Bundles a captured cooler image with its item boxes as object-detection
+ * training data, in both COCO and YOLO format. Boxes come from the backend
+ * export (`generateBoundingBox`) scaled by PIXEL_RATIO, the same ratio the
+ * image is captured at, so they line up with the image pixels.
+ *
+ * Archive layout:
+ *
+ *   images/<name>.png
+ *   annotations/instances.json   COCO
+ *   labels/<name>.txt            YOLO, one line per box
+ *   classes.txt                  YOLO class names, one per line
+ *   data.yaml                    YOLO dataset config
+ *
+ * Categories are SKU ids. They are numbered over the whole catalog, sorted by
+ * id, so exports made against the same catalog share category ids and can be
+ * merged. Blank spaces aren't products and get no boxes.
+ */
+
+import { DoorConfig, MultiDoorRefrigerator, Sku } from './types';
+import { PIXEL_RATIO } from './config';
+import { BackendOutput, BackendProduct, convertMultiDoorFrontendToBackend, scaleBackendBoundingBoxes } from './backend-transform';
+import { createZipArchive } from './zip-archive';
+
+export interface DatasetImage {
+  blob: Blob; // PNG
+  width: number; // Pixels of the image, i.e. the captured element's size times PIXEL_RATIO
+  height: number;
+}
+
+export interface DatasetCategory {
+  skuId: string;
+  productType: string;
+  cocoId: number; // 1-based; COCO reserves 0
+  yoloIndex: number; // 0-based
+}
+
+export interface DatasetBox {
+  skuId: string;
+  name: string;
+  x: number; // Top-left corner, image pixels
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TrainingDatasetInput {
+  refrigerators: MultiDoorRefrigerator;
+  doorConfigs: DoorConfig[];
+  image: DatasetImage;
+  skus: Sku[]; // The catalog, for stable category ids
+  imageName?: string; // Without extension
+}
+
+/**
+ * Categories for the catalog plus any SKU on the shelves it doesn't know,
+ * e.g. placeholders for unknown detections.
+ */
+export function getDatasetCategories(skus: Sku[], refrigerators: MultiDoorRefrigerator): DatasetCategory[] {
+  const productTypes = new Map<string, string>();
+  skus.forEach(sku => productTypes.set(sku.skuId, sku.productType));
+  Object.values(refrigerators).forEach(door => Object.values(door).forEach(row =>
+    row.stacks.forEach(stack => stack.forEach(item => {
+      if (!productTypes.has(item.skuId)) productTypes.set(item.skuId, item.productType);
+    }))
+  ));
+
+  return Array.from(productTypes.entries())
+    .filter(([, productType]) => productType !== 'BLANK')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([skuId, productType], index) => ({ skuId, productType, cocoId: index + 1, yoloIndex: index }));
+}
+
+/**
+ * Every product box in a backend export, front and stacked, clipped to the image.
+ */
+export function getDatasetBoxes(output: BackendOutput, categoryIds: Set<string>, imageWidth: number, imageHeight: number): DatasetBox[] {
+  const boxes: DatasetBox[] = [];
+  const addBox = (product: BackendProduct) => {
+    const points = product["Bounding-Box"] || [];
+    if (categoryIds.has(product["SKU-Code"]) && points.length > 0) {
+      const xs = points.map(point => point[0]);
+      const ys = points.map(point => point[1]);
+      const left = Math.max(0, Math.min(...xs));
+      const top = Math.max(0, Math.min(...ys));
+      const right = Math.min(imageWidth, Math.max(...xs));
+      const bottom = Math.min(imageHeight, Math.max(...ys));
+      if (right > left && bottom > top) {
+        boxes.push({ skuId: product["SKU-Code"], name: product.product, x: left, y: top, width: right - left, height: bottom - top });
+      }
+    }
+    product.stacked?.forEach(addBox);
+  };
+
+  Object.values(output.Cooler).forEach(door => door.Sections.forEach(section => section.products.forEach(addBox)));
+  return boxes;
+}
+
+/**
+ * COCO instances JSON for a single image.
+ */
+export function toCocoDataset(fileName: string, image: DatasetImage, categories: DatasetCategory[], boxes: DatasetBox[]) {
+  const cocoIds = new Map(categories.map(category => [category.skuId, category.cocoId]));
+  return {
+    info: {
+      description: 'Synthetic planogram render',
+      date_created: new Date().toISOString(),
+    },
+    images: [{ id: 1, file_name: fileName, width: image.width, height: image.height }],
+    categories: categories.map(category => ({ id: category.cocoId, name: category.skuId, supercategory: category.productType })),
+    annotations: boxes.map((box, index) => ({
+      id: index + 1,
+      image_id: 1,
+      category_id: cocoIds.get(box.skuId)!,
+      bbox: [box.x, box.y, box.width, box.height],
+      area: box.width * box.height,
+      segmentation: [[box.x, box.y, box.x, box.y + box.height, box.x + box.width, box.y + box.height, box.x + box.width, box.y]],
+      iscrowd: 0,
+    })),
+  };
+}
+
+/**
+ * YOLO label file: `class cx cy w h` per box, normalized to the image size.
+ */
+export function toYoloLabels(image: DatasetImage, categories: DatasetCategory[], boxes: DatasetBox[]): string {
+  const yoloIndexes = new Map(categories.map(category => [category.skuId, category.yoloIndex]));
+  const format = (value: number) => value.toFixed(6);
+  return boxes.map(box => [
+    yoloIndexes.get(box.skuId)!,
+    format((box.x + box.width / 2) / image.width),
+    format((box.y + box.height / 2) / image.height),
+    format(box.width / image.width),
+    format(box.height / image.height),
+  ].join(' ')).join('\n');
+}
+
+/**
+ * Builds the dataset archive for a captured planogram.
+ */
+export async function buildTrainingDataset({
+  refrigerators,
+  doorConfigs,
+  image,
+  skus,
+  imageName = 'planogram',
+}: TrainingDatasetInput): Promise<{ archive: Blob; boxCount: number }> {
+  const output = scaleBackendBoundingBoxes(convertMultiDoorFrontendToBackend(refrigerators, doorConfigs), PIXEL_RATIO);
+  const categories = getDatasetCategories(skus, refrigerators);
+  const boxes = getDatasetBoxes(output, new Set(categories.map(category => category.skuId)), image.width, image.height);
+  const fileName = `${imageName}.png`;
+
+  const zip = createZipArchive();
+  zip.addFile(`images/${fileName}`, new Uint8Array(await image.blob.arrayBuffer()));
+  zip.addFile('annotations/instances.json', JSON.stringify(toCocoDataset(fileName, image, categories, boxes), null, 2));
+  zip.addFile(`labels/${imageName}.txt`, toYoloLabels(image, categories, boxes));
+  zip.addFile('classes.txt', categories.map(category => category.skuId).join('\n'));
+  zip.addFile('data.yaml', [
+    'path: .',
+    'train: images',
+    'val: images',
+    `nc: ${categories.length}`,
+    `names: [${categories.map(category => JSON.stringify(category.skuId)).join(', ')}]`,
+  ].join('\n'));
+
+  return { archive: zip.toBlob(), boxCount: boxes.length };
+}
@@ -22,8 +22,13 @@ export interface Item {
   heightMM?: number; // NEW: Height in millimeters (for dynamic blank spaces)
   imageUrl: string;
   productType: string; // NEW: e.g., 'PET', 'SSS', 'TETRA'
+  brand?: string; // Copied from the SKU; used for share-of-shelf targets
   constraints: ItemConstraints;
   customWidth?: number; // NEW: Custom width for BLANK spaces (in pixels)
+  detectedSkuCode?: string; // Placeholder for an AI detection whose SKU-Code isn't in the catalog
+  confidence?: number; // 0-1, from the AI detection this item was imported from
+  reviewStatus?: 'unreviewed' | 'confirmed'; // Imported items only; 'confirmed' once the user has checked it
+  detectionBox?: number[][]; // Imported items only: the AI's Bounding-Box polygon on the source photo
 }
 
 /**
@@ -79,6 +84,7 @@ export interface Sku {
   height: number;
   imageUrl: string;
   productType: string; // NEW: e.g., 'PET', 'SSS', 'TETRA'
+  brand?: string; // e.g., 'PEPSI' - falls back to the first word of the name when unset
   constraints: ItemConstraints;
 }
 
@@ -95,4 +101,37 @@ export interface LayoutData {
   width?: number;
   height?: number;
   layout?: Refrigerator;
-}
\ No newline at end of file
+}
+
+/**
+ * The shelf photo a planogram was imported from. width/height are the
+ * coordinate space of the detection bounding boxes (the AI's `dimensions`);
+ * when missing, the photo's own pixel size is used.
+ */
+export interface SourcePhoto {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * A named planogram persisted on the server.
+ * 'version' is bumped on every successful save and is used to detect
+ * conflicting edits (optimistic concurrency).
+ */
+export interface SavedPlanogram {
+  id: string;
+  name: string;
+  author: string;
+  version: number;
+  layoutId: string;
+  refrigerators: MultiDoorRefrigerator;
+  sourcePhoto?: SourcePhoto; // Set when the planogram was imported from a photo
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Lightweight listing entry for saved planograms (no shelf data).
+ */
+export type PlanogramSummary = Omit<SavedPlanogram, 'refrigerators' | 'sourcePhoto'>;
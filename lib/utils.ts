@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// A JSON object (not an array), e.g. a parsed request body whose fields are still unchecked
+export function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+export function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && value > 0
+}
@@ -1,5 +1,8 @@
-import { Item, Refrigerator, Sku, MultiDoorRefrigerator } from './types';
+import { Item, Refrigerator, Row, Sku, MultiDoorRefrigerator } from './types';
 import { DragValidation } from '@/app/planogram/components/planogramEditor';
+import { MerchandisingRule, RuleSeverity, evaluateRules, getPlacementRuleViolation } from './merchandising-rules';
+import { PIXELS_PER_MM } from './config';
+import { compareRowIds } from './layout-templates';
 
 // This payload contains all the necessary information to run our validation checks.
 interface ValidationPayload {
@@ -11,116 +14,277 @@ interface ValidationPayload {
   doorId: string; // Which door context to validate in
   findStackLocation: (itemId: string) => { doorId: string; rowId: string; stackIndex: number; itemIndex: number } | null;
   isRulesEnabled: boolean; // To respect the toggle for business rules only
+  rules?: MerchandisingRule[]; // Merchandising rules; only 'error' rules block a drop
 }
 
+export type ConflictCategory = 'placement' | 'dimension' | 'merchandising';
+
 /**
- * Iterates through a multi-door refrigerator layout to find all items that violate shelf rules.
- * Checks all doors and aggregates conflicts across the entire refrigerator.
- * @param refrigerators The current state of all refrigerator doors.
- * @returns An array of item IDs that are in conflict with the rules.
+ * One line of the conflict report: what is wrong, where, and by how much.
+ */
+export interface ConflictEntry {
+  key: string; // Stable React key
+  category: ConflictCategory;
+  severity: RuleSeverity; // Shelf and dimension checks are always 'error'
+  rule: string; // Name of the broken rule
+  message: string; // e.g. "stack 312mm > shelf 262mm"
+  measured?: string;
+  allowed?: string;
+  doorId?: string; // Missing only for rules about products that aren't placed at all
+  rowId?: string;
+  stackIndex?: number;
+  skuId?: string; // Set when every item involved is the same SKU
+  skuName?: string;
+  itemIds: string[];
+}
+
+const toMM = (px: number) => Math.round(px / PIXELS_PER_MM);
+
+// SKU of a group of items, when they all share one
+function getSharedSku(items: Item[]): Pick<ConflictEntry, 'skuId' | 'skuName'> {
+  const first = items[0];
+  if (!first || items.some(item => item.skuId !== first.skuId)) return {};
+  return { skuId: first.skuId, skuName: first.name };
+}
+
+/**
+ * Lists every shelf-rule conflict: products on a shelf that doesn't allow their
+ * type, stacks taller than their shelf, and merchandising rule violations.
+ * Placeholders for unknown AI detections are listed as warnings.
+ * @param rules Merchandising rules; warnings and info are reported but aren't conflicts.
  */
-export function findConflicts(refrigerators: MultiDoorRefrigerator): string[] {
-  const conflictIds: string[] = [];
+export function getConflictReport(refrigerators: MultiDoorRefrigerator, rules: MerchandisingRule[] = []): ConflictEntry[] {
+  const entries: ConflictEntry[] = [];
+  const itemLocations = new Map<string, { doorId: string; rowId: string; stackIndex: number; item: Item }>();
 
   // Iterate through all doors
-  for (const doorId in refrigerators) {
+  for (const doorId of Object.keys(refrigerators).sort(compareRowIds)) {
     const refrigerator = refrigerators[doorId];
     
-    for (const rowId in refrigerator) {
+    for (const rowId of Object.keys(refrigerator).sort(compareRowIds)) {
       const row = refrigerator[rowId];
-      for (const stack of row.stacks) {
+      row.stacks.forEach((stack, stackIndex) => {
+        stack.forEach(item => itemLocations.set(item.id, { doorId, rowId, stackIndex, item }));
+
         const stackHeight = stack.reduce((sum, item) => sum + item.height, 0);
         if (stackHeight > row.maxHeight) {
-          stack.forEach(item => conflictIds.push(item.id));
+          entries.push({
+            key: `height:${doorId}:${rowId}:${stackIndex}`,
+            category: 'placement',
+            severity: 'error',
+            rule: 'Stack too tall',
+            message: `stack ${toMM(stackHeight)}mm > shelf ${toMM(row.maxHeight)}mm`,
+            measured: `${toMM(stackHeight)}mm`,
+            allowed: `${toMM(row.maxHeight)}mm`,
+            doorId, rowId, stackIndex,
+            ...getSharedSku(stack),
+            itemIds: stack.map(item => item.id),
+          });
         }
 
         for (const item of stack) {
           // A "BLANK" item can never be in conflict with placement rules.
           if (item.productType === 'BLANK') continue;
+
+          // Placeholders for unknown AI detections have no real type yet; list them until resolved
+          if (item.detectedSkuCode) {
+            entries.push({
+              key: `unknown:${item.id}`,
+              category: 'placement',
+              severity: 'warning',
+              rule: 'Unknown SKU',
+              message: `detected code ${item.detectedSkuCode} is not in the catalog`,
+              measured: item.detectedSkuCode,
+              doorId, rowId, stackIndex,
+              skuId: item.skuId,
+              skuName: item.name,
+              itemIds: [item.id],
+            });
+            continue;
+          }
           
           if (row.allowedProductTypes !== 'all' && !row.allowedProductTypes.includes(item.productType)) {
-            if (!conflictIds.includes(item.id)) {
-              conflictIds.push(item.id);
-            }
+            const allowed = row.allowedProductTypes.join(', ') || 'nothing';
+            entries.push({
+              key: `type:${item.id}`,
+              category: 'placement',
+              severity: 'error',
+              rule: 'Product type not allowed',
+              message: `${item.productType} not allowed (shelf takes ${allowed})`,
+              measured: item.productType,
+              allowed,
+              doorId, rowId, stackIndex,
+              skuId: item.skuId,
+              skuName: item.name,
+              itemIds: [item.id],
+            });
           }
         }
-      }
+      });
     }
   }
-  
-  return conflictIds;
+
+  evaluateRules(refrigerators, rules).forEach((violation, index) => {
+    const located = violation.itemIds.map(itemId => itemLocations.get(itemId)).filter(Boolean) as { doorId: string; rowId: string; stackIndex: number; item: Item }[];
+    const first = located[0];
+    entries.push({
+      key: `rule:${violation.ruleId}:${index}`,
+      category: 'merchandising',
+      severity: violation.severity,
+      rule: violation.ruleName,
+      message: violation.message,
+      measured: violation.measured,
+      allowed: violation.allowed,
+      doorId: violation.doorId ?? first?.doorId,
+      rowId: violation.rowId ?? first?.rowId,
+      stackIndex: first?.stackIndex,
+      ...getSharedSku(located.map(location => location.item)),
+      itemIds: violation.itemIds,
+    });
+  });
+
+  return entries;
 }
 
 /**
- * Iterates through a multi-door refrigerator layout to find all items that violate dimensional constraints.
- * This includes:
+ * Lists every dimensional conflict:
  * 1. Stack height exceeding shelf max height
- * 2. Items overflowing the shelf/refrigerator width capacity
- * Checks all doors and aggregates conflicts across the entire refrigerator.
- * @param refrigerators The current state of all refrigerator doors.
- * @returns An array of item IDs that are in conflict with dimensional rules.
+ * 2. Stacks overflowing the shelf/refrigerator width capacity (the rightmost ones)
  */
-export function findDimensionConflicts(refrigerators: MultiDoorRefrigerator): string[] {
-  const conflictIds: string[] = [];
+export function getDimensionConflictReport(refrigerators: MultiDoorRefrigerator): ConflictEntry[] {
+  const entries: ConflictEntry[] = [];
 
   // Iterate through all doors
-  for (const doorId in refrigerators) {
+  for (const doorId of Object.keys(refrigerators).sort(compareRowIds)) {
     const refrigerator = refrigerators[doorId];
     
-    for (const rowId in refrigerator) {
+    for (const rowId of Object.keys(refrigerator).sort(compareRowIds)) {
       const row = refrigerator[rowId];
       
       // Check 1: Height violations (stack too tall)
-      for (const stack of row.stacks) {
+      row.stacks.forEach((stack, stackIndex) => {
         const stackHeight = stack.reduce((sum, item) => sum + item.height, 0);
         if (stackHeight > row.maxHeight) {
-          stack.forEach(item => {
-            if (!conflictIds.includes(item.id)) {
-              conflictIds.push(item.id);
-            }
+          entries.push({
+            key: `height:${doorId}:${rowId}:${stackIndex}`,
+            category: 'dimension',
+            severity: 'error',
+            rule: 'Stack too tall',
+            message: `stack ${toMM(stackHeight)}mm > shelf ${toMM(row.maxHeight)}mm`,
+            measured: `${toMM(stackHeight)}mm`,
+            allowed: `${toMM(row.maxHeight)}mm`,
+            doorId, rowId, stackIndex,
+            ...getSharedSku(stack),
+            itemIds: stack.map(item => item.id),
           });
         }
-      }
-        // Check 2: Width overflow (items exceed shelf capacity)
-      const getStackWidth = (stack: Item[]) => 
-        stack.length === 0 ? 0 : Math.max(...stack.map(item => item.width));
-      
-      const totalWidth = row.stacks.reduce((sum, stack) => sum + getStackWidth(stack), 0);
-      const gapWidth = Math.max(0, row.stacks.length - 1); // 1px gap between stacks
-      const totalWidthWithGaps = totalWidth + gapWidth;
-      
-      // If total width exceeds capacity, mark items as conflicts (rightmost items)
-      if (totalWidthWithGaps > row.capacity) {
-        // Calculate width from left to right to find where overflow starts
-        let accumulatedWidth = 0;
-        const overflowAmount = totalWidthWithGaps - row.capacity;
-        
-        for (let i = 0; i < row.stacks.length; i++) {
-          const stackWidth = getStackWidth(row.stacks[i]);
-          const nextAccumulatedWidth = accumulatedWidth + stackWidth + (i > 0 ? 1 : 0); // Add gap if not first stack
-          
-          // Check if adding this stack would cause us to exceed the "acceptable" width
-          // The acceptable width is capacity, so anything beyond that is overflow
-          const widthAfterThisStack = accumulatedWidth + stackWidth + (i > 0 ? 1 : 0);
-          const widthBeforeThisStack = accumulatedWidth;
-          
-          // If we're in the overflow region (beyond what fits in capacity)
-          if (widthAfterThisStack > row.capacity) {
-            // Mark all items in this stack as conflicting
-            row.stacks[i].forEach(item => {
-              if (!conflictIds.includes(item.id)) {
-                conflictIds.push(item.id);
-              }
-            });
-          }
-          
-          accumulatedWidth = nextAccumulatedWidth;
+      });
+
+      // Check 2: Width overflow (items exceed shelf capacity)
+      // Walk left to right; every stack that ends past the capacity is overflowing
+      let accumulatedWidth = 0;
+      row.stacks.forEach((stack, stackIndex) => {
+        accumulatedWidth += getStackWidth(stack) + (stackIndex > 0 ? STACK_GAP : 0);
+        if (accumulatedWidth > row.capacity) {
+          entries.push({
+            key: `width:${doorId}:${rowId}:${stackIndex}`,
+            category: 'dimension',
+            severity: 'error',
+            rule: 'Shelf width exceeded',
+            message: `stack ends at ${toMM(accumulatedWidth)}mm > shelf ${toMM(row.capacity)}mm`,
+            measured: `${toMM(accumulatedWidth)}mm`,
+            allowed: `${toMM(row.capacity)}mm`,
+            doorId, rowId, stackIndex,
+            ...getSharedSku(stack),
+            itemIds: stack.map(item => item.id),
+          });
         }
-      }
+      });
     }
   }
-  
-  return conflictIds;
+
+  return entries;
+}
+
+/**
+ * The unique item ids behind the 'error' entries of a conflict report.
+ */
+export function getConflictItemIds(entries: ConflictEntry[]): string[] {
+  const ids = new Set<string>();
+  entries.forEach(entry => {
+    if (entry.severity === 'error') entry.itemIds.forEach(id => ids.add(id));
+  });
+  return Array.from(ids);
+}
+
+/**
+ * Iterates through a multi-door refrigerator layout to find all items that violate shelf rules.
+ * Checks all doors and aggregates conflicts across the entire refrigerator.
+ * @param refrigerators The current state of all refrigerator doors.
+ * @param rules Merchandising rules; items in 'error' violations count as conflicts.
+ * @returns An array of item IDs that are in conflict with the rules.
+ */
+export function findConflicts(refrigerators: MultiDoorRefrigerator, rules: MerchandisingRule[] = []): string[] {
+  return getConflictItemIds(getConflictReport(refrigerators, rules));
+}
+
+// Stacks on a shelf are separated by a 1px gap (gap-x-px in the editor)
+export const STACK_GAP = 1;
+
+// A stack is as wide as its widest item
+export const getStackWidth = (stack: Item[]) => stack.length === 0 ? 0 : Math.max(...stack.map(item => item.width));
+
+// Width a shelf's stacks take up, gaps included
+export const getUsedWidth = (row: Row) =>
+  row.stacks.reduce((sum, stack) => sum + getStackWidth(stack), 0) + Math.max(0, row.stacks.length - 1) * STACK_GAP;
+
+// Unique item id for a new copy of a SKU
+export const generateUniqueId = (skuId: string) => `${skuId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Iterates through a multi-door refrigerator layout to find all items that violate dimensional constraints.
+ * Checks all doors and aggregates conflicts across the entire refrigerator.
+ * @param refrigerators The current state of all refrigerator doors.
+ * @returns An array of item IDs that are in conflict with dimensional rules.
+ */
+export function findDimensionConflicts(refrigerators: MultiDoorRefrigerator): string[] {
+  return getConflictItemIds(getDimensionConflictReport(refrigerators));
+}
+
+/**
+ * Both reports as one list. Stacks that are too tall appear in both, so they're kept once.
+ */
+export function mergeConflictReports(placement: ConflictEntry[], dimension: ConflictEntry[]): ConflictEntry[] {
+  const placementKeys = new Set(placement.map(entry => entry.key));
+  return [...placement, ...dimension.filter(entry => !placementKeys.has(entry.key))];
+}
+
+/**
+ * Flattens conflict reports into CSV rows (header first) for export.
+ * @param planogramName Written on every row so exports from several planograms can be combined
+ */
+export function conflictReportToCsvRows(entries: ConflictEntry[], planogramName: string): (string | number)[][] {
+  const rows: (string | number)[][] = [
+    ['Planogram', 'Door', 'Shelf', 'Position', 'SKU', 'SKU name', 'Category', 'Rule', 'Severity', 'Measured', 'Allowed', 'Details', 'Item ids'],
+  ];
+  for (const entry of entries) {
+    rows.push([
+      planogramName,
+      entry.doorId?.replace('door-', '') ?? '',
+      entry.rowId?.replace('row-', '') ?? '',
+      entry.stackIndex !== undefined ? entry.stackIndex + 1 : '',
+      entry.skuId ?? '',
+      entry.skuName ?? '',
+      entry.category,
+      entry.rule,
+      entry.severity,
+      entry.measured ?? '',
+      entry.allowed ?? '',
+      entry.message,
+      entry.itemIds.join(' '),
+    ]);
+  }
+  return rows;
 }
 
 /**
@@ -138,6 +302,7 @@ export function runValidation({
   doorId,
   findStackLocation,
   isRulesEnabled,
+  rules = [],
 }: ValidationPayload): DragValidation {
   const validRowIds = new Set<string>();
   const validStackTargetIds = new Set<string>();
@@ -162,10 +327,10 @@ export function runValidation({
         || row.allowedProductTypes.includes(draggedItem.productType);
         
       if (!isRowAllowedByPlacement) continue;
+      if (getPlacementRuleViolation(rules, refrigerators, draggedItem, { doorId, rowId }, true, originLocation ? activeDragId : undefined)) continue;
     }    if (draggedEntityHeight > row.maxHeight) continue;
 
     // Calculate current width usage (use widest item in each stack)
-    const getStackWidth = (stack: Item[]) => stack.length === 0 ? 0 : Math.max(...stack.map(item => item.width));
     const currentWidth = row.stacks.reduce((sum, stack) => sum + getStackWidth(stack), 0);
     
     // Account for gaps between stacks (gap-px = 1px per gap)
@@ -199,6 +364,7 @@ export function runValidation({
           || row.allowedProductTypes.includes(draggedItem.productType);
 
         if (!isRowAllowedByPlacement) continue;
+        if (getPlacementRuleViolation(rules, refrigerators, draggedItem, { doorId, rowId }, false, originLocation ? activeDragId : undefined)) continue;
       }
 
       if (draggedItem.height > row.maxHeight) continue;
@@ -0,0 +1,102 @@
+/**
+ * XLSX Sheet Reader
+ *
+ * Reads the cell text of the first worksheet in an XLSX workbook, enough for
+ * tabular uploads like product master data. Formulas are read as their cached
+ * values; styles, dates and merged cells are not interpreted, so a cell holds
+ * what Excel stored (numbers in invariant form, e.g. "66.5").
+ */
+
+import { readZipArchive } from './zip-archive';
+
+export interface XlsxRow {
+  line: number; // 1-based sheet row number
+  cells: string[];
+}
+
+const XML_ENTITIES: { [name: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+
+const getAttribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+
+// All <t> runs of a string item; phonetic hints (<rPh>) aren't part of the text
+const readText = (xml: string) =>
+  decodeXml(Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => match[1]).join(''));
+
+// "A" -> 0, "AB" -> 27
+const getColumnIndex = (reference: string) =>
+  Array.from(reference.replace(/\d+$/, '').toUpperCase()).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// The first sheet in workbook order, falling back to the conventional path
+function getFirstSheetPath(files: Map<string, Uint8Array>, decode: (path: string) => string): string {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const sheetId = decode('xl/workbook.xml').match(/<sheet\b[^>]*\sr:id="([^"]*)"/)?.[1];
+  const relationship = Array.from(decode('xl/_rels/workbook.xml.rels').matchAll(/<Relationship\b([^>]*)>/g))
+    .map(match => match[1])
+    .find(attributes => getAttribute(attributes, 'Id') === sheetId);
+  const target = relationship && getAttribute(relationship, 'Target');
+  if (!target) return fallback;
+
+  const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  return files.has(path) ? path : fallback;
+}
+
+/**
+ * Rows of the first worksheet, in order. Blank rows are left out; missing
+ * cells within a row are empty strings.
+ */
+export async function readXlsxSheet(data: Uint8Array): Promise<XlsxRow[]> {
+  const files = await readZipArchive(data);
+  const decoder = new TextDecoder('utf-8');
+  const decode = (path: string) => {
+    const file = files.get(path);
+    return file ? decoder.decode(file) : '';
+  };
+
+  const sheetPath = getFirstSheetPath(files, decode);
+  const sheet = decode(sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const sharedStrings = Array.from(decode('xl/sharedStrings.xml').matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>|<si\b[^>]*\/>/g), match => readText(match[1] ?? ''));
+
+  const rows: XlsxRow[] = [];
+  let previousLine = 0;
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const line = Number(getAttribute(rowMatch[1], 'r')) || previousLine + 1;
+    previousLine = line;
+
+    const cells: string[] = [];
+    let previousColumn = -1;
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = getAttribute(cellMatch[1], 'r');
+      const column = reference ? getColumnIndex(reference) : previousColumn + 1;
+      previousColumn = column;
+
+      const content = cellMatch[2] ?? '';
+      const value = decodeXml(content.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1] ?? '');
+      switch (getAttribute(cellMatch[1], 't')) {
+        case 's':
+          cells[column] = sharedStrings[Number(value)] ?? '';
+          break;
+        case 'inlineStr':
+          cells[column] = readText(content.match(/<is\b[^>]*>([\s\S]*?)<\/is>/)?.[1] ?? '');
+          break;
+        default:
+          cells[column] = value;
+      }
+    }
+
+    const filled = Array.from(cells, cell => cell ?? '');
+    if (filled.some(cell => cell.trim() !== '')) rows.push({ line, cells: filled });
+  }
+  return rows;
+}
@@ -0,0 +1,184 @@
+/**
+ * ZIP Archive
+ *
+ * A small ZIP writer for bundling generated files into one download, and a
+ * reader for ZIP-based uploads such as XLSX workbooks. Written entries are
+ * stored without compression: the archives hold PNGs, which don't compress
+ * further, and small text files. Names are written as UTF-8. The reader
+ * handles stored and deflated entries, which is what office files use.
+ */
+
+export interface ZipArchive {
+  readonly fileCount: number;
+  addFile: (path: string, data: string | Uint8Array, modifiedAt?: Date) => void; // '/' separates folders
+  toBlob: () => Blob;
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  data: Uint8Array;
+  crc: number;
+  time: number;
+  date: number;
+  offset: number;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, local time, 2-second resolution
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Starts an empty archive.
+ */
+export function createZipArchive(): ZipArchive {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const names = new Set<string>();
+
+  return {
+    get fileCount() {
+      return entries.length;
+    },
+
+    addFile: (path, data, modifiedAt = new Date()) => {
+      if (names.has(path)) throw new Error(`Duplicate file in archive: ${path}`);
+      names.add(path);
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+      entries.push({ name: encoder.encode(path), data: bytes, crc: crc32(bytes), ...toDosDateTime(modifiedAt), offset: 0 });
+    },
+
+    toBlob: () => {
+      const parts: Uint8Array[] = [];
+      let offset = 0;
+      const push = (part: Uint8Array) => {
+        parts.push(part);
+        offset += part.length;
+      };
+
+      // Local file headers, each followed by its data
+      for (const entry of entries) {
+        entry.offset = offset;
+        const header = new DataView(new ArrayBuffer(30));
+        header.setUint32(0, 0x04034b50, true);
+        header.setUint16(4, 20, true); // Version needed: 2.0
+        header.setUint16(6, UTF8_FLAG, true);
+        header.setUint16(8, 0, true); // Stored
+        header.setUint16(10, entry.time, true);
+        header.setUint16(12, entry.date, true);
+        header.setUint32(14, entry.crc, true);
+        header.setUint32(18, entry.data.length, true);
+        header.setUint32(22, entry.data.length, true);
+        header.setUint16(26, entry.name.length, true);
+        push(new Uint8Array(header.buffer));
+        push(entry.name);
+        push(entry.data);
+      }
+
+      // Central directory
+      const directoryOffset = offset;
+      for (const entry of entries) {
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);
+        header.setUint16(4, 20, true); // Version made by
+        header.setUint16(6, 20, true);
+        header.setUint16(8, UTF8_FLAG, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, entry.time, true);
+        header.setUint16(14, entry.date, true);
+        header.setUint32(16, entry.crc, true);
+        header.setUint32(20, entry.data.length, true);
+        header.setUint32(24, entry.data.length, true);
+        header.setUint16(28, entry.name.length, true);
+        header.setUint32(42, entry.offset, true);
+        push(new Uint8Array(header.buffer));
+        push(entry.name);
+      }
+      const directorySize = offset - directoryOffset;
+
+      // End of central directory
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, 0x06054b50, true);
+      end.setUint16(8, entries.length, true);
+      end.setUint16(10, entries.length, true);
+      end.setUint32(12, directorySize, true);
+      end.setUint32(16, directoryOffset, true);
+      push(new Uint8Array(end.buffer));
+
+      return new Blob(parts as BlobPart[], { type: 'application/zip' });
+    },
+  };
+}
+
+const MAX_ZIP_ENTRIES = 10000;
+
+// Inflates a raw deflate stream with the platform's DecompressionStream (browsers and Node 18+)
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Reads the files in a ZIP archive, keyed by path. Folders are left out.
+ * Throws when the data isn't a ZIP archive or uses a compression method other
+ * than stored or deflate.
+ */
+export async function readZipArchive(data: Uint8Array): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder('utf-8');
+
+  // The end of central directory record is the last 22 bytes, followed by a comment of up to 64KB
+  let endOffset = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error('Not a ZIP archive');
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  if (entryCount > MAX_ZIP_ENTRIES) throw new Error(`ZIP archive has too many files (${entryCount})`);
+
+  const files = new Map<string, Uint8Array>();
+  let offset = view.getUint32(endOffset + 16, true);
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt ZIP central directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (view.getUint32(localOffset, true) !== 0x04034b50) throw new Error(`Corrupt ZIP entry: ${name}`);
+    // Sizes come from the central directory; the local header may defer them to a data descriptor
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const content = data.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) files.set(name, content);
+    else if (method === 8) files.set(name, await inflateRaw(content));
+    else throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+  }
+  return files;
+}